@@ -1,10 +1,60 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useSyncExternalStore } from 'react';
 import { VideoUploader } from './components/VideoUploader';
 import { DubbedPlayer } from './components/DubbedPlayer';
-import { generateDubbingTimeline } from './services/geminiService';
-import { AppState, DubbingSegment } from './types';
+import { ScriptEditor } from './components/ScriptEditor';
+import { CastPanel } from './components/CastPanel';
+import { VoiceLibraryPanel } from './components/VoiceLibraryPanel';
+import { ProjectPanel } from './components/ProjectPanel';
+import { CachePanel } from './components/CachePanel';
+import { BatchQueuePanel } from './components/BatchQueuePanel';
+import { GenerationProgress } from './components/GenerationProgress';
+import { SegmentTake, SegmentTakes } from './components/SegmentTakes';
+import {
+  defaultTtsScheduler, DEFAULT_INSTRUCTIONS, draftScript, PipelineProgress, revoiceSegment, rewriteSegmentText, voiceScript
+} from './services/dubbingPipeline';
+import { isAbortError } from './services/abort';
+import { MAX_VIDEO_SIZE } from './services/geminiFiles';
+import { readVideoDuration } from './services/videoProbe';
+import { DEFAULT_TTS_CONCURRENCY } from './services/ttsQueue';
+import { DEFAULT_SYNC_STRATEGY, planSegmentFits, SYNC_STRATEGIES, SyncStrategy } from './services/syncPlan';
+import { createProviders, defaultProviderKind } from './services/providers';
+import { withResultCache } from './services/resultCache';
+import { BatchItem, BatchSettings, createBatchQueue } from './services/batchQueue';
+import { sortScriptLines } from './services/script';
+import { loadCast, saveCast, syncCast } from './services/cast';
+import {
+  cuesToScriptLines, formatSubtitles, parseSubtitles, segmentsToCues, SubtitleFormat, SubtitleTrack
+} from './services/subtitles';
+import { baseFileName, downloadBlob } from './services/download';
+import {
+  createProject, exportProjectFile, PROJECT_FILE_EXTENSION, restoreSegments, restoreVideo, saveProject
+} from './services/projectStore';
+import { AppState, DubbingMode, DubbingProject, DubbingSegment, ScriptLine, SegmentFailure, VoiceEffects, VoiceInstruction } from './types';
+
+const TARGET_LANGUAGES = [
+  'English', 'Spanish', 'French', 'German', 'Italian', 'Portuguese', 'Dutch', 'Polish', 'Russian',
+  'Turkish', 'Arabic', 'Hindi', 'Japanese', 'Korean', 'Mandarin Chinese', 'Indonesian', 'Vietnamese'
+];
+
+const Spinner: React.FC<{ label: string }> = ({ label }) => (
+  <div className="flex items-center justify-center gap-3">
+    <svg className="animate-spin h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+    </svg>
+    <span>{label}</span>
+  </div>
+);
 
 function App() {
+  const [providerKind] = useState(() => defaultProviderKind());
+  const [apiProviders] = useState(() => createProviders(providerKind));
+  const [cachedProviders] = useState(() => withResultCache(apiProviders));
+  const [cacheEnabled, setCacheEnabled] = useState<boolean>(() => {
+    return localStorage.getItem('dubai_cache_enabled') !== 'false';
+  });
+  // Unchanged scripts and lines come from the local cache instead of the API
+  const providers = cacheEnabled ? cachedProviders : apiProviders;
   const [appState, setAppState] = useState<AppState>(AppState.IDLE);
   const [videoFile, setVideoFile] = useState<File | null>(null);
   
@@ -13,45 +63,342 @@ function App() {
     return localStorage.getItem('dubai_instructions') || "";
   });
 
+  const [mode, setMode] = useState<DubbingMode>(() => {
+    return localStorage.getItem('dubai_mode') === 'translate' ? 'translate' : 'create';
+  });
+  const [targetLanguage, setTargetLanguage] = useState<string>(() => {
+    return localStorage.getItem('dubai_target_language') || 'Spanish';
+  });
+  const [subtitleTrack, setSubtitleTrack] = useState<SubtitleTrack>('dub');
+  const [syncStrategy, setSyncStrategy] = useState<SyncStrategy>(() => {
+    const saved = localStorage.getItem('dubai_sync_strategy') as SyncStrategy;
+    return SYNC_STRATEGIES.includes(saved) ? saved : DEFAULT_SYNC_STRATEGY;
+  });
+
   const [videoPreviewUrl, setVideoPreviewUrl] = useState<string | null>(null);
+  const [scriptLines, setScriptLines] = useState<ScriptLine[]>([]);
+  const [cast, setCast] = useState<VoiceInstruction[]>(() => loadCast());
   const [dubbingSegments, setDubbingSegments] = useState<DubbingSegment[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const [voiceFailures, setVoiceFailures] = useState<SegmentFailure[]>([]);
+  const [scriptWarnings, setScriptWarnings] = useState<string[]>([]);
+  const [ttsConcurrency, setTtsConcurrency] = useState<number>(() => {
+    return Number(localStorage.getItem('dubai_tts_concurrency')) || DEFAULT_TTS_CONCURRENCY;
+  });
+  const [voiceDialogue, setVoiceDialogue] = useState<boolean>(() => {
+    return localStorage.getItem('dubai_voice_dialogue') !== 'false';
+  });
+  const [project, setProject] = useState<{ id: string; createdAt: number } | null>(null);
+  const [projectName, setProjectName] = useState("");
+  const [progress, setProgress] = useState<PipelineProgress | null>(null);
+  const [cancelling, setCancelling] = useState(false);
+  const [showVoiceLibrary, setShowVoiceLibrary] = useState(false);
+  const subtitleInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // The batch queue reads the current settings whenever it starts an item
+  const providersRef = useRef(providers);
+  providersRef.current = providers;
+  const batchSettingsRef = useRef<BatchSettings>({ instructions, cast });
+  batchSettingsRef.current = {
+    instructions,
+    translation: mode === 'translate' ? { targetLanguage: targetLanguage.trim() || 'English' } : undefined,
+    cast,
+    dialogue: voiceDialogue
+  };
+  const [batchQueue] = useState(() => createBatchQueue({
+    providers: () => providersRef.current,
+    settings: () => batchSettingsRef.current,
+    readDuration: readVideoDuration,
+    paused: true,
+    // Characters a batch item brought in join the cast, so later items and reviews reuse their voices
+    onCast: itemCast => setCast(prev => [
+      ...prev,
+      ...itemCast.filter(c => !prev.some(p => p.characterId === c.characterId))
+    ])
+  }));
+  const batchItems = useSyncExternalStore(batchQueue.subscribe, batchQueue.getItems);
+  const [batchPaused, setBatchPaused] = useState(true);
+  const [openBatchItemId, setOpenBatchItemId] = useState<string | null>(null);
 
   // Persist instructions whenever they change
   useEffect(() => {
     localStorage.setItem('dubai_instructions', instructions);
   }, [instructions]);
 
+  useEffect(() => {
+    localStorage.setItem('dubai_sync_strategy', syncStrategy);
+  }, [syncStrategy]);
+
+  useEffect(() => {
+    localStorage.setItem('dubai_cache_enabled', String(cacheEnabled));
+  }, [cacheEnabled]);
+
+  useEffect(() => {
+    localStorage.setItem('dubai_mode', mode);
+    localStorage.setItem('dubai_target_language', targetLanguage);
+  }, [mode, targetLanguage]);
+
+  // Parallel TTS requests; lower this if the API keeps rate-limiting
+  useEffect(() => {
+    localStorage.setItem('dubai_tts_concurrency', String(ttsConcurrency));
+    defaultTtsScheduler.setConcurrency(ttsConcurrency);
+  }, [ttsConcurrency]);
+
+  useEffect(() => {
+    localStorage.setItem('dubai_voice_dialogue', String(voiceDialogue));
+  }, [voiceDialogue]);
+
+  useEffect(() => {
+    batchQueue.setPaused(batchPaused);
+  }, [batchQueue, batchPaused]);
+
+  // Persist voice assignments so a character keeps its voice across scripts
+  useEffect(() => {
+    saveCast(cast);
+  }, [cast]);
+
+  // Give any new character in the script a cast entry
+  useEffect(() => {
+    setCast(prev => syncCast(prev, scriptLines));
+  }, [scriptLines]);
+
   const handleFileSelect = (file: File) => {
-    // Limit to 20MB to ensure reliable API transmission without timeouts
-    if (file.size > 20 * 1024 * 1024) { 
-      setError("File size exceeds 20MB limit. Please upload a shorter or more compressed video.");
+    // Large videos are uploaded through the Files API, which takes up to 2GB
+    if (file.size > MAX_VIDEO_SIZE) {
+      setError("File size exceeds the 2GB limit. Please upload a shorter or more compressed video.");
       return;
     }
     setVideoFile(file);
     const url = URL.createObjectURL(file);
     setVideoPreviewUrl(url);
     
-    // Reset state
+    // Reset state; a new video starts a new project
+    setOpenBatchItemId(null);
+    setProject(null);
+    setProjectName(baseFileName(file.name));
     setAppState(AppState.IDLE);
+    setScriptLines([]);
     setDubbingSegments([]);
+    setVoiceFailures([]);
+    setScriptWarnings([]);
     setError(null);
   };
 
-  const handleGenerate = async () => {
+  // Several videos at once are dubbed in the background, without a review step
+  const handleFilesSelect = (files: File[]) => {
+    const accepted = files.filter(file => file.size <= MAX_VIDEO_SIZE);
+    if (accepted.length < files.length) {
+      setError(`${files.length - accepted.length} video(s) exceed the 2GB limit and were not queued.`);
+    }
+    batchQueue.add(accepted);
+  };
+
+  // Loads a finished batch item into the editor and player. Later edits apply to what
+  // is open here, not to the item; save it as a project to keep them.
+  const handleOpenBatchItem = (item: BatchItem) => {
+    setVideoFile(item.file);
+    setVideoPreviewUrl(URL.createObjectURL(item.file));
+    setCast(prev => [
+      ...prev.filter(c => !item.cast.some(i => i.characterId === c.characterId)),
+      ...item.cast
+    ]);
+    setScriptLines(item.lines);
+    setDubbingSegments(item.segments);
+    setVoiceFailures(item.failures);
+    setScriptWarnings(item.warnings);
+    setProject(null);
+    setProjectName(baseFileName(item.file.name));
+    setOpenBatchItemId(item.id);
+    setError(null);
+    setAppState(AppState.COMPLETED);
+  };
+
+  const isBusy = appState === AppState.SCRIPTING || appState === AppState.PROCESSING;
+
+  // Starts a cancellable generation run
+  const beginRun = (): AbortSignal => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress(null);
+    setCancelling(false);
+    return controller.signal;
+  };
+
+  const handleCancel = () => {
+    setCancelling(true);
+    abortRef.current?.abort();
+  };
+
+  // Phase 1: draft the script for review
+  const handleGenerateScript = async () => {
     if (!videoFile) return;
 
+    const signal = beginRun();
     try {
-      setAppState(AppState.PROCESSING);
+      setAppState(AppState.SCRIPTING);
       setError(null);
+      setScriptWarnings([]);
 
-      // Robust default instruction that encourages content generation even for silent videos
-      const finalInstructions = instructions.trim() || "Read visible text. If there is no text, narrate the key actions in an engaging way.";
+      const finalInstructions = instructions.trim() || DEFAULT_INSTRUCTIONS;
 
-      const segments = await generateDubbingTimeline(videoFile, finalInstructions);
+      const translation = mode === 'translate' ? { targetLanguage: targetLanguage.trim() || 'English' } : undefined;
+      const videoDuration = await readVideoDuration(videoFile);
+      const lines = await draftScript(providers, videoFile, translation ? instructions : finalInstructions, cast, {
+        signal,
+        onProgress: setProgress,
+        onWarning: message => setScriptWarnings(prev => [...prev, message]),
+        translation,
+        videoDuration,
+        fresh: scriptLines.length > 0 // "Regenerate" asks for a new draft, not the cached one
+      });
       
+      setScriptLines(lines);
+      setDubbingSegments([]);
+      setVoiceFailures([]);
+      setAppState(AppState.REVIEW);
+    } catch (err: any) {
+      // Cancelled: keep whatever script was there before
+      if (isAbortError(err)) {
+        setAppState(scriptLines.length > 0 ? AppState.REVIEW : AppState.IDLE);
+        return;
+      }
+      console.error(err);
+      setError(err.message || "Something went wrong while writing the script.");
+      setAppState(AppState.ERROR);
+    }
+  };
+
+  // Alternative phase 1: start from an existing caption file instead of the model
+  const handleImportSubtitles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const cues = parseSubtitles(await file.text());
+      setScriptLines(cuesToScriptLines(cues));
+      setDubbingSegments([]);
+      setVoiceFailures([]);
+      setScriptWarnings([]);
+      setError(null);
+      setAppState(AppState.REVIEW);
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || "Could not read the caption file.");
+    }
+  };
+
+  const handleExportSubtitles = (format: SubtitleFormat) => {
+    const content = formatSubtitles(segmentsToCues(dubbingSegments, subtitleTrack), format);
+    const type = format === 'srt' ? 'application/x-subrip' : 'text/vtt';
+    const name = baseFileName(videoFile?.name || 'dubbed_video');
+    downloadBlob(new Blob([content], { type }), `${name}.${format}`);
+  };
+
+  // Timeline edits flow back into the script so a later re-voice keeps them
+  const handleSegmentsChange = (segments: DubbingSegment[]) => {
+    setDubbingSegments(segments);
+    setScriptLines(prev => sortScriptLines(prev.map(line => {
+      const seg = segments.find(s => s.id === line.id);
+      return seg ? { ...line, startTime: seg.startTime, endTime: seg.endTime } : line;
+    })));
+  };
+
+  // A new take replaces one segment's audio; the player only decodes that one
+  const handleRevoiceSegment = async (index: number, take: SegmentTake) => {
+    const { id, text, audioUrl, duration } = await revoiceSegment(providers, dubbingSegments[index], cast, take);
+    // Merge by id: the segment may have been retimed while the take was generating
+    setDubbingSegments(prev => prev.map(s => (s.id === id ? { ...s, text, audioUrl, duration } : s)));
+    setScriptLines(prev => prev.map(line => (line.id === id ? { ...line, text, characterNote: take.note } : line)));
+  };
+
+  // Effects are applied on playback, so changing them needs no new audio
+  const handleSegmentEffects = (index: number, effects: VoiceEffects | undefined) => {
+    const { id } = dubbingSegments[index];
+    setDubbingSegments(prev => prev.map(s => (s.id === id ? { ...s, effects } : s)));
+  };
+
+  const handleRewriteSegment = (index: number, direction: string, note: string) =>
+    rewriteSegmentText(providers, dubbingSegments, index, instructions, { direction, note });
+
+  // --- Projects ---
+
+  const snapshotProject = () => createProject({
+    id: project?.id,
+    createdAt: project?.createdAt,
+    name: projectName,
+    instructions,
+    mode,
+    targetLanguage: mode === 'translate' ? targetLanguage : undefined,
+    script: scriptLines,
+    cast,
+    segments: dubbingSegments,
+    video: videoFile
+  });
+
+  const handleSaveProject = async () => {
+    const snapshot = await snapshotProject();
+    await saveProject(snapshot);
+    setProject({ id: snapshot.id, createdAt: snapshot.createdAt });
+  };
+
+  const handleExportProject = async () => {
+    const snapshot = await snapshotProject();
+    downloadBlob(await exportProjectFile(snapshot), `${baseFileName(snapshot.name)}${PROJECT_FILE_EXTENSION}`);
+  };
+
+  const handleOpenProject = (opened: DubbingProject) => {
+    const video = restoreVideo(opened);
+    setOpenBatchItemId(null);
+    setVideoFile(video);
+    setVideoPreviewUrl(video ? URL.createObjectURL(video) : null);
+
+    // The project's voice assignments win over the ones saved in this browser
+    setCast(prev => [
+      ...prev.filter(c => !opened.cast.some(p => p.characterId === c.characterId)),
+      ...opened.cast
+    ]);
+    setInstructions(opened.instructions);
+    setMode(opened.mode || 'create');
+    if (opened.targetLanguage) setTargetLanguage(opened.targetLanguage);
+    setScriptLines(opened.script);
+    setDubbingSegments(restoreSegments(opened));
+    setVoiceFailures([]);
+    setScriptWarnings([]);
+    setProject({ id: opened.id, createdAt: opened.createdAt });
+    setProjectName(opened.name);
+    setError(null);
+    setAppState(
+      opened.segments.length > 0 ? AppState.COMPLETED
+        : opened.script.length > 0 ? AppState.REVIEW
+        : AppState.IDLE
+    );
+  };
+
+  // Phase 2: voice the reviewed script
+  const handleVoiceScript = async () => {
+    if (scriptLines.length === 0) return;
+
+    const signal = beginRun();
+    try {
+      setAppState(AppState.PROCESSING);
+      setError(null);
+      setVoiceFailures([]);
+
+      const lines = sortScriptLines(scriptLines);
+      setScriptLines(lines);
+
+      const { lines: placed, segments, failures, cancelled } = await voiceScript(
+        providers, lines, syncCast(cast, lines), { signal, dialogue: voiceDialogue, onProgress: setProgress }
+      );
+
+      // A cancelled run still keeps the lines voiced before the cancel
+      setScriptLines(placed);
       setDubbingSegments(segments);
-      setAppState(AppState.COMPLETED);
+      setVoiceFailures(failures);
+      setAppState(cancelled && segments.length === 0 ? AppState.REVIEW : AppState.COMPLETED);
     } catch (err: any) {
       console.error(err);
       setError(err.message || "Something went wrong during generation.");
@@ -76,6 +423,14 @@ function App() {
           <span className="px-2 py-0.5 rounded-full bg-slate-800 text-slate-400 text-xs border border-slate-700 font-medium">
             Beta
           </span>
+          {providerKind === 'mock' && (
+            <span
+              className="px-2 py-0.5 rounded-full bg-amber-500/10 text-amber-400 text-xs border border-amber-500/30 font-medium"
+              title="No Gemini API key configured: scripts and voices come from the offline mock provider."
+            >
+              Offline demo
+            </span>
+          )}
         </div>
       </header>
 
@@ -84,6 +439,26 @@ function App() {
           
           {/* Left Column: Controls */}
           <div className="space-y-8">
+
+            <section>
+              <h2 className="text-xl font-semibold text-white mb-4">Project</h2>
+              <ProjectPanel
+                projectName={projectName}
+                onProjectNameChange={setProjectName}
+                canSave={!isBusy && (!!videoFile || scriptLines.length > 0)}
+                onSave={handleSaveProject}
+                onExport={handleExportProject}
+                onOpen={handleOpenProject}
+              />
+              <div className="mt-4">
+                <CachePanel
+                  enabled={cacheEnabled}
+                  onEnabledChange={setCacheEnabled}
+                  refreshKey={appState}
+                  disabled={isBusy}
+                />
+              </div>
+            </section>
             
             <section>
               <h2 className="text-xl font-semibold text-white mb-4 flex items-center gap-2">
@@ -92,8 +467,26 @@ function App() {
               </h2>
               <VideoUploader 
                 onFileSelect={handleFileSelect} 
+                onFilesSelect={handleFilesSelect}
                 selectedFile={videoFile} 
               />
+              {batchItems.length > 0 && (
+                <div className="mt-4">
+                  <BatchQueuePanel
+                    items={batchItems}
+                    paused={batchPaused}
+                    onPausedChange={setBatchPaused}
+                    openItemId={openBatchItemId}
+                    onOpen={handleOpenBatchItem}
+                    openDisabled={isBusy}
+                    onInstructionsChange={batchQueue.setInstructions}
+                    onCancel={batchQueue.cancel}
+                    onRetry={batchQueue.retry}
+                    onRemove={batchQueue.remove}
+                    onClearFinished={batchQueue.clearFinished}
+                  />
+                </div>
+              )}
             </section>
 
             <section className={!videoFile ? "opacity-50 pointer-events-none transition-opacity" : "transition-opacity"}>
@@ -102,67 +495,239 @@ function App() {
                 Voice Instructions
               </h2>
               <div className="bg-slate-800/50 rounded-xl p-4 border border-slate-700">
+                <div className="flex gap-1 p-1 mb-4 rounded-lg bg-slate-900 border border-slate-700 text-sm">
+                  {([['create', 'Create new dialogue'], ['translate', 'Translate speech']] as [DubbingMode, string][]).map(([value, label]) => (
+                    <button
+                      key={value}
+                      onClick={() => setMode(value)}
+                      disabled={isBusy}
+                      className={`flex-1 py-1.5 rounded-md transition-colors ${mode === value ? 'bg-emerald-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                {mode === 'translate' && (
+                  <label className="flex items-center gap-2 mb-4 text-sm text-slate-400">
+                    Dub into
+                    <input
+                      type="text"
+                      list="target-languages"
+                      value={targetLanguage}
+                      onChange={(e) => setTargetLanguage(e.target.value)}
+                      className="flex-1 bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-slate-200 focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+                    />
+                    <datalist id="target-languages">
+                      {TARGET_LANGUAGES.map(language => (
+                        <option key={language} value={language} />
+                      ))}
+                    </datalist>
+                  </label>
+                )}
                 <label className="block text-sm text-slate-400 mb-2">
-                  Describe voices or specific character instructions.
+                  {mode === 'translate'
+                    ? "Optional notes for the translation, e.g. tone, terminology or names to keep."
+                    : "Describe voices or specific character instructions."}
                 </label>
                 <textarea
                   className="w-full h-32 bg-slate-900 border border-slate-700 rounded-lg p-3 text-slate-200 placeholder-slate-600 focus:outline-none focus:ring-2 focus:ring-emerald-500/50 focus:border-emerald-500 transition-all resize-none"
-                  placeholder="e.g. Blue cat: soft little girl voice. Yellow dog: deep grumpy voice. Narrate the scene enthusiastically."
+                  placeholder={mode === 'translate'
+                    ? "e.g. Informal tone. Keep product names in English."
+                    : "e.g. Blue cat: soft little girl voice. Yellow dog: deep grumpy voice. Narrate the scene enthusiastically."}
                   value={instructions}
                   onChange={(e) => setInstructions(e.target.value)}
                 />
-                <div className="mt-3 flex gap-2 overflow-x-auto pb-2">
-                  <button 
-                    onClick={() => setInstructions(prev => prev + " Narrate in a British documentary style.")}
-                    className="whitespace-nowrap px-3 py-1.5 rounded-full bg-slate-800 border border-slate-700 text-xs text-slate-300 hover:bg-slate-700 hover:text-white transition-colors"
-                  >
-                    + Documentary
-                  </button>
-                  <button 
-                    onClick={() => setInstructions(prev => prev + " Use funny cartoon voices for characters.")}
-                    className="whitespace-nowrap px-3 py-1.5 rounded-full bg-slate-800 border border-slate-700 text-xs text-slate-300 hover:bg-slate-700 hover:text-white transition-colors"
-                  >
-                    + Cartoon
-                  </button>
-                  <button 
-                    onClick={() => setInstructions(prev => prev + " Read all on-screen text clearly.")}
-                    className="whitespace-nowrap px-3 py-1.5 rounded-full bg-slate-800 border border-slate-700 text-xs text-slate-300 hover:bg-slate-700 hover:text-white transition-colors"
-                  >
-                    + Read Text
-                  </button>
-                </div>
+                {mode === 'create' && (
+                  <div className="mt-3 flex gap-2 overflow-x-auto pb-2">
+                    <button 
+                      onClick={() => setInstructions(prev => prev + " Narrate in a British documentary style.")}
+                      className="whitespace-nowrap px-3 py-1.5 rounded-full bg-slate-800 border border-slate-700 text-xs text-slate-300 hover:bg-slate-700 hover:text-white transition-colors"
+                    >
+                      + Documentary
+                    </button>
+                    <button 
+                      onClick={() => setInstructions(prev => prev + " Use funny cartoon voices for characters.")}
+                      className="whitespace-nowrap px-3 py-1.5 rounded-full bg-slate-800 border border-slate-700 text-xs text-slate-300 hover:bg-slate-700 hover:text-white transition-colors"
+                    >
+                      + Cartoon
+                    </button>
+                    <button 
+                      onClick={() => setInstructions(prev => prev + " Read all on-screen text clearly.")}
+                      className="whitespace-nowrap px-3 py-1.5 rounded-full bg-slate-800 border border-slate-700 text-xs text-slate-300 hover:bg-slate-700 hover:text-white transition-colors"
+                    >
+                      + Read Text
+                    </button>
+                  </div>
+                )}
               </div>
             </section>
 
             <button
-              onClick={handleGenerate}
-              disabled={!videoFile || appState === AppState.PROCESSING}
+              onClick={handleGenerateScript}
+              disabled={!videoFile || isBusy}
               className={`w-full py-4 rounded-xl font-bold text-lg shadow-lg transition-all transform
                 ${!videoFile 
                   ? 'bg-slate-800 text-slate-500 cursor-not-allowed' 
-                  : appState === AppState.PROCESSING 
+                  : isBusy 
                     ? 'bg-emerald-600/50 text-white cursor-wait'
                     : 'bg-gradient-to-r from-emerald-500 to-teal-500 text-white hover:shadow-emerald-500/25 hover:scale-[1.02] active:scale-[0.98]'
                 }`}
             >
-              {appState === AppState.PROCESSING ? (
-                <div className="flex items-center justify-center gap-3">
-                  <svg className="animate-spin h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                  </svg>
-                  <span>Processing Segments...</span>
-                </div>
+              {appState === AppState.SCRIPTING ? (
+                <Spinner label={mode === 'translate' ? "Transcribing..." : "Writing Script..."} />
+              ) : mode === 'translate' ? (
+                scriptLines.length > 0 ? "Transcribe & Translate Again" : "Transcribe & Translate"
+              ) : scriptLines.length > 0 ? (
+                "Regenerate Script"
               ) : (
-                "Generate Dubbing"
+                "Generate Script"
               )}
             </button>
 
+            {appState === AppState.SCRIPTING && (
+              <GenerationProgress
+                stages={['uploading', 'processing', 'scripting']}
+                progress={progress}
+                onCancel={handleCancel}
+                cancelling={cancelling}
+              />
+            )}
+
+            <div className="flex items-center justify-center gap-2 -mt-4 text-sm text-slate-500">
+              <span>or</span>
+              <button
+                onClick={() => subtitleInputRef.current?.click()}
+                disabled={!videoFile || isBusy}
+                className="text-emerald-400 hover:text-emerald-300 underline-offset-2 hover:underline disabled:text-slate-600 disabled:no-underline disabled:cursor-not-allowed"
+              >
+                import an SRT / VTT script
+              </button>
+              <input
+                ref={subtitleInputRef}
+                type="file"
+                accept=".srt,.vtt,text/vtt,application/x-subrip"
+                className="hidden"
+                onChange={handleImportSubtitles}
+              />
+            </div>
+
+            {scriptLines.length > 0 && (
+              <section>
+                <h2 className="text-xl font-semibold text-white mb-4 flex items-center gap-2">
+                  <span className="flex items-center justify-center w-6 h-6 rounded-full bg-slate-800 text-sm text-emerald-400 border border-slate-700">3</span>
+                  Review Script
+                </h2>
+                <ScriptEditor
+                  lines={scriptLines}
+                  cast={cast}
+                  onChange={setScriptLines}
+                  disabled={isBusy}
+                />
+                <div className="flex items-center justify-between mt-6 mb-3">
+                  <h3 className="text-sm font-semibold text-slate-300">Cast</h3>
+                  <button onClick={() => setShowVoiceLibrary(v => !v)} className="text-xs text-emerald-400 hover:text-emerald-300">
+                    {showVoiceLibrary ? 'Hide voice library' : 'Voice library'}
+                  </button>
+                </div>
+                {showVoiceLibrary && (
+                  <div className="mb-3">
+                    <VoiceLibraryPanel
+                      providers={providers}
+                      characters={cast.filter(c => scriptLines.some(l => l.characterId === c.characterId))}
+                      onAssign={(characterId, voiceName) => setCast(prev => prev.map(c => (c.characterId === characterId ? { ...c, voiceName } : c)))}
+                      disabled={isBusy}
+                    />
+                  </div>
+                )}
+                <CastPanel
+                  cast={cast}
+                  lines={scriptLines}
+                  onChange={setCast}
+                  disabled={isBusy}
+                />
+                <label className="mt-4 flex items-center justify-end gap-2 text-xs text-slate-400">
+                  Parallel voice requests
+                  <select
+                    value={ttsConcurrency}
+                    onChange={(e) => setTtsConcurrency(Number(e.target.value))}
+                    disabled={isBusy}
+                    className="bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-slate-200 focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+                  >
+                    {[1, 2, 3, 4, 5, 6].map(n => (
+                      <option key={n} value={n}>{n}</option>
+                    ))}
+                  </select>
+                </label>
+                <label
+                  className="mt-2 flex items-center justify-end gap-2 text-xs text-slate-400"
+                  title="Quick back-and-forth between two characters is voiced as one conversation, then cut back into lines"
+                >
+                  <input
+                    type="checkbox"
+                    checked={voiceDialogue}
+                    onChange={(e) => setVoiceDialogue(e.target.checked)}
+                    disabled={isBusy}
+                    className="accent-emerald-500"
+                  />
+                  Voice conversations in one take
+                </label>
+                <button
+                  onClick={handleVoiceScript}
+                  disabled={isBusy || scriptLines.length === 0}
+                  className={`mt-4 w-full py-4 rounded-xl font-bold text-lg shadow-lg transition-all transform
+                    ${isBusy
+                      ? 'bg-emerald-600/50 text-white cursor-wait'
+                      : 'bg-gradient-to-r from-emerald-500 to-teal-500 text-white hover:shadow-emerald-500/25 hover:scale-[1.02] active:scale-[0.98]'
+                    }`}
+                >
+                  {appState === AppState.PROCESSING ? (
+                    <Spinner label="Processing Segments..." />
+                  ) : (
+                    "Generate Dubbing"
+                  )}
+                </button>
+                {appState === AppState.PROCESSING && (
+                  <div className="mt-4">
+                    <GenerationProgress
+                      stages={['voicing']}
+                      progress={progress}
+                      onCancel={handleCancel}
+                      cancelling={cancelling}
+                    />
+                  </div>
+                )}
+              </section>
+            )}
+
             {error && (
               <div className="p-4 rounded-lg bg-red-500/10 border border-red-500/50 text-red-400 text-sm">
                 <strong>Error:</strong> {error}
               </div>
             )}
+
+            {scriptWarnings.length > 0 && (
+              <div className="p-4 rounded-lg bg-amber-500/10 border border-amber-500/50 text-amber-300 text-sm space-y-1">
+                {scriptWarnings.map((warning, i) => (
+                  <p key={i}>{warning}</p>
+                ))}
+              </div>
+            )}
+
+            {voiceFailures.length > 0 && (
+              <div className="p-4 rounded-lg bg-amber-500/10 border border-amber-500/50 text-amber-300 text-sm space-y-2">
+                <p>
+                  <strong>{voiceFailures.length} {voiceFailures.length === 1 ? 'line was' : 'lines were'} not voiced.</strong>{' '}
+                  Edit or retry them with "Generate Dubbing".
+                </p>
+                <ul className="space-y-1 text-xs">
+                  {voiceFailures.map(f => (
+                    <li key={f.lineId}>
+                      <span className="text-amber-200">"{f.text}"</span> — {f.error}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
           </div>
 
           {/* Right Column: Preview / Result */}
@@ -180,10 +745,62 @@ function App() {
              <div className="flex-1 flex items-center justify-center min-h-[300px]">
                 {appState === AppState.COMPLETED && videoPreviewUrl && dubbingSegments.length > 0 ? (
                   <div className="w-full animation-fade-in">
-                    <DubbedPlayer videoUrl={videoPreviewUrl} segments={dubbingSegments} />
-                    <p className="text-center text-slate-500 text-sm mt-4">
-                      Audio synced with video timeline.
-                    </p>
+                    <DubbedPlayer
+                      videoUrl={videoPreviewUrl}
+                      segments={dubbingSegments}
+                      cast={cast}
+                      onSegmentsChange={handleSegmentsChange}
+                      syncStrategy={syncStrategy}
+                    />
+                    <div className="flex items-center justify-between mt-4 text-sm">
+                      <label className="flex items-center gap-2 text-slate-500" title="What happens when a line is longer than the gap before the next one">
+                        Long lines:
+                        <select
+                          value={syncStrategy}
+                          onChange={(e) => setSyncStrategy(e.target.value as SyncStrategy)}
+                          className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-xs text-slate-200 focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+                        >
+                          <option value="pause">Pause the video</option>
+                          <option value="fit">Speed up to fit</option>
+                          <option value="overlap">Overlap</option>
+                        </select>
+                      </label>
+                      <div className="flex gap-2">
+                        {dubbingSegments.some(s => s.sourceText) && (
+                          <select
+                            value={subtitleTrack}
+                            onChange={(e) => setSubtitleTrack(e.target.value as SubtitleTrack)}
+                            title="Caption text"
+                            className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-xs text-slate-200 focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+                          >
+                            <option value="dub">Dub</option>
+                            <option value="original">Original</option>
+                            <option value="bilingual">Bilingual</option>
+                          </select>
+                        )}
+                        {(['srt', 'vtt'] as SubtitleFormat[]).map(format => (
+                          <button
+                            key={format}
+                            onClick={() => handleExportSubtitles(format)}
+                            className="px-3 py-1.5 rounded-lg bg-slate-700 hover:bg-slate-600 text-white text-xs transition-colors"
+                          >
+                            Captions .{format}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                    <h3 className="text-sm font-semibold text-slate-300 mt-6 mb-3">Segments</h3>
+                    <SegmentTakes
+                      segments={dubbingSegments}
+                      lines={scriptLines}
+                      cast={cast}
+                      fits={planSegmentFits(dubbingSegments, syncStrategy)}
+                      syncStrategy={syncStrategy}
+                      onRevoice={handleRevoiceSegment}
+                      onRewrite={handleRewriteSegment}
+                      onEffectsChange={handleSegmentEffects}
+                      disabled={isBusy}
+                    />
                   </div>
                 ) : videoPreviewUrl ? (
                   <div className="w-full relative opacity-50 grayscale-[0.5] hover:grayscale-0 transition-all">
@@ -0,0 +1,207 @@
+// Dubs every video in a folder without the UI:
+//
+//   npm run dub -- <videos-folder> --instructions <file> [options]
+//
+// Each video gets its own output folder holding script.json, stems/, dub.wav and
+// captions.srt (see services/dubFiles.ts). The cast carries over from one video to the
+// next, so recurring characters keep their voices, and is saved as cast.json.
+
+import { existsSync, openAsBlob } from "node:fs";
+import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { ALL_FORMATS, FilePathSource, Input } from "mediabunny";
+import { VoiceInstruction } from "../types";
+import { createProviders, defaultProviderKind, DubbingProviders } from "../services/providers";
+import { draftScript, PipelineProgress, voiceLines } from "../services/dubbingPipeline";
+import { dubbedVideoFiles } from "../services/dubFiles";
+import { syncCast } from "../services/cast";
+import { abortError, isAbortError } from "../services/abort";
+
+const USAGE = `Usage: npm run dub -- <videos-folder> --instructions <file> [options]
+
+Options:
+  -i, --instructions <file>   dubbing instructions, as typed into the app
+  -o, --out <folder>          where to write the results (default: <videos-folder>/dubbed)
+  -t, --translate <language>  dub the speech in each video into this language
+  -c, --cast <file>           cast.json to start from, e.g. from an earlier run
+  -f, --force                 dub videos that already have results again
+      --mock                  use the offline mock instead of Gemini
+  -h, --help
+
+The Gemini API key is read from GEMINI_API_KEY, in the environment or .env.local.`;
+
+const VIDEO_TYPES: { [extension: string]: string } = {
+  '.mp4': 'video/mp4',
+  '.m4v': 'video/mp4',
+  '.mov': 'video/quicktime',
+  '.webm': 'video/webm',
+  '.mkv': 'video/x-matroska',
+  '.avi': 'video/x-msvideo',
+  '.mpeg': 'video/mpeg',
+  '.mpg': 'video/mpeg',
+  '.3gp': 'video/3gpp'
+};
+
+// In seconds, or undefined when the container cannot be read here; scripting then
+// treats the video as short
+const readVideoDuration = async (file: string): Promise<number | undefined> => {
+  const input = new Input({ source: new FilePathSource(file), formats: ALL_FORMATS });
+  try {
+    return await input.computeDuration();
+  } catch (e) {
+    console.warn(`  Could not read the length of ${path.basename(file)}:`, (e as Error).message);
+    return undefined;
+  } finally {
+    input.dispose();
+  }
+};
+
+const describeProgress = ({ stage, completed, total }: PipelineProgress): string | null => {
+  if (stage === 'voicing') return completed === total ? `voiced ${completed} lines` : null;
+  if (stage === 'uploading') return completed === undefined ? 'uploading' : null;
+  if (stage === 'scripting' && total) return `scripting part ${(completed ?? 0) + 1} of ${total}`;
+  return stage;
+};
+
+const dubVideo = async (
+  providers: DubbingProviders,
+  file: string,
+  outDir: string,
+  instructions: string,
+  cast: VoiceInstruction[],
+  targetLanguage: string | undefined,
+  signal: AbortSignal
+): Promise<VoiceInstruction[]> => {
+  const name = path.basename(file);
+  const video = new File(
+    [await openAsBlob(file)],
+    name,
+    { type: VIDEO_TYPES[path.extname(file).toLowerCase()] }
+  );
+  const videoDuration = await readVideoDuration(file);
+
+  let lastReport = '';
+  const onProgress = (progress: PipelineProgress) => {
+    const report = describeProgress(progress);
+    if (report && report !== lastReport) console.log(`  ${report}`);
+    lastReport = report || lastReport;
+  };
+
+  const translation = targetLanguage ? { targetLanguage } : undefined;
+  const lines = await draftScript(providers, video, instructions, cast, {
+    translation,
+    videoDuration,
+    signal,
+    onProgress,
+    onWarning: message => console.warn(`  ${message}`)
+  });
+  const castForVideo = syncCast(cast, lines);
+  const { lines: placed, voiced, failures, cancelled } = await voiceLines(providers, lines, castForVideo, { signal, onProgress });
+  if (cancelled) throw abortError();
+  failures.forEach(f => console.warn(`  Could not voice "${f.text}": ${f.error}`));
+
+  const files = await dubbedVideoFiles({
+    video: name,
+    instructions,
+    targetLanguage,
+    cast: castForVideo,
+    lines: placed,
+    failures,
+    voiced,
+    videoDuration
+  });
+  for (const { name: fileName, data } of files) {
+    const target = path.join(outDir, fileName);
+    await mkdir(path.dirname(target), { recursive: true });
+    await writeFile(target, data);
+  }
+  return castForVideo;
+};
+
+const main = async (): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      instructions: { type: 'string', short: 'i' },
+      out: { type: 'string', short: 'o' },
+      translate: { type: 'string', short: 't' },
+      cast: { type: 'string', short: 'c' },
+      force: { type: 'boolean', short: 'f' },
+      mock: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  const [videosDir] = positionals;
+  if (!videosDir || !values.instructions) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  if (existsSync('.env.local')) process.loadEnvFile('.env.local');
+  process.env.API_KEY ||= process.env.GEMINI_API_KEY;
+  const providers = createProviders(values.mock ? 'mock' : defaultProviderKind());
+  console.log(`Script: ${providers.script.name}. Speech: ${providers.speech.name}.`);
+
+  const instructions = (await readFile(values.instructions, 'utf8')).trim();
+  const outRoot = values.out || path.join(videosDir, 'dubbed');
+  let cast: VoiceInstruction[] = values.cast ? JSON.parse(await readFile(values.cast, 'utf8')) : [];
+
+  const videos = (await readdir(videosDir, { withFileTypes: true }))
+    .filter(entry => entry.isFile() && VIDEO_TYPES[path.extname(entry.name).toLowerCase()])
+    .map(entry => entry.name)
+    .sort((a, b) => a.localeCompare(b));
+  if (videos.length === 0) {
+    console.error(`No videos found in ${videosDir}.`);
+    return 1;
+  }
+
+  // Ctrl+C stops after cancelling the requests in flight; results already written stay
+  const controller = new AbortController();
+  process.once('SIGINT', () => {
+    console.log('\nCancelling...');
+    controller.abort();
+  });
+
+  const failed: string[] = [];
+  for (const [i, name] of videos.entries()) {
+    const outDir = path.join(outRoot, path.parse(name).name);
+    console.log(`[${i + 1}/${videos.length}] ${name}`);
+    if (!values.force && existsSync(path.join(outDir, 'dub.wav'))) {
+      console.log('  already dubbed, skipping (use --force to redo)');
+      continue;
+    }
+    try {
+      cast = await dubVideo(providers, path.join(videosDir, name), outDir, instructions, cast, values.translate, controller.signal);
+      await mkdir(outRoot, { recursive: true });
+      await writeFile(path.join(outRoot, 'cast.json'), JSON.stringify(cast, null, 2));
+      console.log(`  written to ${outDir}`);
+    } catch (e) {
+      if (isAbortError(e)) {
+        console.log('Cancelled.');
+        return 130;
+      }
+      console.error(`  Failed: ${(e as Error).message}`);
+      failed.push(name);
+    }
+  }
+
+  if (failed.length > 0) {
+    console.error(`\n${failed.length} of ${videos.length} videos failed: ${failed.join(', ')}`);
+    return 1;
+  }
+  console.log(`\nDone: ${videos.length} videos.`);
+  return 0;
+};
+
+main().then(
+  code => process.exit(code),
+  e => {
+    console.error(e);
+    process.exit(1);
+  }
+);
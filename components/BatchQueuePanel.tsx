@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { BatchItem, BatchItemStatus } from '../services/batchQueue';
+
+interface BatchQueuePanelProps {
+  items: BatchItem[];
+  paused: boolean;
+  onPausedChange: (paused: boolean) => void;
+  openItemId: string | null; // the item shown in the player, if any
+  onOpen: (item: BatchItem) => void;
+  openDisabled?: boolean; // e.g. while the open video is being scripted or voiced
+  onInstructionsChange: (id: string, instructions: string | null) => void;
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+  onClearFinished: () => void;
+}
+
+const STATUS_LABELS: Record<BatchItemStatus, string> = {
+  queued: 'Queued',
+  scripting: 'Scripting',
+  voicing: 'Voicing',
+  done: 'Done',
+  failed: 'Failed'
+};
+
+const STATUS_CLASSES: Record<BatchItemStatus, string> = {
+  queued: 'bg-slate-700 text-slate-300',
+  scripting: 'bg-emerald-500/10 text-emerald-300 animate-pulse',
+  voicing: 'bg-emerald-500/10 text-emerald-300 animate-pulse',
+  done: 'bg-emerald-600 text-white',
+  failed: 'bg-red-500/10 text-red-400'
+};
+
+// What the item is doing right now, or how it ended
+const itemDetail = (item: BatchItem): string | null => {
+  const { progress } = item;
+  if (item.status === 'voicing' && progress?.total) return `${progress.completed || 0} / ${progress.total} lines`;
+  if (item.status === 'scripting' && progress?.stage === 'uploading' && progress.total) {
+    return `uploading ${Math.floor(((progress.completed || 0) / progress.total) * 100)}%`;
+  }
+  if (item.status === 'scripting' && progress?.stage === 'processing') return 'processing video';
+  if (item.status === 'done') {
+    const missing = item.failures.length > 0 ? `, ${item.failures.length} not voiced` : '';
+    return `${item.segments.length} lines${missing}`;
+  }
+  if (item.status === 'failed') return item.error || null;
+  return null;
+};
+
+export const BatchQueuePanel: React.FC<BatchQueuePanelProps> = ({
+  items, paused, onPausedChange, openItemId, onOpen, openDisabled, onInstructionsChange, onCancel, onRetry, onRemove, onClearFinished
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const finished = items.filter(item => item.status === 'done' || item.status === 'failed').length;
+  const done = items.filter(item => item.status === 'done').length;
+  const waiting = items.some(item => item.status === 'queued');
+
+  const linkClass = "text-xs text-emerald-400 hover:text-emerald-300 disabled:text-slate-600";
+  const mutedClass = "text-xs text-slate-500 hover:text-red-400";
+
+  return (
+    <div className="bg-slate-800/50 rounded-xl p-4 border border-slate-700 space-y-3 text-sm">
+      <div className="flex items-center gap-3">
+        <button
+          onClick={() => onPausedChange(!paused)}
+          disabled={paused && !waiting}
+          className="px-3 py-1.5 rounded-lg bg-emerald-600 hover:bg-emerald-500 text-xs font-medium text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {paused ? 'Start batch' : 'Pause'}
+        </button>
+        <span className="flex-1 text-xs text-slate-400">
+          {done} of {items.length} dubbed. Items use the shared instructions below unless given their own.
+        </span>
+        <button onClick={onClearFinished} disabled={finished === 0} className={`${mutedClass} disabled:opacity-50`}>
+          Clear finished
+        </button>
+      </div>
+
+      <ul className="max-h-80 overflow-y-auto divide-y divide-slate-700/60">
+        {items.map(item => {
+          const running = item.status === 'scripting' || item.status === 'voicing';
+          const editable = item.status === 'queued' || item.status === 'failed';
+          const detail = itemDetail(item);
+          return (
+            <li key={item.id} className={`py-2 space-y-2 ${item.id === openItemId ? 'bg-emerald-500/5' : ''}`}>
+              <div className="flex items-center gap-3">
+                <span className={`px-2 py-0.5 rounded-full text-xs shrink-0 ${STATUS_CLASSES[item.status]}`}>
+                  {STATUS_LABELS[item.status]}
+                </span>
+                <div className="flex-1 min-w-0">
+                  <p className="text-slate-200 truncate" title={item.file.name}>{item.file.name}</p>
+                  {detail && (
+                    <p className={`text-xs truncate ${item.status === 'failed' ? 'text-red-400' : 'text-slate-500'}`} title={detail}>
+                      {detail}
+                    </p>
+                  )}
+                </div>
+                {item.status === 'done' && (
+                  <button onClick={() => onOpen(item)} disabled={openDisabled || item.id === openItemId} className={linkClass}>
+                    {item.id === openItemId ? 'Showing' : 'Open'}
+                  </button>
+                )}
+                {editable && (
+                  <button onClick={() => setEditingId(id => (id === item.id ? null : item.id))} className={linkClass}>
+                    {item.instructions !== null ? 'Own instructions' : 'Instructions'}
+                  </button>
+                )}
+                {item.status === 'failed' && (
+                  <button onClick={() => onRetry(item.id)} className={linkClass}>Retry</button>
+                )}
+                {running ? (
+                  <button onClick={() => onCancel(item.id)} className={mutedClass}>Cancel</button>
+                ) : (
+                  <button onClick={() => onRemove(item.id)} className={mutedClass}>Remove</button>
+                )}
+              </div>
+
+              {editable && editingId === item.id && (
+                <div className="space-y-1">
+                  <label className="flex items-center gap-2 text-xs text-slate-400">
+                    <input
+                      type="checkbox"
+                      checked={item.instructions === null}
+                      onChange={(e) => onInstructionsChange(item.id, e.target.checked ? null : '')}
+                      className="accent-emerald-500"
+                    />
+                    Use the shared instructions
+                  </label>
+                  {item.instructions !== null && (
+                    <textarea
+                      value={item.instructions}
+                      onChange={(e) => onInstructionsChange(item.id, e.target.value)}
+                      placeholder="Instructions for this video only"
+                      className="w-full h-20 bg-slate-900 border border-slate-700 rounded-lg p-2 text-xs text-slate-200 placeholder-slate-600 focus:outline-none focus:ring-2 focus:ring-emerald-500/50 resize-none"
+                    />
+                  )}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
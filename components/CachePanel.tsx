@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from 'react';
+import { CacheKind, CacheSummary, clearCache, deleteCacheEntry, listCacheEntries } from '../services/resultCache';
+
+interface CachePanelProps {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  refreshKey?: unknown; // the list reloads when this changes, e.g. after a run
+  disabled?: boolean;
+}
+
+const KIND_LABELS: Record<CacheKind, string> = {
+  script: 'Script',
+  audio: 'Audio'
+};
+
+const formatSize = (bytes: number): string =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+
+export const CachePanel: React.FC<CachePanelProps> = ({ enabled, onEnabledChange, refreshKey, disabled }) => {
+  const [entries, setEntries] = useState<CacheSummary[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      setEntries(await listCacheEntries());
+    } catch (e) {
+      console.error("Failed to list the cache", e);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, [refreshKey, isOpen]);
+
+  // Runs one cache action, reporting failures inline
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setMessage(null);
+    try {
+      await action();
+      await refresh();
+    } catch (e: any) {
+      console.error(failure, e);
+      setMessage(e.message || failure);
+    }
+  };
+
+  const handleClear = () => {
+    if (!confirm("Clear every cached script and voice clip? The next run will call the API again.")) return;
+    run(clearCache, "Clearing the cache failed.");
+  };
+
+  const count = (kind: CacheKind) => entries.filter(e => e.kind === kind).length;
+  const totalSize = entries.reduce((sum, e) => sum + e.size, 0);
+
+  return (
+    <div className="bg-slate-800/50 rounded-xl p-4 border border-slate-700 space-y-3 text-sm">
+      <div className="flex items-center gap-3">
+        <label className="flex items-center gap-2 text-slate-300">
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={(e) => onEnabledChange(e.target.checked)}
+            className="accent-emerald-500"
+          />
+          Reuse cached results
+        </label>
+        <span className="flex-1 text-xs text-slate-500 truncate">
+          {count('script')} scripts · {count('audio')} clips · {formatSize(totalSize)}
+        </span>
+        <button onClick={() => setIsOpen(open => !open)} className="text-xs text-emerald-400 hover:text-emerald-300">
+          {isOpen ? 'Hide' : 'Inspect'}
+        </button>
+        <button
+          onClick={handleClear}
+          disabled={disabled || entries.length === 0}
+          className="text-xs text-slate-500 hover:text-red-400 disabled:opacity-50"
+        >
+          Clear
+        </button>
+      </div>
+
+      {message && <p className="text-xs text-red-400">{message}</p>}
+
+      {isOpen && (
+        entries.length === 0 ? (
+          <p className="text-xs text-slate-500">Nothing cached yet.</p>
+        ) : (
+          <ul className="max-h-48 overflow-y-auto divide-y divide-slate-700/60">
+            {entries.map(entry => (
+              <li key={entry.key} className="py-2 flex items-center gap-3">
+                <span className="text-xs text-slate-500 w-10 shrink-0">{KIND_LABELS[entry.kind]}</span>
+                <div className="flex-1 min-w-0">
+                  <p className="text-slate-200 truncate">{entry.label}</p>
+                  <p className="text-xs text-slate-500">
+                    {new Date(entry.createdAt).toLocaleString()} · {formatSize(entry.size)}
+                  </p>
+                </div>
+                <button
+                  onClick={() => run(() => deleteCacheEntry(entry.key), "Removing the entry failed.")}
+                  disabled={disabled}
+                  className="text-xs text-slate-500 hover:text-red-400 disabled:opacity-50"
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+    </div>
+  );
+};
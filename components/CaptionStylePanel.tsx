@@ -0,0 +1,94 @@
+import React from 'react';
+import { CaptionPosition, CaptionStyle } from '../types';
+import { CAPTION_FONTS } from '../services/captionRenderer';
+
+interface CaptionStylePanelProps {
+  style: CaptionStyle;
+  onChange: (style: CaptionStyle) => void;
+  disabled?: boolean;
+}
+
+const POSITIONS: { value: CaptionPosition; label: string }[] = [
+  { value: 'bottom', label: 'Bottom' },
+  { value: 'middle', label: 'Middle' },
+  { value: 'top', label: 'Top' }
+];
+
+export const CaptionStylePanel: React.FC<CaptionStylePanelProps> = ({ style, onChange, disabled }) => {
+  const update = (fields: Partial<CaptionStyle>) => onChange({ ...style, ...fields });
+
+  const selectClass = "bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-slate-200 focus:outline-none focus:ring-2 focus:ring-emerald-500/50";
+  const rangeClass = "w-full h-1.5 bg-slate-600 rounded-lg appearance-none cursor-pointer accent-emerald-500";
+  const colorClass = "w-8 h-6 bg-transparent border border-slate-700 rounded cursor-pointer";
+
+  return (
+    <fieldset disabled={disabled} className="grid grid-cols-2 gap-x-6 gap-y-3 pt-3 border-t border-slate-700 text-xs text-slate-400">
+      <label className="flex items-center gap-2">
+        <input type="checkbox" checked={style.burnIn} onChange={(e) => update({ burnIn: e.target.checked })} className="accent-emerald-500" />
+        Burn into exported video
+      </label>
+      <label className="flex items-center gap-2">
+        <input type="checkbox" checked={style.karaoke} onChange={(e) => update({ karaoke: e.target.checked })} className="accent-emerald-500" />
+        Highlight words as spoken
+      </label>
+
+      <label className="flex items-center justify-between gap-2">
+        Font
+        <select value={style.fontFamily} onChange={(e) => update({ fontFamily: e.target.value })} className={selectClass}>
+          {CAPTION_FONTS.map(font => (
+            <option key={font.value} value={font.value}>{font.label}</option>
+          ))}
+        </select>
+      </label>
+      <label className="flex items-center justify-between gap-2">
+        Position
+        <select value={style.position} onChange={(e) => update({ position: e.target.value as CaptionPosition })} className={selectClass}>
+          {POSITIONS.map(p => (
+            <option key={p.value} value={p.value}>{p.label}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex flex-col gap-1">
+        <span className="flex justify-between">
+          <span>Size</span>
+          <span className="font-mono">{style.fontSize}%</span>
+        </span>
+        <input type="range" min="2" max="12" step="0.5" value={style.fontSize}
+          onChange={(e) => update({ fontSize: parseFloat(e.target.value) })} className={rangeClass} />
+      </label>
+      <label className="flex flex-col gap-1">
+        <span className="flex justify-between">
+          <span>Safe margin</span>
+          <span className="font-mono">{style.margin}%</span>
+        </span>
+        <input type="range" min="0" max="15" step="0.5" value={style.margin}
+          onChange={(e) => update({ margin: parseFloat(e.target.value) })} className={rangeClass} />
+      </label>
+
+      <div className="flex items-center gap-3">
+        <label className="flex items-center gap-1" title="Text colour">
+          <input type="color" value={style.textColor} onChange={(e) => update({ textColor: e.target.value })} className={colorClass} />
+          Text
+        </label>
+        <label className="flex items-center gap-1" title="Colour of words already spoken">
+          <input type="color" value={style.highlightColor} onChange={(e) => update({ highlightColor: e.target.value })} className={colorClass} />
+          Highlight
+        </label>
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={style.bold} onChange={(e) => update({ bold: e.target.checked })} className="accent-emerald-500" />
+          Bold
+        </label>
+      </div>
+      <div className="flex items-center gap-3">
+        <label className="flex items-center gap-1" title="Background box colour">
+          <input type="color" value={style.boxColor} onChange={(e) => update({ boxColor: e.target.value })} className={colorClass} />
+          Box
+        </label>
+        <input type="range" min="0" max="1" step="0.05" value={style.boxOpacity} title="Box opacity"
+          onChange={(e) => update({ boxOpacity: parseFloat(e.target.value) })} className={rangeClass} />
+        <span className="font-mono">{Math.round(style.boxOpacity * 100)}%</span>
+      </div>
+    </fieldset>
+  );
+};
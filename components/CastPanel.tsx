@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { ScriptLine, VoiceInstruction } from '../types';
+import { GEMINI_VOICES, voiceLabel } from '../services/voices';
+import { hasEffects, NO_EFFECTS } from '../services/voiceEffects';
+import { VoiceEffectsPanel } from './VoiceEffectsPanel';
+
+interface CastPanelProps {
+  cast: VoiceInstruction[];
+  lines: ScriptLine[];
+  onChange: (cast: VoiceInstruction[]) => void;
+  disabled?: boolean;
+}
+
+export const CastPanel: React.FC<CastPanelProps> = ({ cast, lines, onChange, disabled }) => {
+  const [effectsFor, setEffectsFor] = useState<string | null>(null);
+
+  // Only list the characters that speak in the current script, in order of appearance
+  const characterIds = Array.from(new Set<string>(lines.map(l => l.characterId)));
+  const members = characterIds
+    .map(id => cast.find(c => c.characterId === id))
+    .filter((c): c is VoiceInstruction => !!c);
+
+  const updateMember = (characterId: string, fields: Partial<VoiceInstruction>) => {
+    onChange(cast.map(c => (c.characterId === characterId ? { ...c, ...fields } : c)));
+  };
+
+  const lineCount = (characterId: string) => lines.filter(l => l.characterId === characterId).length;
+
+  if (members.length === 0) return null;
+
+  return (
+    <div className={`bg-slate-800/50 rounded-xl border border-slate-700 divide-y divide-slate-700/60 ${disabled ? 'opacity-60 pointer-events-none' : ''}`}>
+      {members.map(member => (
+        <div key={member.characterId} className="p-3 space-y-2">
+          <div className="flex gap-2 items-center">
+            <input
+              type="text"
+              value={member.character}
+              onChange={(e) => updateMember(member.characterId, { character: e.target.value })}
+              className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-sm font-medium text-white focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+            />
+            <select
+              value={member.voiceName}
+              onChange={(e) => updateMember(member.characterId, { voiceName: e.target.value })}
+              className="bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-sm text-slate-200 focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+            >
+              {GEMINI_VOICES.map(voice => (
+                <option key={voice} value={voice}>{voiceLabel(voice)}</option>
+              ))}
+            </select>
+          </div>
+          <input
+            type="text"
+            value={member.voiceDescription}
+            onChange={(e) => updateMember(member.characterId, { voiceDescription: e.target.value })}
+            placeholder="Standing style, e.g. soft little girl voice"
+            className="w-full bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-sm text-slate-300 placeholder-slate-600 focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+          />
+          <div className="flex gap-3 text-xs text-slate-500">
+            <span className="flex-1 font-mono">{member.characterId}</span>
+            <button
+              onClick={() => setEffectsFor(id => (id === member.characterId ? null : member.characterId))}
+              className="text-emerald-400 hover:text-emerald-300"
+            >
+              {hasEffects(member.effects) ? 'Effects on' : 'Effects'}
+            </button>
+            <span>{lineCount(member.characterId)} {lineCount(member.characterId) === 1 ? 'line' : 'lines'}</span>
+          </div>
+          {effectsFor === member.characterId && (
+            <div className="space-y-2 pt-1">
+              <VoiceEffectsPanel
+                effects={member.effects || NO_EFFECTS}
+                onChange={(effects) => updateMember(member.characterId, { effects: hasEffects(effects) ? effects : undefined })}
+              />
+              {hasEffects(member.effects) && (
+                <button onClick={() => updateMember(member.characterId, { effects: undefined })} className="text-xs text-slate-500 hover:text-red-400">
+                  Reset effects
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,118 @@
+import React from 'react';
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { DubbedPlayer } from './DubbedPlayer';
+import { DubbingSegment } from '../types';
+import { SyncStrategy } from '../services/syncPlan';
+import { FakeAudioContext, installFakeWebAudio } from '../test/fakeWebAudio';
+
+const segment = (startTime: number, text: string): DubbingSegment => ({
+  id: text, characterId: 'narrator', startTime, text, audioUrl: `audio:${text}`, duration: 1
+});
+
+const segments = [segment(1, 'first'), segment(3, 'second')];
+
+// jsdom videos cannot play; this one keeps a playhead the test moves by hand
+const stubVideo = (video: HTMLVideoElement) => {
+  let time = 0;
+  let paused = true;
+  Object.defineProperty(video, 'currentTime', { get: () => time, set: (t: number) => { time = t; }, configurable: true });
+  Object.defineProperty(video, 'paused', { get: () => paused, configurable: true });
+  Object.defineProperty(video, 'duration', { get: () => 10, configurable: true });
+  video.play = vi.fn(async () => { paused = false; });
+  video.pause = vi.fn(() => { paused = true; });
+
+  return {
+    timeUpdate: (t: number) => {
+      time = t;
+      fireEvent.timeUpdate(video);
+    }
+  };
+};
+
+const renderPlayer = async (syncStrategy?: SyncStrategy) => {
+  const { container } = render(<DubbedPlayer videoUrl="blob:video" segments={segments} syncStrategy={syncStrategy} />);
+  const video = container.querySelector('video')!;
+  const controls = stubVideo(video);
+  fireEvent.loadedMetadata(video);
+  // Let the segment buffers decode
+  await act(async () => {});
+  return { video, ...controls };
+};
+
+describe('DubbedPlayer sync', () => {
+  beforeEach(() => {
+    installFakeWebAudio();
+  });
+
+  it('plays each line once when the playhead reaches it and captions it', async () => {
+    const { timeUpdate } = await renderPlayer();
+    const ctx = FakeAudioContext.instances[0];
+
+    timeUpdate(0.5);
+    expect(ctx.playedLabels).toEqual([]);
+    expect(screen.queryByText('first')).toBeNull();
+
+    timeUpdate(1.1);
+    timeUpdate(1.2);
+    expect(ctx.playedLabels).toEqual(['audio:first']);
+    expect(screen.getByText('first')).toBeTruthy();
+
+    ctx.startedSources.forEach(s => s.stop());
+    timeUpdate(3.05);
+    expect(ctx.playedLabels).toEqual(['audio:first', 'audio:second']);
+    expect(screen.getByText('second')).toBeTruthy();
+  });
+
+  it('holds the video while a line overruns the next cue, then resumes', async () => {
+    const { video, timeUpdate } = await renderPlayer();
+    const ctx = FakeAudioContext.instances[0];
+
+    fireEvent.click(screen.getAllByRole('button')[0]);
+    await act(async () => {});
+    expect(video.play).toHaveBeenCalledTimes(1);
+
+    timeUpdate(1.05);
+    timeUpdate(2.9);
+    expect(video.pause).toHaveBeenCalledTimes(1);
+
+    // The first line finishes: playback picks up again
+    act(() => ctx.startedSources.filter(s => s.buffer?.label === 'audio:first').forEach(s => s.stop()));
+    expect(video.play).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps the picture moving when lines may overlap', async () => {
+    const { video, timeUpdate } = await renderPlayer('overlap');
+
+    fireEvent.click(screen.getAllByRole('button')[0]);
+    await act(async () => {});
+    timeUpdate(1.05);
+    timeUpdate(2.9);
+
+    expect(video.pause).not.toHaveBeenCalled();
+  });
+
+  it('does not pause when the line ends before the next cue', async () => {
+    const { video, timeUpdate } = await renderPlayer();
+    const ctx = FakeAudioContext.instances[0];
+
+    timeUpdate(1.05);
+    act(() => ctx.startedSources.forEach(s => s.stop()));
+    timeUpdate(2.9);
+
+    expect(video.pause).not.toHaveBeenCalled();
+  });
+
+  it('only decodes the segment whose take changed', async () => {
+    const { container, rerender } = render(<DubbedPlayer videoUrl="blob:video" segments={segments} />);
+    stubVideo(container.querySelector('video')!);
+    await act(async () => {});
+    expect(fetch).toHaveBeenCalledTimes(2);
+
+    const retaken = [segments[0], { ...segments[1], audioUrl: 'audio:second-take' }];
+    rerender(<DubbedPlayer videoUrl="blob:video" segments={retaken} />);
+    await act(async () => {});
+
+    expect(vi.mocked(fetch).mock.calls.map(c => c[0])).toEqual(['audio:first', 'audio:second', 'audio:second-take']);
+  });
+});
@@ -1,15 +1,36 @@
 import React, { useRef, useState, useEffect } from 'react';
-import { DubbingSegment } from '../types';
+import { CaptionStyle, DubbingSegment, MixSettings, VoiceInstruction } from '../types';
+import { TimelineEditor } from './TimelineEditor';
+import { CaptionStylePanel } from './CaptionStylePanel';
+import { findActiveCaption, findSegmentsToTrigger, shouldPauseForDub } from '../services/playbackSync';
+import { downloadBlob } from '../services/download';
+import { decodeSegmentBuffers, fitSegmentBuffers, renderDubTrack, renderDubTrackWav, renderExportMix, shapeSegmentBuffer } from '../services/audioRender';
+import { buildEditPackage } from '../services/editPackage';
+import { canMuxVideo, FrameOverlay, muxDubbedVideo, readSourceAudio } from '../services/videoMux';
+import { captionAt, drawCaption, loadCaptionStyle, saveCaptionStyle } from '../services/captionRenderer';
+import { DEFAULT_SYNC_STRATEGY, planSegmentFits, SyncStrategy } from '../services/syncPlan';
+import { connectVoiceChain, planVoiceChains, renderVoiceChains, REVERB_SECONDS, segmentEffects } from '../services/voiceEffects';
+import { acquirePlaybackGraph, applyMix, DEFAULT_MIX, PlaybackGraph, releasePlaybackGraph } from '../services/playbackGraph';
+
+// Offered in the mixer; -16 suits most online video, -23 matches EBU R128 broadcast
+const LOUDNESS_TARGETS = [-14, -16, -18, -20, -23];
 
 interface DubbedPlayerProps {
   videoUrl: string;
   segments: DubbingSegment[];
+  cast?: VoiceInstruction[];
+  onSegmentsChange?: (segments: DubbingSegment[]) => void;
+  syncStrategy?: SyncStrategy;
 }
 
-export const DubbedPlayer: React.FC<DubbedPlayerProps> = ({ videoUrl, segments }) => {
+export const DubbedPlayer: React.FC<DubbedPlayerProps> = ({
+  videoUrl, segments, cast = [], onSegmentsChange, syncStrategy = DEFAULT_SYNC_STRATEGY
+}) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
+  const graphRef = useRef<PlaybackGraph | null>(null);
   const audioBuffersRef = useRef<{ [index: number]: AudioBuffer }>({});
+  const bufferCacheRef = useRef<Map<string, AudioBuffer>>(new Map());
   const activeSourcesRef = useRef<AudioBufferSourceNode[]>([]);
   const destinationNodeRef = useRef<MediaStreamAudioDestinationNode | null>(null);
   
@@ -19,53 +40,99 @@ export const DubbedPlayer: React.FC<DubbedPlayerProps> = ({ videoUrl, segments }
   const [duration, setDuration] = useState(0);
   const [currentCaption, setCurrentCaption] = useState<string | null>(null);
   const [isExporting, setIsExporting] = useState(false);
+  const [exportMethod, setExportMethod] = useState<'mux' | 'record'>('mux');
   const [exportProgress, setExportProgress] = useState(0);
   const [recordedBlob, setRecordedBlob] = useState<Blob | null>(null);
+  const [isRenderingAudio, setIsRenderingAudio] = useState(false);
+  const [isPackaging, setIsPackaging] = useState(false);
+  const [mix, setMix] = useState<MixSettings>(DEFAULT_MIX);
+  const [showMixer, setShowMixer] = useState(false);
+  const [captionStyle, setCaptionStyle] = useState<CaptionStyle>(() => loadCaptionStyle());
+  const [showCaptionStyle, setShowCaptionStyle] = useState(false);
+  const captionCanvasRef = useRef<HTMLCanvasElement>(null);
+  // Bumped whenever audioBuffersRef changes, so the timeline redraws its waveforms
+  const [buffersVersion, setBuffersVersion] = useState(0);
+  const mixRef = useRef(mix);
+  mixRef.current = mix;
 
   // Tracking
   const triggeredSegmentsRef = useRef<Set<number>>(new Set());
+  const lastTimeRef = useRef<number | null>(null); // playhead at the previous timeupdate
   const activeSegmentIndexRef = useRef<number | null>(null);
   const isVideoPausedForDubRef = useRef(false);
   const isExportingRef = useRef(false);
 
   // --- Initialization & Audio Loading ---
 
+  // The audio graph lives as long as the video element
   useEffect(() => {
-    const initAudio = async () => {
-      // Create context but don't resume yet (must be user initiated on iOS)
-      const Ctx = window.AudioContext || (window as any).webkitAudioContext;
-      const ctx = new Ctx();
-      audioContextRef.current = ctx;
+    const video = videoRef.current;
+    if (!video) return;
 
-      destinationNodeRef.current = ctx.createMediaStreamDestination();
+    const graph = acquirePlaybackGraph(video);
+    graphRef.current = graph;
+    audioContextRef.current = graph.ctx;
+    destinationNodeRef.current = graph.recordDestination;
+    applyMix(graph, mixRef.current, false);
 
-      const buffers: { [index: number]: AudioBuffer } = {};
-      
+    return () => {
+      graphRef.current = null;
+      audioContextRef.current = null;
+      destinationNodeRef.current = null;
+      releasePlaybackGraph(video);
+    };
+  }, []);
+
+  useEffect(() => {
+    const ctx = audioContextRef.current;
+    if (!ctx) return;
+    let cancelled = false;
+
+    // Decode each audio URL once; unchanged segments reuse their buffer
+    // straight away, so retiming never leaves indexes pointing at stale audio
+    const buffers: { [index: number]: AudioBuffer } = {};
+    segments.forEach((seg, i) => {
+      const cached = bufferCacheRef.current.get(seg.audioUrl);
+      if (cached) buffers[i] = cached;
+    });
+    audioBuffersRef.current = buffers;
+    setBuffersVersion(v => v + 1);
+
+    const loadBuffers = async () => {
       await Promise.all(segments.map(async (seg, i) => {
+        if (buffers[i]) return;
         try {
           const response = await fetch(seg.audioUrl);
           const arrayBuffer = await response.arrayBuffer();
           const audioBuffer = await ctx.decodeAudioData(arrayBuffer);
+          bufferCacheRef.current.set(seg.audioUrl, audioBuffer);
           buffers[i] = audioBuffer;
         } catch (e) {
           console.error("Error loading audio segment", i, e);
         }
       }));
       
-      audioBuffersRef.current = buffers;
+      if (!cancelled) setBuffersVersion(v => v + 1);
     };
 
-    if (segments.length > 0) {
-      initAudio();
-    }
+    loadBuffers();
 
     return () => {
-      if (audioContextRef.current) {
-        audioContextRef.current.close();
-      }
+      cancelled = true;
     };
   }, [segments]);
 
+  useEffect(() => {
+    saveCaptionStyle(captionStyle);
+  }, [captionStyle]);
+
+  // Volume sliders take effect immediately, keeping any active ducking
+  useEffect(() => {
+    if (graphRef.current) {
+      applyMix(graphRef.current, mix, activeSourcesRef.current.length > 0);
+    }
+  }, [mix]);
+
   // --- Playback Controls ---
 
   // Robust Audio Unlock for iOS
@@ -107,8 +174,6 @@ export const DubbedPlayer: React.FC<DubbedPlayerProps> = ({ videoUrl, segments }
     if (!video) return;
 
     if (isPlaying && !isVideoPausedForDubRef.current) {
-      // Ensure video is muted so it doesn't conflict with Web Audio
-      video.muted = true; 
       video.play().catch(e => {
         console.error("Video play failed", e);
         setIsPlaying(false);
@@ -126,31 +191,82 @@ export const DubbedPlayer: React.FC<DubbedPlayerProps> = ({ videoUrl, segments }
     activeSourcesRef.current = [];
     activeSegmentIndexRef.current = null;
     isVideoPausedForDubRef.current = false;
+    if (graphRef.current) applyMix(graphRef.current, mixRef.current, false);
   };
 
-  const playSegmentAudio = (index: number) => {
-    const ctx = audioContextRef.current;
+  const fits = planSegmentFits(segments, syncStrategy, duration);
+
+  // The buffer a segment actually plays: time-compressed in "fit" mode and pitch shifted
+  // by its effects, once per rate and pitch
+  const playbackBuffer = (index: number): AudioBuffer | undefined => {
     const buffer = audioBuffersRef.current[index];
+    const rate = fits[index]?.rate ?? 1;
+    const pitch = segmentEffects(segments[index], cast).pitch;
+    if (!buffer || (rate === 1 && pitch === 0)) return buffer;
+
+    const key = `${segments[index].audioUrl}@${rate.toFixed(3)}~${pitch}`;
+    let shaped = bufferCacheRef.current.get(key);
+    if (!shaped) {
+      shaped = shapeSegmentBuffer(buffer, rate, pitch);
+      bufferCacheRef.current.set(key, shaped);
+    }
+    return shaped;
+  };
+
+  // Draws the captions at `time` the way an export burns them in
+  const burnCaptions: FrameOverlay = (ctx, width, height, time) => {
+    drawCaption(ctx, width, height, captionAt(segments, time, fits), captionStyle);
+  };
+
+  const drawCaptionPreview = () => {
+    const canvas = captionCanvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    burnCaptions(ctx, canvas.width, canvas.height, videoRef.current?.currentTime ?? 0);
+  };
+
+  // The preview redraws every frame while playing, as karaoke moves faster than timeupdate fires
+  useEffect(() => {
+    drawCaptionPreview();
+    if (!isPlaying) return;
+    let frame = requestAnimationFrame(function tick() {
+      drawCaptionPreview();
+      frame = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, currentTime, segments, captionStyle, syncStrategy, duration]);
+
+  // Stretch and pitch shift ahead of time rather than when a line is due
+  useEffect(() => {
+    segments.forEach((_, i) => playbackBuffer(i));
+  }, [segments, cast, syncStrategy, duration, buffersVersion]);
+
+  const playSegmentAudio = (index: number) => {
+    const graph = graphRef.current;
+    const buffer = playbackBuffer(index);
     
-    if (!ctx || !buffer) return;
+    if (!graph || !buffer) return;
 
-    const source = ctx.createBufferSource();
+    const source = graph.ctx.createBufferSource();
     source.buffer = buffer;
     
-    // Connect to speakers
-    source.connect(ctx.destination);
-    
-    // Connect to recorder destination if it exists
-    if (destinationNodeRef.current) {
-      source.connect(destinationNodeRef.current);
-    }
+    // Through the line's effects to the dub bus, which feeds both the speakers and the
+    // recorder destination
+    const chain = planVoiceChains(segments, cast, { [index]: buffer }, mixRef.current.loudnessTarget)[index];
+    const release = connectVoiceChain(graph.ctx, source, graph.dubGain, chain, graph.ctx.currentTime);
 
     source.start(0);
     activeSourcesRef.current.push(source);
     activeSegmentIndexRef.current = index;
+    applyMix(graph, mixRef.current, true);
 
     source.onended = () => {
+      release(graph.ctx.currentTime + REVERB_SECONDS);
       activeSourcesRef.current = activeSourcesRef.current.filter(s => s !== source);
+      if (activeSourcesRef.current.length === 0 && graphRef.current) {
+        applyMix(graphRef.current, mixRef.current, false);
+      }
       
       if (activeSegmentIndexRef.current === index) {
         activeSegmentIndexRef.current = null;
@@ -170,67 +286,121 @@ export const DubbedPlayer: React.FC<DubbedPlayerProps> = ({ videoUrl, segments }
     setCurrentTime(time);
     
     // 1. Trigger Audio
-    segments.forEach((seg, index) => {
-      if (time >= seg.startTime && time < seg.startTime + 0.3) {
-        if (!triggeredSegmentsRef.current.has(index)) {
-          triggeredSegmentsRef.current.add(index);
-          playSegmentAudio(index);
-        }
-      }
+    const previousTime = lastTimeRef.current;
+    lastTimeRef.current = time;
+    findSegmentsToTrigger(segments, previousTime, time, triggeredSegmentsRef.current).forEach(index => {
+      triggeredSegmentsRef.current.add(index);
+      playSegmentAudio(index);
     });
 
-    // 2. Smart Pause
-    if (activeSegmentIndexRef.current !== null) {
-      const nextSeg = segments[activeSegmentIndexRef.current + 1];
-      if (nextSeg) {
-        const timeToNext = nextSeg.startTime - time;
-        if (timeToNext <= 0.2 && timeToNext > -0.5) { 
-           if (!isVideoPausedForDubRef.current && !videoRef.current.paused) {
-             isVideoPausedForDubRef.current = true;
-             videoRef.current.pause();
-           }
-        }
+    // 2. Smart Pause (the other strategies keep the picture moving)
+    if (syncStrategy === 'pause' && shouldPauseForDub(segments, activeSegmentIndexRef.current, time)) {
+      if (!isVideoPausedForDubRef.current && !videoRef.current.paused) {
+        isVideoPausedForDubRef.current = true;
+        videoRef.current.pause();
       }
     }
 
     // 3. Captions
-    const activeSegment = segments.reduce((prev: DubbingSegment | null, current: DubbingSegment) => {
-      if (time >= current.startTime) {
-         if (!prev || current.startTime > prev.startTime) {
-           const nextOne = segments[segments.indexOf(current) + 1];
-           const endTime = nextOne ? nextOne.startTime : current.startTime + 5;
-           if (time < endTime) return current;
-         }
-      }
-      return prev;
-    }, null as DubbingSegment | null);
-
+    const activeSegment = findActiveCaption(segments, time);
     setCurrentCaption(activeSegment ? activeSegment.text : null);
 
-    if (isExporting && duration > 0) {
+    if (isExporting && exportMethod === 'record' && duration > 0) {
       setExportProgress(Math.round((time / duration) * 100));
     }
   };
 
   const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const time = parseFloat(e.target.value);
+    seekTo(parseFloat(e.target.value));
+  };
+
+  const seekTo = (time: number) => {
     if (videoRef.current) {
       videoRef.current.currentTime = time;
       setCurrentTime(time);
     }
     triggeredSegmentsRef.current.clear();
+    lastTimeRef.current = null;
     stopAllAudio();
     setRecordedBlob(null); // Clear previous recording if user seeks
   };
 
-  // --- Export (Record Phase) ---
+  // --- Timeline Editing ---
+
+  const handleRetime = (index: number, startTime: number) => {
+    if (!onSegmentsChange) return;
+    // An explicit end time moves with the line
+    const next = segments
+      .map((seg, i) => (i !== index ? seg : {
+        ...seg,
+        startTime,
+        ...(seg.endTime !== undefined ? { endTime: seg.endTime + startTime - seg.startTime } : {})
+      }))
+      .sort((a, b) => a.startTime - b.startTime);
+
+    // Indexes shift when the order changes; let lines trigger afresh
+    triggeredSegmentsRef.current.clear();
+    onSegmentsChange(next);
+  };
+
+  // The lines as they are heard, effects and loudness included. Reuses the decoded
+  // buffers unless some are still loading.
+  const renderBuffers = async (): Promise<{ [index: number]: AudioBuffer }> => {
+    const loaded = audioBuffersRef.current;
+    const played = Object.keys(loaded).length === segments.length
+      ? Object.fromEntries(segments.map((_, i) => [i, playbackBuffer(i)!]))
+      : fitSegmentBuffers(await decodeSegmentBuffers(segments), fits, segments.map(seg => segmentEffects(seg, cast).pitch));
+    return renderVoiceChains(played, planVoiceChains(segments, cast, played, mixRef.current.loudnessTarget));
+  };
+
+  // --- Export ---
 
+  // Muxes the source frames with an offline render of the soundtrack where the browser
+  // can. Otherwise, and in "pause" mode when a line holds the picture (a hold only
+  // exists in playback), it records the player instead.
   const handleStartExport = async () => {
+    ensureAudioContext();
+    const holdsPicture = syncStrategy === 'pause' && fits.some(f => f.overrun > 0);
+    if (!canMuxVideo() || holdsPicture || duration <= 0) {
+      handleRecordExport();
+      return;
+    }
+
+    setRecordedBlob(null);
+    setIsPlaying(false);
+    setExportMethod('mux');
+    setExportProgress(0);
+    setIsExporting(true);
+    try {
+      const source = await (await fetch(videoUrl)).blob();
+      const soundtrack = await renderExportMix(
+        segments, await renderBuffers(), duration, mixRef.current, await readSourceAudio(source)
+      );
+      const muxed = await muxDubbedVideo(source, soundtrack, {
+        overlay: captionStyle.burnIn ? burnCaptions : undefined,
+        onProgress: fraction => setExportProgress(Math.round(fraction * 100))
+      });
+      if (muxed) {
+        setRecordedBlob(muxed.blob);
+        setIsExporting(false);
+        setExportProgress(0);
+        return;
+      }
+    } catch (e) {
+      console.error("Muxing failed, recording playback instead:", e);
+    }
+    setIsExporting(false);
+    handleRecordExport();
+  };
+
+  // Fallback: plays the video through and records a canvas copy of it, in real time
+  const handleRecordExport = async () => {
     if (!videoRef.current || !audioContextRef.current || !destinationNodeRef.current) return;
     
     ensureAudioContext();
     
     setRecordedBlob(null); // Reset
+    setExportMethod('record');
     setIsExporting(true);
     isExportingRef.current = true;
     setIsPlaying(true);
@@ -257,6 +427,7 @@ export const DubbedPlayer: React.FC<DubbedPlayerProps> = ({ videoUrl, segments }
     const draw = () => {
       if (!isExportingRef.current) return;
       ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+      if (captionStyle.burnIn) burnCaptions(ctx, canvas.width, canvas.height, video.currentTime);
       animationFrameId = requestAnimationFrame(draw);
     };
     draw();
@@ -304,7 +475,6 @@ export const DubbedPlayer: React.FC<DubbedPlayerProps> = ({ videoUrl, segments }
 
       recorder.start();
       video.currentTime = 0;
-      video.muted = true;
       await video.play();
 
       const onEndedHandler = () => {
@@ -323,6 +493,64 @@ export const DubbedPlayer: React.FC<DubbedPlayerProps> = ({ videoUrl, segments }
     }
   };
 
+  // --- Offline Audio Render ---
+
+  const handleDownloadDubAudio = async () => {
+    if (duration <= 0) return;
+
+    setIsRenderingAudio(true);
+    try {
+      const wav = await renderDubTrackWav(segments, await renderBuffers(), duration);
+      downloadBlob(wav, 'dub_audio.wav');
+    } catch (e) {
+      console.error("Audio render error:", e);
+      alert("Rendering the dub audio failed.");
+    } finally {
+      setIsRenderingAudio(false);
+    }
+  };
+
+  // Stems, mixdowns and timing files, for finishing the dub in an editor
+  const handleExportForEditing = async () => {
+    if (duration <= 0) return;
+
+    setIsPackaging(true);
+    try {
+      const buffers = await renderBuffers();
+      let original: AudioBuffer | null = null;
+      try {
+        original = await readSourceAudio(await (await fetch(videoUrl)).blob());
+      } catch (e) {
+        console.warn("Could not read the video's own audio; the mixdown has the dub only.", e);
+      }
+      const zip = await buildEditPackage({
+        name: 'DubAI dub',
+        segments,
+        buffers,
+        cast,
+        mixdown: await renderExportMix(segments, buffers, duration, mixRef.current, original),
+        dubOnly: await renderDubTrack(segments, buffers, duration)
+      });
+      downloadBlob(zip, 'dub_edit.zip');
+    } catch (e) {
+      console.error("Edit package error:", e);
+      alert("Building the edit package failed.");
+    } finally {
+      setIsPackaging(false);
+    }
+  };
+
+  const handleLoadedMetadata = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    setDuration(video.duration || 0);
+    if (captionCanvasRef.current && video.videoWidth && video.videoHeight) {
+      captionCanvasRef.current.width = video.videoWidth;
+      captionCanvasRef.current.height = video.videoHeight;
+      drawCaptionPreview();
+    }
+  };
+
   // --- Share / Save Phase ---
 
   const handleShareOrSave = async () => {
@@ -345,25 +573,15 @@ export const DubbedPlayer: React.FC<DubbedPlayerProps> = ({ videoUrl, segments }
         if ((err as any).name !== 'AbortError') {
           console.error("Share failed", err);
           alert("Share failed, falling back to download.");
-          downloadFallback(recordedBlob, fileName);
+          downloadBlob(recordedBlob, fileName);
         }
       }
     } else {
       // Desktop Fallback
-      downloadFallback(recordedBlob, fileName);
+      downloadBlob(recordedBlob, fileName);
     }
   };
 
-  const downloadFallback = (blob: Blob, fileName: string) => {
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = fileName;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-  };
-
   return (
     <div className="flex flex-col bg-slate-900 rounded-xl overflow-hidden shadow-2xl border border-slate-700">
       <div className="relative aspect-video bg-black group">
@@ -371,21 +589,21 @@ export const DubbedPlayer: React.FC<DubbedPlayerProps> = ({ videoUrl, segments }
           ref={videoRef}
           src={videoUrl}
           className="w-full h-full object-contain"
-          muted 
           playsInline
           onTimeUpdate={handleTimeUpdate}
-          onLoadedMetadata={() => setDuration(videoRef.current?.duration || 0)}
+          onLoadedMetadata={handleLoadedMetadata}
           onEnded={() => setIsPlaying(false)}
         />
         
-        {/* Caption */}
-        {currentCaption && (
-          <div className="absolute bottom-8 left-0 right-0 text-center px-4 pointer-events-none z-10">
-            <span className="inline-block bg-black/70 text-white text-lg md:text-xl font-medium px-4 py-2 rounded-lg shadow-lg backdrop-blur-sm">
-              {currentCaption}
-            </span>
-          </div>
-        )}
+        {/* Caption: drawn at the video's own resolution and letterboxed like it, so the
+            preview matches the burned-in export */}
+        <canvas
+          ref={captionCanvasRef}
+          width={1280}
+          height={720}
+          className="absolute inset-0 w-full h-full object-contain pointer-events-none z-10"
+        />
+        <div className="sr-only" aria-live="polite">{currentCaption}</div>
 
         {/* Play Button Overlay */}
         {!isPlaying && !isExporting && !recordedBlob && (
@@ -404,7 +622,9 @@ export const DubbedPlayer: React.FC<DubbedPlayerProps> = ({ videoUrl, segments }
         {/* Export Progress Overlay */}
         {isExporting && (
            <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/80 z-30">
-              <div className="text-emerald-400 font-bold text-xl mb-2">Recording Video...</div>
+              <div className="text-emerald-400 font-bold text-xl mb-2">
+                {exportMethod === 'mux' ? 'Rendering Video...' : 'Recording Video...'}
+              </div>
               <div className="w-64 h-2 bg-slate-700 rounded-full overflow-hidden">
                 <div 
                   className="h-full bg-emerald-500 transition-all duration-200"
@@ -482,10 +702,57 @@ export const DubbedPlayer: React.FC<DubbedPlayerProps> = ({ videoUrl, segments }
             </button>
 
             <div className="flex items-center gap-4">
+               <button
+                 onClick={() => setShowCaptionStyle(prev => !prev)}
+                 className={`text-sm transition-colors ${showCaptionStyle ? 'text-emerald-400' : 'text-slate-400 hover:text-white'}`}
+                 title="Caption style"
+               >
+                 <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                   <rect x="3" y="5" width="18" height="14" rx="2" strokeWidth={2} />
+                   <path strokeLinecap="round" strokeWidth={2} d="M7 15h4m3 0h3M7 11h10" />
+                 </svg>
+               </button>
+               <button
+                 onClick={() => setShowMixer(prev => !prev)}
+                 className={`text-sm transition-colors ${showMixer ? 'text-emerald-400' : 'text-slate-400 hover:text-white'}`}
+                 title="Volume mixer"
+               >
+                 <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4" />
+                 </svg>
+               </button>
+
                {isVideoPausedForDubRef.current && (
                  <span className="text-xs text-yellow-500 animate-pulse font-medium">Syncing Voice...</span>
                )}
 
+               {!recordedBlob && (
+                 <button
+                   onClick={handleDownloadDubAudio}
+                   disabled={isExporting || isRenderingAudio || segments.length === 0 || duration <= 0}
+                   className="flex items-center gap-2 px-3 py-1.5 bg-slate-700 hover:bg-slate-600 rounded-lg text-sm text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                 >
+                   <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19V6l12-3v13M9 19c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zm12-3c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zM9 10l12-3" />
+                   </svg>
+                   {isRenderingAudio ? 'Rendering...' : 'Download dub audio'}
+                 </button>
+               )}
+
+               {!recordedBlob && (
+                 <button
+                   onClick={handleExportForEditing}
+                   disabled={isExporting || isPackaging || segments.length === 0 || duration <= 0}
+                   title="Zip of one WAV per line, the mixdown, and Audacity labels, CSV and EDL timing files"
+                   className="flex items-center gap-2 px-3 py-1.5 bg-slate-700 hover:bg-slate-600 rounded-lg text-sm text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                 >
+                   <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4" />
+                   </svg>
+                   {isPackaging ? 'Packaging...' : 'Export for editing'}
+                 </button>
+               )}
+
                {!recordedBlob && (
                  <button
                    onClick={handleStartExport}
@@ -500,6 +767,78 @@ export const DubbedPlayer: React.FC<DubbedPlayerProps> = ({ videoUrl, segments }
                )}
             </div>
         </div>
+
+        {showCaptionStyle && (
+          <CaptionStylePanel style={captionStyle} onChange={setCaptionStyle} disabled={isExporting} />
+        )}
+
+        {showMixer && (
+          <div className="grid grid-cols-2 gap-x-6 gap-y-3 pt-3 border-t border-slate-700 text-xs text-slate-400">
+            {([
+              ['masterVolume', 'Master'],
+              ['originalVolume', 'Original audio'],
+              ['dubVolume', 'Dub voices'],
+            ] as [keyof MixSettings, string][]).map(([key, label]) => (
+              <label key={key} className="flex flex-col gap-1">
+                <span className="flex justify-between">
+                  <span>{label}</span>
+                  <span className="font-mono">{Math.round(mix[key] * 100)}%</span>
+                </span>
+                <input
+                  type="range"
+                  min="0"
+                  max="1"
+                  step="0.01"
+                  value={mix[key]}
+                  onChange={(e) => setMix(prev => ({ ...prev, [key]: parseFloat(e.target.value) }))}
+                  className="w-full h-1.5 bg-slate-600 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+                />
+              </label>
+            ))}
+            <label className="flex flex-col gap-1">
+              <span className="flex justify-between">
+                <span>Ducking under voices</span>
+                <span className="font-mono">{mix.duckingDb} dB</span>
+              </span>
+              <input
+                type="range"
+                min="-30"
+                max="0"
+                step="1"
+                value={mix.duckingDb}
+                onChange={(e) => setMix(prev => ({ ...prev, duckingDb: parseFloat(e.target.value) }))}
+                className="w-full h-1.5 bg-slate-600 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+              />
+            </label>
+            <label className="flex items-center justify-between gap-2" title="Every dub line is brought to the same loudness, in playback and exports">
+              <span>Line loudness</span>
+              <select
+                value={mix.loudnessTarget ?? ''}
+                onChange={(e) => setMix(prev => ({ ...prev, loudnessTarget: e.target.value ? Number(e.target.value) : null }))}
+                className="bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-slate-200 focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+              >
+                <option value="">As voiced</option>
+                {LOUDNESS_TARGETS.map(lufs => (
+                  <option key={lufs} value={lufs}>{lufs} LUFS</option>
+                ))}
+              </select>
+            </label>
+          </div>
+        )}
+      </div>
+
+      {/* Timeline */}
+      <div className="border-t border-slate-700 bg-slate-800/60 py-2 pr-2">
+        <TimelineEditor
+          segments={segments}
+          buffers={audioBuffersRef.current}
+          cast={cast}
+          duration={duration}
+          currentTime={currentTime}
+          onRetime={handleRetime}
+          onSeek={seekTo}
+          disabled={isExporting || !onSegmentsChange}
+        />
       </div>
     </div>
   );
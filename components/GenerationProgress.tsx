@@ -0,0 +1,79 @@
+import React from 'react';
+import { PipelineProgress, PipelineStage } from '../services/dubbingPipeline';
+
+interface GenerationProgressProps {
+  stages: PipelineStage[];
+  progress: PipelineProgress | null;
+  onCancel: () => void;
+  cancelling?: boolean;
+}
+
+const STAGE_LABELS: Record<PipelineStage, string> = {
+  uploading: 'Upload video',
+  processing: 'Process video',
+  scripting: 'Write script',
+  voicing: 'Voice lines'
+};
+
+// Bytes read best as a percentage, script windows as parts, lines as a count
+const countLabel = (progress: PipelineProgress): string => {
+  const completed = progress.completed || 0;
+  const total = progress.total || 0;
+  if (progress.stage === 'uploading') return `${Math.floor((completed / total) * 100)}%`;
+  if (progress.stage === 'scripting') return `part ${Math.min(completed + 1, total)} / ${total}`;
+  return `${completed} / ${total}`;
+};
+
+export const GenerationProgress: React.FC<GenerationProgressProps> = ({ stages, progress, onCancel, cancelling }) => {
+  const currentIndex = progress ? stages.indexOf(progress.stage) : 0;
+  const counted = progress?.total ? progress : null;
+
+  return (
+    <div className="bg-slate-800/50 rounded-xl p-4 border border-slate-700 space-y-3">
+      <ol className="space-y-2 text-sm">
+        {stages.map((stage, i) => {
+          const state = i < currentIndex ? 'done' : i === currentIndex ? 'active' : 'pending';
+          return (
+            <li key={stage} className="flex items-center gap-3">
+              <span className={`w-2.5 h-2.5 rounded-full shrink-0
+                ${state === 'done' ? 'bg-emerald-500' : state === 'active' ? 'bg-emerald-400 animate-pulse' : 'bg-slate-600'}`}
+              />
+              <span className={state === 'pending' ? 'text-slate-500' : 'text-slate-200'}>
+                {STAGE_LABELS[stage]}
+              </span>
+              {counted?.stage === stage && (
+                <span className="ml-auto text-xs text-slate-400 font-mono">
+                  {countLabel(counted)}
+                </span>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      {counted && (
+        <div className="space-y-1">
+          <div className="h-1.5 rounded-full bg-slate-700 overflow-hidden">
+            <div
+              className="h-full bg-emerald-500 transition-all"
+              style={{ width: `${((counted.completed || 0) / (counted.total || 1)) * 100}%` }}
+            />
+          </div>
+          {counted.stage === 'voicing' && counted.text && counted.index !== undefined && (
+            <p className="text-xs text-slate-400 truncate">
+              Line {counted.index + 1}: "{counted.text}"
+            </p>
+          )}
+        </div>
+      )}
+
+      <button
+        onClick={onCancel}
+        disabled={cancelling}
+        className="w-full py-2 rounded-lg bg-slate-700 hover:bg-slate-600 text-sm text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {cancelling ? 'Cancelling...' : 'Cancel'}
+      </button>
+    </div>
+  );
+};
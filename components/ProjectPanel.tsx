@@ -0,0 +1,127 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { DubbingProject } from '../types';
+import {
+  deleteProject, importProjectFile, listProjects, loadProject, PROJECT_FILE_EXTENSION, ProjectSummary, saveProject
+} from '../services/projectStore';
+
+interface ProjectPanelProps {
+  projectName: string;
+  onProjectNameChange: (name: string) => void;
+  canSave: boolean;
+  onSave: () => Promise<void>;
+  onExport: () => Promise<void>;
+  onOpen: (project: DubbingProject) => void;
+}
+
+export const ProjectPanel: React.FC<ProjectPanelProps> = ({
+  projectName, onProjectNameChange, canSave, onSave, onExport, onOpen
+}) => {
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [isWorking, setIsWorking] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = async () => {
+    try {
+      setProjects(await listProjects());
+    } catch (e) {
+      console.error("Failed to list projects", e);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  // Runs one panel action, reporting failures inline
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setIsWorking(true);
+    setMessage(null);
+    try {
+      await action();
+    } catch (e: any) {
+      console.error(failure, e);
+      setMessage(e.message || failure);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleSave = () => run(async () => {
+    await onSave();
+    await refresh();
+    setMessage("Project saved.");
+  }, "Saving the project failed.");
+
+  const handleOpen = (id: string) => run(async () => {
+    const project = await loadProject(id);
+    if (!project) throw new Error("This project no longer exists.");
+    onOpen(project);
+  }, "Opening the project failed.");
+
+  const handleDelete = (summary: ProjectSummary) => {
+    if (!confirm(`Delete "${summary.name}"? This cannot be undone.`)) return;
+    run(async () => {
+      await deleteProject(summary.id);
+      await refresh();
+    }, "Deleting the project failed.");
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    run(async () => {
+      const project = await importProjectFile(file);
+      await saveProject(project);
+      await refresh();
+      onOpen(project);
+    }, "Importing the project failed.");
+  };
+
+  const buttonClass = "px-3 py-1.5 rounded-lg bg-slate-700 hover:bg-slate-600 text-xs text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <div className="bg-slate-800/50 rounded-xl p-4 border border-slate-700 space-y-3">
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={projectName}
+          onChange={(e) => onProjectNameChange(e.target.value)}
+          placeholder="Project name"
+          className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-slate-200 placeholder-slate-600 focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+        />
+        <button onClick={handleSave} disabled={!canSave || isWorking} className={buttonClass}>Save</button>
+        <button onClick={() => run(onExport, "Exporting the project failed.")} disabled={!canSave || isWorking} className={buttonClass}>Export</button>
+        <button onClick={() => importInputRef.current?.click()} disabled={isWorking} className={buttonClass}>Import</button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept={`${PROJECT_FILE_EXTENSION},.zip`}
+          className="hidden"
+          onChange={handleImport}
+        />
+      </div>
+
+      {message && <p className="text-xs text-slate-400">{message}</p>}
+
+      {projects.length > 0 && (
+        <ul className="max-h-48 overflow-y-auto divide-y divide-slate-700/60 text-sm">
+          {projects.map(p => (
+            <li key={p.id} className="py-2 flex items-center gap-3">
+              <div className="flex-1 min-w-0">
+                <p className="text-slate-200 truncate">{p.name}</p>
+                <p className="text-xs text-slate-500 truncate">
+                  {new Date(p.updatedAt).toLocaleString()} · {p.lineCount} lines · {p.segmentCount} voiced
+                  {p.videoName ? ` · ${p.videoName}` : ''}
+                </p>
+              </div>
+              <button onClick={() => handleOpen(p.id)} disabled={isWorking} className="text-xs text-emerald-400 hover:text-emerald-300 disabled:opacity-50">Open</button>
+              <button onClick={() => handleDelete(p)} disabled={isWorking} className="text-xs text-slate-500 hover:text-red-400 disabled:opacity-50">Delete</button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
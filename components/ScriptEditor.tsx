@@ -0,0 +1,156 @@
+import React from 'react';
+import { ScriptLine, VoiceInstruction } from '../types';
+import { createScriptLine, moveScriptLine } from '../services/script';
+import { normalizeCharacterId } from '../services/cast';
+
+interface ScriptEditorProps {
+  lines: ScriptLine[];
+  cast: VoiceInstruction[];
+  onChange: (lines: ScriptLine[]) => void;
+  disabled?: boolean;
+}
+
+export const ScriptEditor: React.FC<ScriptEditorProps> = ({ lines, cast, onChange, disabled }) => {
+
+  const updateLine = (index: number, fields: Partial<ScriptLine>) => {
+    onChange(lines.map((line, i) => (i === index ? { ...line, ...fields } : line)));
+  };
+
+  const deleteLine = (index: number) => {
+    onChange(lines.filter((_, i) => i !== index));
+  };
+
+  const addLine = () => {
+    const last = lines[lines.length - 1];
+    onChange([
+      ...lines,
+      createScriptLine({
+        startTime: last ? last.startTime + 2 : 0,
+        characterId: last?.characterId
+      })
+    ]);
+  };
+
+  const iconButton = "p-1.5 rounded-md text-slate-400 hover:text-white hover:bg-slate-700 transition-colors disabled:opacity-30 disabled:pointer-events-none";
+
+  return (
+    <div className={`bg-slate-800/50 rounded-xl border border-slate-700 ${disabled ? 'opacity-60 pointer-events-none' : ''}`}>
+      <datalist id="script-editor-characters">
+        {cast.map(c => (
+          <option key={c.characterId} value={c.characterId}>{c.character}</option>
+        ))}
+      </datalist>
+      <div className="max-h-[28rem] overflow-y-auto divide-y divide-slate-700/60">
+        {lines.map((line, index) => (
+          <div key={line.id} className="p-3 flex gap-3 items-start">
+            <div className="flex flex-col items-center gap-1 pt-1">
+              <span className="text-xs text-slate-500 font-mono">{index + 1}</span>
+              <button
+                onClick={() => onChange(moveScriptLine(lines, index, -1))}
+                disabled={index === 0}
+                className={iconButton}
+                title="Move up"
+              >
+                <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+                </svg>
+              </button>
+              <button
+                onClick={() => onChange(moveScriptLine(lines, index, 1))}
+                disabled={index === lines.length - 1}
+                className={iconButton}
+                title="Move down"
+              >
+                <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                </svg>
+              </button>
+            </div>
+
+            <div className="flex-1 space-y-2">
+              <div className="flex gap-2">
+                <label className="flex items-center gap-1 text-xs text-slate-500">
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.001"
+                    value={line.startTime}
+                    onChange={(e) => updateLine(index, { startTime: Math.max(0, parseFloat(e.target.value) || 0) })}
+                    title="Start, in seconds"
+                    className="w-24 bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-sm text-slate-200 font-mono focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+                  />
+                  –
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.001"
+                    value={line.endTime ?? ''}
+                    onChange={(e) => {
+                      const endTime = parseFloat(e.target.value);
+                      updateLine(index, { endTime: isNaN(endTime) ? undefined : Math.max(0, endTime) });
+                    }}
+                    placeholder="end"
+                    title="Optional end, in seconds"
+                    className="w-24 bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-sm text-slate-200 font-mono placeholder-slate-600 focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+                  />
+                  sec
+                </label>
+                <input
+                  type="text"
+                  list="script-editor-characters"
+                  defaultValue={line.characterId}
+                  onBlur={(e) => {
+                    const characterId = normalizeCharacterId(e.target.value);
+                    e.target.value = characterId;
+                    if (characterId !== line.characterId) updateLine(index, { characterId });
+                  }}
+                  title="Character id"
+                  className="w-28 bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-sm text-emerald-300 font-mono focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+                />
+                <input
+                  type="text"
+                  value={line.characterNote}
+                  onChange={(e) => updateLine(index, { characterNote: e.target.value })}
+                  placeholder="Delivery, e.g. whispering"
+                  className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-sm text-slate-300 placeholder-slate-600 focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+                />
+              </div>
+              {line.sourceText && (
+                <p className="text-xs text-slate-500 italic" title="Original speech">{line.sourceText}</p>
+              )}
+              <textarea
+                value={line.text}
+                onChange={(e) => updateLine(index, { text: e.target.value })}
+                rows={2}
+                placeholder="Spoken line"
+                className="w-full bg-slate-900 border border-slate-700 rounded-md p-2 text-sm text-slate-200 placeholder-slate-600 focus:outline-none focus:ring-2 focus:ring-emerald-500/50 resize-none"
+              />
+            </div>
+
+            <button
+              onClick={() => deleteLine(index)}
+              className={`${iconButton} hover:text-red-400 mt-1`}
+              title="Delete line"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="p-3 border-t border-slate-700 flex items-center justify-between">
+        <button
+          onClick={addLine}
+          className="px-3 py-1.5 rounded-full bg-slate-800 border border-slate-700 text-xs text-slate-300 hover:bg-slate-700 hover:text-white transition-colors"
+        >
+          + Add Line
+        </button>
+        <span className="text-xs text-slate-500">
+          {lines.length} {lines.length === 1 ? 'line' : 'lines'}
+        </span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,200 @@
+import React, { useState } from 'react';
+import { DubbingSegment, ScriptLine, VoiceEffects, VoiceInstruction } from '../types';
+import { selectVoice } from '../services/cast';
+import { GEMINI_VOICES, voiceLabel } from '../services/voices';
+import { SegmentFit, SyncStrategy } from '../services/syncPlan';
+import { NO_EFFECTS } from '../services/voiceEffects';
+import { VoiceEffectsPanel } from './VoiceEffectsPanel';
+
+export interface SegmentTake {
+  text: string;
+  voiceName?: string;
+  note: string;
+}
+
+interface SegmentTakesProps {
+  segments: DubbingSegment[];
+  lines: ScriptLine[];
+  cast: VoiceInstruction[];
+  fits?: SegmentFit[]; // stretch report, in the same order as segments
+  syncStrategy?: SyncStrategy;
+  onRevoice: (index: number, take: SegmentTake) => Promise<void>;
+  onRewrite: (index: number, direction: string, note: string) => Promise<string>;
+  onEffectsChange?: (index: number, effects: VoiceEffects | undefined) => void; // undefined: the character's
+  disabled?: boolean;
+}
+
+// Draft of a new take for the segment being edited
+interface TakeDraft extends SegmentTake {
+  segmentId: string;
+  direction: string;
+}
+
+// Lines sped up by less than this are not worth flagging
+const NOTICEABLE_RATE = 1.05;
+const NOTICEABLE_OVERRUN = 0.05;
+
+export const SegmentTakes: React.FC<SegmentTakesProps> = ({
+  segments, lines, cast, fits = [], syncStrategy, onRevoice, onRewrite, onEffectsChange, disabled
+}) => {
+  const [draft, setDraft] = useState<TakeDraft | null>(null);
+  const [effectsFor, setEffectsFor] = useState<string | null>(null);
+  const [busy, setBusy] = useState<'rewrite' | 'revoice' | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const openDraft = (seg: DubbingSegment) => {
+    if (draft?.segmentId === seg.id) {
+      setDraft(null);
+      return;
+    }
+    const line = lines.find(l => l.id === seg.id);
+    setDraft({ segmentId: seg.id, text: seg.text, note: line?.characterNote || '', direction: '' });
+    setMessage(null);
+  };
+
+  const updateDraft = (fields: Partial<TakeDraft>) => setDraft(prev => (prev ? { ...prev, ...fields } : prev));
+
+  // Runs one action on the open draft, reporting failures inline
+  const run = async (kind: 'rewrite' | 'revoice', action: (index: number, draft: TakeDraft) => Promise<void>) => {
+    if (!draft) return;
+    const index = segments.findIndex(s => s.id === draft.segmentId);
+    if (index === -1) return;
+    setBusy(kind);
+    setMessage(null);
+    try {
+      await action(index, draft);
+    } catch (e: any) {
+      console.error(e);
+      setMessage(e.message || "Something went wrong.");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleRewrite = () => run('rewrite', async (index, d) => {
+    const text = await onRewrite(index, d.direction, d.note);
+    updateDraft({ text });
+  });
+
+  const handleRevoice = () => run('revoice', async (index, d) => {
+    await onRevoice(index, { text: d.text, voiceName: d.voiceName, note: d.note });
+    setDraft(null);
+  });
+
+  const spedUp = fits.filter(f => f.rate >= NOTICEABLE_RATE).length;
+  const tooLong = fits.filter(f => f.overrun >= NOTICEABLE_OVERRUN).length;
+  const overrunLabel = syncStrategy === 'pause' ? 'holds the video' : 'too long';
+
+  const inputClass = "w-full bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-sm text-slate-200 placeholder-slate-600 focus:outline-none focus:ring-2 focus:ring-emerald-500/50";
+  const buttonClass = "px-3 py-1.5 rounded-lg bg-slate-700 hover:bg-slate-600 text-xs text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <div className="space-y-2">
+      {(spedUp > 0 || tooLong > 0) && (
+        <p className="text-xs text-slate-400">
+          {spedUp > 0 && `${spedUp} ${spedUp === 1 ? 'line is' : 'lines are'} sped up to fit. `}
+          {tooLong > 0 && `${tooLong} ${tooLong === 1 ? 'line runs' : 'lines run'} into the next cue; rewrite ${tooLong === 1 ? 'it' : 'them'} shorter for a cleaner sync.`}
+        </p>
+      )}
+      <ul className={`bg-slate-800/50 rounded-xl border border-slate-700 divide-y divide-slate-700/60 text-sm ${disabled ? 'opacity-60 pointer-events-none' : ''}`}>
+        {segments.map((seg, index) => {
+          const isOpen = draft?.segmentId === seg.id;
+          const fit = fits[index];
+          const castVoice = selectVoice(seg.characterId, cast);
+          return (
+            <li key={seg.id} className="p-3 space-y-2">
+              <div className="flex items-start gap-3">
+                <span className="text-xs text-slate-500 font-mono pt-0.5 w-12 shrink-0">{seg.startTime.toFixed(1)}s</span>
+                <div className="flex-1 min-w-0">
+                  <p className="text-xs text-emerald-400/80">{castVoice.character}</p>
+                  <p className="text-slate-200">{seg.text}</p>
+                  {fit && (fit.rate >= NOTICEABLE_RATE || fit.overrun >= NOTICEABLE_OVERRUN) && (
+                    <p className="mt-1 flex gap-2 text-xs">
+                      {fit.rate >= NOTICEABLE_RATE && (
+                        <span className={fit.rate >= 1.3 ? 'text-amber-400' : 'text-slate-400'}>×{fit.rate.toFixed(2)} speed</span>
+                      )}
+                      {fit.overrun >= NOTICEABLE_OVERRUN && (
+                        <span className="text-red-400">{fit.overrun.toFixed(2)}s {overrunLabel}</span>
+                      )}
+                    </p>
+                  )}
+                </div>
+                {onEffectsChange && (
+                  <button onClick={() => setEffectsFor(id => (id === seg.id ? null : seg.id))} className="text-xs text-emerald-400 hover:text-emerald-300 shrink-0">
+                    {seg.effects ? 'Own effects' : 'Effects'}
+                  </button>
+                )}
+                <button onClick={() => openDraft(seg)} disabled={!!busy} className="text-xs text-emerald-400 hover:text-emerald-300 disabled:opacity-50 shrink-0">
+                  {isOpen ? 'Close' : 'New take'}
+                </button>
+              </div>
+
+              {onEffectsChange && effectsFor === seg.id && (
+                <div className="space-y-2">
+                  <label className="flex items-center gap-2 text-xs text-slate-400">
+                    <input
+                      type="checkbox"
+                      checked={!seg.effects}
+                      onChange={(e) => onEffectsChange(index, e.target.checked ? undefined : (castVoice.effects || NO_EFFECTS))}
+                      className="accent-emerald-500"
+                    />
+                    Use {castVoice.character}'s effects
+                  </label>
+                  {seg.effects && (
+                    <VoiceEffectsPanel effects={seg.effects} onChange={(effects) => onEffectsChange(index, effects)} />
+                  )}
+                </div>
+              )}
+
+              {isOpen && draft && (
+                <div className="space-y-2">
+                  <textarea
+                    value={draft.text}
+                    onChange={(e) => updateDraft({ text: e.target.value })}
+                    rows={2}
+                    className={`${inputClass} resize-none`}
+                  />
+                  <div className="flex gap-2">
+                    <select
+                      value={draft.voiceName || ''}
+                      onChange={(e) => updateDraft({ voiceName: e.target.value || undefined })}
+                      className="bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-sm text-slate-200 focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+                    >
+                      <option value="">Cast voice ({castVoice.voiceName})</option>
+                      {GEMINI_VOICES.map(voice => (
+                        <option key={voice} value={voice}>{voiceLabel(voice)}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="text"
+                      value={draft.note}
+                      onChange={(e) => updateDraft({ note: e.target.value })}
+                      placeholder="Delivery, e.g. whispering"
+                      className={inputClass}
+                    />
+                  </div>
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={draft.direction}
+                      onChange={(e) => updateDraft({ direction: e.target.value })}
+                      placeholder="Rewrite direction (optional), e.g. shorter"
+                      className={inputClass}
+                    />
+                    <button onClick={handleRewrite} disabled={!!busy} className={`${buttonClass} shrink-0`}>
+                      {busy === 'rewrite' ? 'Rewriting...' : 'Rewrite'}
+                    </button>
+                    <button onClick={handleRevoice} disabled={!!busy || !draft.text.trim()} className="px-3 py-1.5 rounded-lg bg-emerald-600 hover:bg-emerald-500 text-xs text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed shrink-0">
+                      {busy === 'revoice' ? 'Voicing...' : 'Voice take'}
+                    </button>
+                  </div>
+                  {message && <p className="text-xs text-red-400">{message}</p>}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
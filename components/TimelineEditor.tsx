@@ -0,0 +1,184 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { DubbingSegment, VoiceInstruction } from '../types';
+
+interface TimelineEditorProps {
+  segments: DubbingSegment[];
+  buffers: { [index: number]: AudioBuffer };
+  cast: VoiceInstruction[];
+  duration: number;
+  currentTime: number;
+  onRetime: (index: number, startTime: number) => void;
+  onSeek: (time: number) => void;
+  disabled?: boolean;
+}
+
+const LANE_HEIGHT = 44;
+const WAVEFORM_COLUMNS = 160;
+
+// Peak waveform of a decoded segment, stretched to fill its block
+const Waveform: React.FC<{ buffer?: AudioBuffer }> = ({ buffer }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    if (!buffer) return;
+
+    const data = buffer.getChannelData(0);
+    const samplesPerColumn = Math.max(1, Math.floor(data.length / WAVEFORM_COLUMNS));
+    const mid = canvas.height / 2;
+    ctx.fillStyle = 'rgba(167, 243, 208, 0.8)'; // emerald-200
+
+    for (let col = 0; col < WAVEFORM_COLUMNS; col++) {
+      let peak = 0;
+      const start = col * samplesPerColumn;
+      for (let i = start; i < start + samplesPerColumn && i < data.length; i++) {
+        const value = Math.abs(data[i]);
+        if (value > peak) peak = value;
+      }
+      const height = Math.max(1, peak * mid);
+      ctx.fillRect(col, mid - height, 1, height * 2);
+    }
+  }, [buffer]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={WAVEFORM_COLUMNS}
+      height={32}
+      className="absolute inset-0 w-full h-full pointer-events-none"
+    />
+  );
+};
+
+export const TimelineEditor: React.FC<TimelineEditorProps> = ({
+  segments, buffers, cast, duration, currentTime, onRetime, onSeek, disabled
+}) => {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+  const [drag, setDrag] = useState<{ index: number; pointerX: number; originalStart: number; startTime: number } | null>(null);
+
+  if (duration <= 0) return null;
+
+  // One lane per character, in order of first appearance
+  const laneIds = Array.from(new Set<string>(segments.map(s => s.characterId)));
+  const laneName = (characterId: string) =>
+    cast.find(c => c.characterId === characterId)?.character || characterId;
+
+  const percent = (seconds: number) => `${(seconds / duration) * 100}%`;
+
+  const secondsPerPixel = () => duration / (trackRef.current?.clientWidth || 1);
+
+  const segmentLength = (seg: DubbingSegment, index: number) =>
+    seg.duration > 0 ? seg.duration : (buffers[index]?.duration || 1);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>, index: number) => {
+    if (disabled) return;
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const start = segments[index].startTime;
+    setDrag({ index, pointerX: e.clientX, originalStart: start, startTime: start });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!drag) return;
+    const delta = (e.clientX - drag.pointerX) * secondsPerPixel();
+    const startTime = Math.min(Math.max(0, drag.originalStart + delta), Math.max(0, duration - 0.1));
+    setDrag({ ...drag, startTime: Math.round(startTime * 1000) / 1000 });
+  };
+
+  const handlePointerUp = () => {
+    if (!drag) return;
+    if (drag.startTime !== drag.originalStart) {
+      onRetime(drag.index, drag.startTime);
+    }
+    setDrag(null);
+  };
+
+  const handleTrackClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!trackRef.current) return;
+    const rect = trackRef.current.getBoundingClientRect();
+    onSeek(Math.min(Math.max(0, (e.clientX - rect.left) * secondsPerPixel()), duration));
+  };
+
+  return (
+    <div className="flex text-xs select-none">
+      {/* Lane labels */}
+      <div className="w-24 shrink-0 border-r border-slate-700">
+        {laneIds.map(id => (
+          <div key={id} style={{ height: LANE_HEIGHT }} className="px-2 flex items-center text-slate-400 truncate">
+            {laneName(id)}
+          </div>
+        ))}
+      </div>
+
+      {/* Lanes */}
+      <div
+        ref={trackRef}
+        className="relative flex-1 bg-slate-900/60 cursor-pointer"
+        style={{ height: LANE_HEIGHT * laneIds.length }}
+        onClick={handleTrackClick}
+      >
+        {laneIds.slice(1).map((id, lane) => (
+          <div key={id} className="absolute left-0 right-0 border-t border-slate-700/50" style={{ top: LANE_HEIGHT * (lane + 1) }} />
+        ))}
+
+        {segments.map((seg, index) => {
+          const isDragging = drag?.index === index;
+          const start = isDragging ? drag.startTime : seg.startTime;
+          const lane = laneIds.indexOf(seg.characterId);
+
+          return (
+            <div
+              key={seg.id}
+              className={`absolute rounded-md overflow-hidden border transition-colors
+                ${isDragging ? 'bg-emerald-500/50 border-emerald-300 z-10' : 'bg-emerald-600/30 border-emerald-500/50 hover:bg-emerald-500/40'}
+                ${disabled ? 'cursor-default' : 'cursor-grab active:cursor-grabbing'}`}
+              style={{
+                left: percent(start),
+                width: percent(segmentLength(seg, index)),
+                top: lane * LANE_HEIGHT + 6,
+                height: LANE_HEIGHT - 12,
+                minWidth: 4
+              }}
+              onPointerDown={(e) => handlePointerDown(e, index)}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={() => setDrag(null)}
+              onClick={(e) => e.stopPropagation()}
+              onMouseEnter={() => setHoverIndex(index)}
+              onMouseLeave={() => setHoverIndex(null)}
+            >
+              <Waveform buffer={buffers[index]} />
+            </div>
+          );
+        })}
+
+        {/* Hover tooltip */}
+        {hoverIndex !== null && segments[hoverIndex] && (
+          <div
+            className="absolute z-20 -translate-y-full -mt-1 max-w-xs px-2 py-1 rounded-md bg-black/90 text-white shadow-lg pointer-events-none"
+            style={{
+              left: percent(drag?.index === hoverIndex ? drag.startTime : segments[hoverIndex].startTime),
+              top: laneIds.indexOf(segments[hoverIndex].characterId) * LANE_HEIGHT
+            }}
+          >
+            <span className="font-mono text-emerald-300 mr-1">
+              {(drag?.index === hoverIndex ? drag.startTime : segments[hoverIndex].startTime).toFixed(3)}s
+            </span>
+            {segments[hoverIndex].text}
+          </div>
+        )}
+
+        {/* Playhead */}
+        <div
+          className="absolute top-0 bottom-0 w-px bg-white/80 pointer-events-none z-10"
+          style={{ left: percent(Math.min(currentTime, duration)) }}
+        />
+      </div>
+    </div>
+  );
+};
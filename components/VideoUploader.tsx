@@ -2,25 +2,38 @@ import React, { useCallback } from 'react';
 
 interface VideoUploaderProps {
   onFileSelect: (file: File) => void;
+  onFilesSelect?: (files: File[]) => void; // several at once: queued as a batch
   selectedFile: File | null;
 }
 
-export const VideoUploader: React.FC<VideoUploaderProps> = ({ onFileSelect, selectedFile }) => {
+export const VideoUploader: React.FC<VideoUploaderProps> = ({ onFileSelect, onFilesSelect, selectedFile }) => {
+  // One video opens for review; several go to the batch queue when there is one
+  const selectFiles = useCallback(
+    (files: File[]) => {
+      if (files.length > 1 && onFilesSelect) {
+        onFilesSelect(files);
+      } else if (files.length > 0) {
+        onFileSelect(files[0]);
+      }
+    },
+    [onFileSelect, onFilesSelect]
+  );
+
   const handleDrop = useCallback(
     (e: React.DragEvent<HTMLDivElement>) => {
       e.preventDefault();
       e.stopPropagation();
       
-      if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-        const file = e.dataTransfer.files[0];
-        if (file.type.startsWith('video/')) {
-          onFileSelect(file);
-        } else {
-          alert('Please upload a video file.');
-        }
+      const dropped = Array.from<File>(e.dataTransfer.files || []);
+      if (dropped.length === 0) return;
+      const videos = dropped.filter(file => file.type.startsWith('video/'));
+      if (videos.length > 0) {
+        selectFiles(videos);
+      } else {
+        alert('Please upload a video file.');
       }
     },
-    [onFileSelect]
+    [selectFiles]
   );
 
   const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
@@ -29,9 +42,8 @@ export const VideoUploader: React.FC<VideoUploaderProps> = ({ onFileSelect, sele
   };
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      onFileSelect(e.target.files[0]);
-    }
+    selectFiles(Array.from<File>(e.target.files || []));
+    e.target.value = '';
   };
 
   return (
@@ -46,6 +58,7 @@ export const VideoUploader: React.FC<VideoUploaderProps> = ({ onFileSelect, sele
         type="file" 
         id="fileInput" 
         accept="video/*" 
+        multiple={!!onFilesSelect}
         className="hidden" 
         onChange={handleChange} 
       />
@@ -65,7 +78,8 @@ export const VideoUploader: React.FC<VideoUploaderProps> = ({ onFileSelect, sele
           </svg>
           <p className="text-slate-300 font-medium text-lg">Drop your video here</p>
           <p className="text-slate-500 text-sm mt-2">or click to browse (MP4, WEBM)</p>
-          <p className="text-slate-500 text-xs mt-4">Max size recommended: 20MB</p>
+          <p className="text-slate-500 text-xs mt-4">Up to 2GB; long videos are scripted in parts</p>
+          {onFilesSelect && <p className="text-slate-500 text-xs mt-1">Drop several to dub them as a batch</p>}
         </div>
       )}
     </div>
@@ -0,0 +1,55 @@
+import React from 'react';
+import { VoiceEffectPreset, VoiceEffects } from '../types';
+import { VOICE_EFFECT_PRESETS } from '../services/voiceEffects';
+
+interface VoiceEffectsPanelProps {
+  effects: VoiceEffects;
+  onChange: (effects: VoiceEffects) => void;
+  disabled?: boolean;
+}
+
+type EffectSlider = [key: Exclude<keyof VoiceEffects, 'preset'>, label: string, min: number, max: number, step: number, unit: string];
+
+const SLIDERS: EffectSlider[] = [
+  ['gainDb', 'Gain', -24, 12, 1, 'dB'],
+  ['pitch', 'Pitch', -12, 12, 1, 'st'],
+  ['lowDb', 'Low', -12, 12, 1, 'dB'],
+  ['midDb', 'Presence', -12, 12, 1, 'dB'],
+  ['highDb', 'High', -12, 12, 1, 'dB'],
+  ['reverb', 'Reverb', 0, 1, 0.05, '%']
+];
+
+export const VoiceEffectsPanel: React.FC<VoiceEffectsPanelProps> = ({ effects, onChange, disabled }) => {
+  const update = (fields: Partial<VoiceEffects>) => onChange({ ...effects, ...fields });
+
+  const rangeClass = "w-full h-1.5 bg-slate-600 rounded-lg appearance-none cursor-pointer accent-emerald-500";
+
+  return (
+    <fieldset disabled={disabled} className="grid grid-cols-2 gap-x-6 gap-y-3 text-xs text-slate-400">
+      <label className="col-span-2 flex items-center justify-between gap-2">
+        Preset
+        <select
+          value={effects.preset}
+          onChange={(e) => update({ preset: e.target.value as VoiceEffectPreset })}
+          className="bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-slate-200 focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+        >
+          {VOICE_EFFECT_PRESETS.map(preset => (
+            <option key={preset.value} value={preset.value}>{preset.label}</option>
+          ))}
+        </select>
+      </label>
+      {SLIDERS.map(([key, label, min, max, step, unit]) => (
+        <label key={key} className="flex flex-col gap-1">
+          <span className="flex justify-between">
+            <span>{label}</span>
+            <span className="font-mono">
+              {unit === '%' ? `${Math.round(effects[key] * 100)}%` : `${effects[key] > 0 ? '+' : ''}${effects[key]} ${unit}`}
+            </span>
+          </span>
+          <input type="range" min={min} max={max} step={step} value={effects[key]}
+            onChange={(e) => update({ [key]: parseFloat(e.target.value) })} className={rangeClass} />
+        </label>
+      ))}
+    </fieldset>
+  );
+};
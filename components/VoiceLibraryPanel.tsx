@@ -0,0 +1,108 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { VoiceInstruction } from '../types';
+import { searchVoices } from '../services/voices';
+import { AUDITION_TEXT, auditionVoice } from '../services/voiceAudition';
+import type { DubbingProviders } from '../services/providers';
+
+interface VoiceLibraryPanelProps {
+  providers: DubbingProviders;
+  characters: VoiceInstruction[]; // cast entries a voice can be assigned to
+  onAssign: (characterId: string, voiceName: string) => void;
+  disabled?: boolean;
+}
+
+export const VoiceLibraryPanel: React.FC<VoiceLibraryPanelProps> = ({ providers, characters, onAssign, disabled }) => {
+  const [query, setQuery] = useState('');
+  const [sampleText, setSampleText] = useState(AUDITION_TEXT);
+  const [loading, setLoading] = useState<string | null>(null);
+  const [playing, setPlaying] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+
+  const stop = () => {
+    audioRef.current?.pause();
+    audioRef.current = null;
+    setPlaying(null);
+  };
+
+  useEffect(() => stop, []);
+
+  const play = async (voiceName: string) => {
+    stop();
+    if (playing === voiceName) return;
+    setLoading(voiceName);
+    setError(null);
+    try {
+      const sample = await auditionVoice(providers, { voiceName, text: sampleText });
+      const audio = new Audio(sample.audioUrl);
+      audio.onended = () => setPlaying(current => (current === voiceName ? null : current));
+      audioRef.current = audio;
+      setPlaying(voiceName);
+      await audio.play();
+    } catch (e: any) {
+      console.error(e);
+      setError(`Could not voice a sample for ${voiceName}: ${e.message || 'something went wrong.'}`);
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  const voices = searchVoices(query);
+  const inputClass = "w-full bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-sm text-slate-200 placeholder-slate-600 focus:outline-none focus:ring-2 focus:ring-emerald-500/50";
+
+  return (
+    <div className={`bg-slate-800/50 rounded-xl p-3 border border-slate-700 space-y-2 ${disabled ? 'opacity-60 pointer-events-none' : ''}`}>
+      <input
+        type="text"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search voices, e.g. gruff old pirate"
+        className={inputClass}
+      />
+      <input
+        type="text"
+        value={sampleText}
+        onChange={(e) => setSampleText(e.target.value)}
+        placeholder="Sample sentence"
+        title="Sample sentence, voiced once per voice and kept"
+        className={`${inputClass} text-xs`}
+      />
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      {voices.length === 0 && <p className="text-xs text-slate-500">No voice matches that description.</p>}
+
+      <ul className="max-h-72 overflow-y-auto divide-y divide-slate-700/60 text-sm">
+        {voices.map(voice => (
+          <li key={voice.name} className="py-2 flex items-center gap-3">
+            <button
+              onClick={() => play(voice.name)}
+              disabled={loading !== null}
+              className="w-14 shrink-0 px-2 py-1 rounded-md bg-slate-700 hover:bg-slate-600 text-xs text-white transition-colors disabled:opacity-50"
+            >
+              {loading === voice.name ? '...' : playing === voice.name ? 'Stop' : 'Play'}
+            </button>
+            <div className="flex-1 min-w-0">
+              <p className="text-slate-200">
+                {voice.name} <span className="text-xs text-slate-400">{voice.style}, {voice.gender}, {voice.pitch} pitch</span>
+              </p>
+              <p className="text-xs text-slate-500 truncate">{voice.tags.join(', ')}</p>
+            </div>
+            {characters.length > 0 && (
+              <select
+                value=""
+                onChange={(e) => e.target.value && onAssign(e.target.value, voice.name)}
+                className="bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-xs text-slate-200 focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+              >
+                <option value="">Cast as...</option>
+                {characters.map(c => (
+                  <option key={c.characterId} value={c.characterId}>
+                    {c.character}{c.voiceName === voice.name ? ' (current)' : ''}
+                  </option>
+                ))}
+              </select>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
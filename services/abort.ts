@@ -0,0 +1,27 @@
+// Helpers for cancelling long-running work with an AbortSignal
+
+export const abortError = (): Error => new DOMException("The operation was cancelled.", "AbortError");
+
+export const isAbortError = (error: any): boolean => error?.name === 'AbortError';
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw abortError();
+};
+
+// setTimeout as a promise that rejects as soon as the signal fires
+export const delay = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
@@ -0,0 +1,147 @@
+import { DubbingSegment, MixSettings } from "../types";
+import { scheduleDucking } from "./playbackGraph";
+import { audioBufferToWav } from "./wav";
+import { SegmentFit } from "./syncPlan";
+import { pitchShiftAudioBuffer, stretchAudioBuffer } from "./timeStretch";
+
+const RENDER_SAMPLE_RATE = 48000;
+const RENDER_CHANNELS = 2;
+
+// Decodes every segment's audio. Failed segments are left out of the result.
+export const decodeSegmentBuffers = async (
+  segments: DubbingSegment[]
+): Promise<{ [index: number]: AudioBuffer }> => {
+  // A one-frame offline context is enough for decoding
+  const ctx = new OfflineAudioContext(1, 1, RENDER_SAMPLE_RATE);
+  const buffers: { [index: number]: AudioBuffer } = {};
+
+  await Promise.all(segments.map(async (seg, i) => {
+    try {
+      const response = await fetch(seg.audioUrl);
+      buffers[i] = await ctx.decodeAudioData(await response.arrayBuffer());
+    } catch (e) {
+      console.error("Error loading audio segment", i, e);
+    }
+  }));
+
+  return buffers;
+};
+
+// A segment's audio as it is heard: stretched to a "fit" rate, then pitch shifted by
+// its voice effects. Both keep pitch and length apart, so the order does not matter.
+export const shapeSegmentBuffer = (buffer: AudioBuffer, rate: number, pitch: number): AudioBuffer => {
+  const stretched = rate !== 1 ? stretchAudioBuffer(buffer, rate) : buffer;
+  return pitch !== 0 ? pitchShiftAudioBuffer(stretched, pitch) : stretched;
+};
+
+// Applies a sync plan's rates and the lines' pitch shifts, so a render sounds the same
+// as playback
+export const fitSegmentBuffers = (
+  buffers: { [index: number]: AudioBuffer },
+  fits: SegmentFit[],
+  pitches: number[] = []
+): { [index: number]: AudioBuffer } => {
+  const fitted = { ...buffers };
+  Object.keys(fitted).map(Number).forEach(i => {
+    fitted[i] = shapeSegmentBuffer(fitted[i], fits[i]?.rate ?? 1, pitches[i] ?? 0);
+  });
+  return fitted;
+};
+
+// Mixes every segment at its startTime into one track covering the whole video.
+// Renders as fast as the machine allows, independent of playback.
+export const renderDubTrack = async (
+  segments: DubbingSegment[],
+  buffers: { [index: number]: AudioBuffer },
+  durationSeconds: number
+): Promise<AudioBuffer> => {
+  const length = Math.max(1, Math.ceil(durationSeconds * RENDER_SAMPLE_RATE));
+  const ctx = new OfflineAudioContext(RENDER_CHANNELS, length, RENDER_SAMPLE_RATE);
+
+  segments.forEach((seg, i) => {
+    const buffer = buffers[i];
+    if (!buffer || seg.startTime >= durationSeconds) return;
+
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(ctx.destination);
+    source.start(seg.startTime);
+  });
+
+  return ctx.startRendering();
+};
+
+// When dub lines are audible, merged where they overlap or touch
+export const dubIntervals = (
+  segments: DubbingSegment[],
+  buffers: { [index: number]: AudioBuffer }
+): [number, number][] => {
+  const intervals = segments
+    .map((seg, i): [number, number] | null => (buffers[i] ? [seg.startTime, seg.startTime + buffers[i].duration] : null))
+    .filter((interval): interval is [number, number] => interval !== null)
+    .sort((a, b) => a[0] - b[0]);
+
+  const merged: [number, number][] = [];
+  intervals.forEach(([start, end]) => {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  });
+  return merged;
+};
+
+// The full soundtrack of an exported video: the original audio, ducked under the dub
+// lines, plus the lines themselves, all at the player's mixer settings
+export const renderExportMix = async (
+  segments: DubbingSegment[],
+  buffers: { [index: number]: AudioBuffer },
+  durationSeconds: number,
+  mix: MixSettings,
+  original: AudioBuffer | null
+): Promise<AudioBuffer> => {
+  const length = Math.max(1, Math.ceil(durationSeconds * RENDER_SAMPLE_RATE));
+  const ctx = new OfflineAudioContext(RENDER_CHANNELS, length, RENDER_SAMPLE_RATE);
+
+  const masterGain = ctx.createGain();
+  masterGain.gain.value = mix.masterVolume;
+  masterGain.connect(ctx.destination);
+
+  const dubGain = ctx.createGain();
+  dubGain.gain.value = mix.dubVolume;
+  dubGain.connect(masterGain);
+
+  if (original) {
+    const originalGain = ctx.createGain();
+    scheduleDucking(originalGain.gain, mix, dubIntervals(segments, buffers));
+    originalGain.connect(masterGain);
+
+    const source = ctx.createBufferSource();
+    source.buffer = original;
+    source.connect(originalGain);
+    source.start(0);
+  }
+
+  segments.forEach((seg, i) => {
+    const buffer = buffers[i];
+    if (!buffer || seg.startTime >= durationSeconds) return;
+
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(dubGain);
+    source.start(seg.startTime);
+  });
+
+  return ctx.startRendering();
+};
+
+export const renderDubTrackWav = async (
+  segments: DubbingSegment[],
+  buffers: { [index: number]: AudioBuffer },
+  durationSeconds: number
+): Promise<Blob> => {
+  const rendered = await renderDubTrack(segments, buffers, durationSeconds);
+  return audioBufferToWav(rendered);
+};
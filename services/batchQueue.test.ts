@@ -0,0 +1,125 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { BatchItemStatus, BatchQueue, BatchSettings, createBatchQueue } from './batchQueue';
+import { createMockProviders } from './mockProvider';
+import { createRequestScheduler } from './ttsQueue';
+import { DubbingProviders, ScriptRequest } from './providers';
+
+const video = (name: string) => new File([new Uint8Array(4)], name, { type: 'video/mp4' });
+
+// A promise settled from outside, to hold a provider call mid-flight
+const deferred = () => {
+  let resolve!: () => void;
+  const promise = new Promise<void>(r => (resolve = r));
+  return { promise, resolve };
+};
+
+describe('batch queue', () => {
+  let providers: DubbingProviders;
+  let settings: BatchSettings;
+  let queue: BatchQueue;
+  const statuses = () => queue.getItems().map(item => item.status);
+
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    providers = createMockProviders({ latencyMs: 0 });
+    settings = { instructions: 'Narrate', cast: [] };
+    queue = createBatchQueue({
+      providers: () => providers,
+      settings: () => settings,
+      scheduler: createRequestScheduler({ maxRetries: 0 }),
+      paused: true
+    });
+  });
+
+  it('waits to be started, then dubs every item', async () => {
+    queue.add([video('a.mp4'), video('b.mp4')]);
+    expect(statuses()).toEqual(['queued', 'queued']);
+
+    queue.setPaused(false);
+    await vi.waitFor(() => expect(statuses()).toEqual(['done', 'done']));
+    expect(queue.getItems()[0].segments).toHaveLength(5);
+    expect(queue.getItems()[0].lines).toHaveLength(5);
+  });
+
+  it('scripts one video at a time, and the next while the last one voices', async () => {
+    const voicing = deferred();
+    const synthesize = providers.speech.synthesize;
+    providers.speech.synthesize = async request => {
+      await voicing.promise;
+      return synthesize(request);
+    };
+    const seen: BatchItemStatus[][] = [];
+    queue.subscribe(() => seen.push(statuses()));
+
+    queue.add([video('a.mp4'), video('b.mp4'), video('c.mp4')]);
+    queue.setPaused(false);
+
+    await vi.waitFor(() => expect(statuses()).toEqual(['voicing', 'voicing', 'voicing']));
+    expect(seen.every(s => s.filter(status => status === 'scripting').length <= 1)).toBe(true);
+
+    voicing.resolve();
+    await vi.waitFor(() => expect(statuses()).toEqual(['done', 'done', 'done']));
+  });
+
+  it('uses an item\'s own instructions over the shared ones', async () => {
+    const generateScript = vi.spyOn(providers.script, 'generateScript');
+    queue.add([video('a.mp4'), video('b.mp4')]);
+    const [, second] = queue.getItems();
+    queue.setInstructions(second.id, 'Pirate voices');
+    queue.setPaused(false);
+
+    await vi.waitFor(() => expect(statuses()).toEqual(['done', 'done']));
+    expect(generateScript.mock.calls.map(([request]) => request.instructions)).toEqual(['Narrate', 'Pirate voices']);
+  });
+
+  it('keeps voices for characters met earlier in the batch', async () => {
+    const casts: ScriptRequest['cast'][] = [];
+    const generateScript = providers.script.generateScript;
+    providers.script.generateScript = request => {
+      casts.push(request.cast);
+      return generateScript(request);
+    };
+    const onCast = vi.fn();
+    queue = createBatchQueue({ providers: () => providers, settings: () => settings, onCast });
+
+    queue.add([video('a.mp4'), video('b.mp4')]);
+    await vi.waitFor(() => expect(statuses()).toEqual(['done', 'done']));
+
+    expect(casts[0]).toEqual([]);
+    expect(casts[1].map(c => c.characterId)).toEqual(['narrator', 'blue_cat', 'yellow_dog']);
+    expect(onCast).toHaveBeenCalledTimes(1);
+    expect(queue.getItems()[1].cast).toEqual(casts[1]);
+  });
+
+  it('marks a failed item and carries on, and can retry it', async () => {
+    const generateScript = providers.script.generateScript;
+    providers.script.generateScript = vi.fn()
+      .mockRejectedValueOnce(new Error('Quota exceeded'))
+      .mockImplementation(generateScript);
+
+    queue.add([video('a.mp4'), video('b.mp4')]);
+    queue.setPaused(false);
+    await vi.waitFor(() => expect(statuses()).toEqual(['failed', 'done']));
+    expect(queue.getItems()[0].error).toBe('Quota exceeded');
+
+    queue.retry(queue.getItems()[0].id);
+    await vi.waitFor(() => expect(statuses()).toEqual(['done', 'done']));
+  });
+
+  it('cancels a running item without stopping the rest', async () => {
+    const held = deferred();
+    providers.script.generateScript = vi.fn(async ({ signal }: ScriptRequest) => {
+      await Promise.race([held.promise, new Promise((_, reject) => signal!.addEventListener('abort', () => reject(signal!.reason)))]);
+      return [{ startTime: 0, text: 'Hi', characterId: 'narrator', characterNote: '' }];
+    });
+
+    queue.add([video('a.mp4'), video('b.mp4')]);
+    queue.setPaused(false);
+    await vi.waitFor(() => expect(statuses()).toEqual(['scripting', 'queued']));
+
+    queue.cancel(queue.getItems()[0].id);
+    held.resolve();
+    await vi.waitFor(() => expect(statuses()).toEqual(['failed', 'done']));
+    expect(queue.getItems()[0].error).toBe('Cancelled.');
+  });
+});
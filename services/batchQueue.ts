@@ -0,0 +1,198 @@
+import { DubbingSegment, ScriptLine, SegmentFailure, VoiceInstruction } from "../types";
+import {
+  defaultTtsScheduler, DEFAULT_INSTRUCTIONS, draftScript, PipelineProgress, voiceScript
+} from "./dubbingPipeline";
+import { syncCast } from "./cast";
+import { abortError, isAbortError } from "./abort";
+import type { RequestScheduler } from "./ttsQueue";
+import type { DubbingProviders, TranslationRequest } from "./providers";
+
+// Dubs a list of videos in the background, straight through without a review step.
+// One video is scripted at a time; the next one starts scripting as soon as the previous
+// one moves on to voicing. Every item voices through the same scheduler as the rest of
+// the app, so however many videos are voicing, the TTS rate limit is respected as one.
+
+export type BatchItemStatus = 'queued' | 'scripting' | 'voicing' | 'done' | 'failed';
+
+export interface BatchItem {
+  id: string;
+  file: File;
+  instructions: string | null; // null: use the shared instructions
+  status: BatchItemStatus;
+  progress: PipelineProgress | null;
+  lines: ScriptLine[];
+  segments: DubbingSegment[];
+  cast: VoiceInstruction[]; // the cast it was voiced with
+  failures: SegmentFailure[]; // lines that could not be voiced
+  warnings: string[];
+  error?: string;
+}
+
+// The settings an item is dubbed with, read when it starts
+export interface BatchSettings {
+  instructions: string;
+  translation?: TranslationRequest;
+  cast: VoiceInstruction[];
+  dialogue?: boolean; // voice two-speaker exchanges in one take, on unless false
+}
+
+export interface BatchQueueOptions {
+  providers: () => DubbingProviders;
+  settings: () => BatchSettings;
+  readDuration?: (file: File) => Promise<number | undefined>;
+  scheduler?: RequestScheduler;
+  paused?: boolean; // start paused, so items can be given their own instructions first
+  onCast?: (cast: VoiceInstruction[]) => void; // an item brought in new characters
+}
+
+export interface BatchQueue {
+  add(files: File[]): void;
+  setPaused(paused: boolean): void; // while paused no new item starts; running ones finish
+  setInstructions(id: string, instructions: string | null): void; // items waiting to run
+  cancel(id: string): void; // stops a running item; it is marked failed and can be retried
+  retry(id: string): void;
+  remove(id: string): void;
+  clearFinished(): void;
+  getItems(): BatchItem[]; // a new array whenever anything changes
+  subscribe(listener: () => void): () => void;
+}
+
+const createItemId = (): string => Math.random().toString(36).slice(2, 10);
+
+const isRunning = (item: BatchItem) => item.status === 'scripting' || item.status === 'voicing';
+
+export const createBatchQueue = (options: BatchQueueOptions): BatchQueue => {
+  const scheduler = options.scheduler || defaultTtsScheduler;
+  const listeners = new Set<() => void>();
+  const controllers = new Map<string, AbortController>();
+  let items: BatchItem[] = [];
+  let paused = !!options.paused;
+  // Characters met earlier in the batch, so they keep their voices in later items
+  let learnedCast: VoiceInstruction[] = [];
+
+  const notify = () => listeners.forEach(listener => listener());
+
+  const update = (id: string, fields: Partial<BatchItem>) => {
+    items = items.map(item => (item.id === id ? { ...item, ...fields } : item));
+    notify();
+  };
+
+  const find = (id: string) => items.find(item => item.id === id);
+
+  const run = async (id: string) => {
+    const controller = new AbortController();
+    controllers.set(id, controller);
+    const { signal } = controller;
+    update(id, { status: 'scripting', progress: null, error: undefined, warnings: [], failures: [] });
+
+    try {
+      const item = find(id)!;
+      const settings = options.settings();
+      const providers = options.providers();
+      const instructions = (item.instructions ?? settings.instructions).trim();
+      const startCast = [
+        ...settings.cast,
+        ...learnedCast.filter(c => !settings.cast.some(s => s.characterId === c.characterId))
+      ];
+
+      const lines = await draftScript(
+        providers,
+        item.file,
+        settings.translation ? instructions : instructions || DEFAULT_INSTRUCTIONS,
+        startCast,
+        {
+          signal,
+          translation: settings.translation,
+          videoDuration: await options.readDuration?.(item.file),
+          onProgress: progress => update(id, { progress }),
+          onWarning: message => update(id, { warnings: [...(find(id)?.warnings || []), message] })
+        }
+      );
+
+      const cast = syncCast(startCast, lines);
+      if (cast !== startCast) {
+        learnedCast = [...learnedCast, ...cast.filter(c => !startCast.includes(c))];
+        options.onCast?.(cast);
+      }
+      update(id, { status: 'voicing', lines, cast, progress: null });
+      pump();
+
+      const { lines: placed, segments, failures, cancelled } = await voiceScript(providers, lines, cast, {
+        signal,
+        scheduler,
+        dialogue: settings.dialogue,
+        onProgress: progress => update(id, { progress })
+      });
+      if (cancelled) throw abortError();
+      update(id, { status: 'done', lines: placed, segments, failures, progress: null });
+    } catch (e: any) {
+      if (!find(id)) return; // removed while running
+      update(id, {
+        status: 'failed',
+        progress: null,
+        error: isAbortError(e) ? "Cancelled." : e?.message || "Something went wrong while dubbing this video."
+      });
+    } finally {
+      controllers.delete(id);
+      pump();
+    }
+  };
+
+  // Starts the next queued item once nothing is scripting
+  const pump = () => {
+    if (paused || items.some(item => item.status === 'scripting')) return;
+    const next = items.find(item => item.status === 'queued');
+    if (next) run(next.id);
+  };
+
+  return {
+    add: (files) => {
+      items = [...items, ...files.map(file => ({
+        id: createItemId(),
+        file,
+        instructions: null,
+        status: 'queued' as BatchItemStatus,
+        progress: null,
+        lines: [],
+        segments: [],
+        cast: [],
+        failures: [],
+        warnings: []
+      }))];
+      notify();
+      pump();
+    },
+    setPaused: (value) => {
+      paused = value;
+      pump();
+    },
+    setInstructions: (id, instructions) => {
+      const item = find(id);
+      if (item && !isRunning(item) && item.status !== 'done') update(id, { instructions });
+    },
+    cancel: (id) => controllers.get(id)?.abort(),
+    retry: (id) => {
+      const item = find(id);
+      if (!item || isRunning(item) || item.status === 'queued') return;
+      update(id, { status: 'queued', error: undefined, segments: [], lines: [] });
+      pump();
+    },
+    remove: (id) => {
+      controllers.get(id)?.abort();
+      items = items.filter(item => item.id !== id);
+      notify();
+      pump();
+    },
+    clearFinished: () => {
+      items = items.filter(item => item.status !== 'done' && item.status !== 'failed');
+      notify();
+    },
+    getItems: () => items,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+};
@@ -0,0 +1,68 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  captionAt, DEFAULT_CAPTION_STYLE, loadCaptionStyle, saveCaptionStyle, spokenWordCount, wrapCaption
+} from './captionRenderer';
+import { DubbingSegment } from '../types';
+
+const segment = (id: string, startTime: number, duration: number, text: string): DubbingSegment =>
+  ({ id, characterId: 'narrator', startTime, text, audioUrl: `audio:${id}`, duration });
+
+describe('captionAt', () => {
+  const segments = [segment('a', 1, 2, 'Hello there'), segment('b', 5, 2, 'Bye')];
+
+  it('reports how far through its audio the line on screen is', () => {
+    expect(captionAt(segments, 0.5)).toBeNull();
+    expect(captionAt(segments, 2)).toEqual({ text: 'Hello there', spoken: 0.5 });
+    expect(captionAt(segments, 4.5)).toEqual({ text: 'Hello there', spoken: 1 });
+  });
+
+  it('follows the faster audio of a line the sync plan speeds up', () => {
+    const fits = [{ id: 'a', available: 1, rate: 2, overrun: 0 }];
+    expect(captionAt(segments, 1.5)?.spoken).toBe(0.25);
+    expect(captionAt(segments, 1.5, fits)?.spoken).toBe(0.5);
+  });
+});
+
+describe('spokenWordCount', () => {
+  it('counts the words started so far, weighted by length', () => {
+    const words = ['I', 'understand', 'it'];
+    expect(spokenWordCount(words, 0)).toBe(0);
+    expect(spokenWordCount(words, 0.1)).toBe(1);
+    expect(spokenWordCount(words, 0.5)).toBe(2);
+    expect(spokenWordCount(words, 0.8)).toBe(2);
+    expect(spokenWordCount(words, 0.9)).toBe(3);
+  });
+});
+
+describe('wrapCaption', () => {
+  // One unit per character
+  const measure = (text: string) => text.length;
+
+  it('fills each line as far as the width allows', () => {
+    const words = ['one', 'two', 'three', 'four'];
+    expect(wrapCaption(words, 10, measure)).toEqual([[0, 1], [2, 3]]);
+    expect(wrapCaption(words, 100, measure)).toEqual([[0, 1, 2, 3]]);
+  });
+
+  it('puts a word wider than the line on a line of its own', () => {
+    expect(wrapCaption(['a', 'enormous', 'b'], 4, measure)).toEqual([[0], [1], [2]]);
+  });
+});
+
+describe('caption style storage', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('falls back to the defaults and fills in fields added since saving', () => {
+    expect(loadCaptionStyle()).toEqual(DEFAULT_CAPTION_STYLE);
+
+    localStorage.setItem('dubai_caption_style', JSON.stringify({ fontSize: 8 }));
+    expect(loadCaptionStyle()).toEqual({ ...DEFAULT_CAPTION_STYLE, fontSize: 8 });
+  });
+
+  it('round-trips a saved style', () => {
+    saveCaptionStyle({ ...DEFAULT_CAPTION_STYLE, karaoke: true, position: 'top' });
+    expect(loadCaptionStyle()).toMatchObject({ karaoke: true, position: 'top' });
+  });
+});
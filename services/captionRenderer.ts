@@ -0,0 +1,154 @@
+import { CaptionStyle, DubbingSegment } from "../types";
+import { findActiveCaption } from "./playbackSync";
+import type { SegmentFit } from "./syncPlan";
+
+// Draws captions onto a canvas. The preview overlay and both export paths call the
+// same function, so what is previewed is what gets burned in.
+
+export const DEFAULT_CAPTION_STYLE: CaptionStyle = {
+  burnIn: true,
+  fontFamily: 'Inter, sans-serif',
+  fontSize: 5,
+  bold: true,
+  textColor: '#ffffff',
+  highlightColor: '#34d399', // emerald-400
+  boxColor: '#000000',
+  boxOpacity: 0.7,
+  position: 'bottom',
+  margin: 6,
+  karaoke: false
+};
+
+export const CAPTION_FONTS = [
+  { label: 'Inter', value: 'Inter, sans-serif' },
+  { label: 'Arial', value: 'Arial, sans-serif' },
+  { label: 'Georgia', value: 'Georgia, serif' },
+  { label: 'Courier', value: '"Courier New", monospace' },
+  { label: 'Impact', value: 'Impact, sans-serif' }
+];
+
+const CAPTION_STYLE_STORAGE_KEY = 'dubai_caption_style';
+const LINE_HEIGHT = 1.25; // in ems
+const BOX_PADDING = 0.35; // in ems
+
+export const loadCaptionStyle = (): CaptionStyle => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(CAPTION_STYLE_STORAGE_KEY) || '{}');
+    return { ...DEFAULT_CAPTION_STYLE, ...(saved && typeof saved === 'object' ? saved : {}) };
+  } catch (e) {
+    console.error("Failed to read saved caption style", e);
+    return DEFAULT_CAPTION_STYLE;
+  }
+};
+
+export const saveCaptionStyle = (style: CaptionStyle) => {
+  localStorage.setItem(CAPTION_STYLE_STORAGE_KEY, JSON.stringify(style));
+};
+
+export interface CaptionFrame {
+  text: string;
+  spoken: number; // 0..1, how far through its audio the line is
+}
+
+// The caption on screen at `time`. A line's audio runs for its duration, divided by
+// its rate when the sync plan speeds it up.
+export const captionAt = (segments: DubbingSegment[], time: number, fits: SegmentFit[] = []): CaptionFrame | null => {
+  const segment = findActiveCaption(segments, time);
+  if (!segment) return null;
+  const rate = fits[segments.indexOf(segment)]?.rate ?? 1;
+  const audioSeconds = segment.duration / rate;
+  const spoken = audioSeconds > 0 ? (time - segment.startTime) / audioSeconds : 1;
+  return { text: segment.text, spoken: Math.min(1, Math.max(0, spoken)) };
+};
+
+// How many words have started once `spoken` of the audio has played, so a word lights
+// up as it is said. Longer words take longer to say, so each is weighted by its length.
+export const spokenWordCount = (words: string[], spoken: number): number => {
+  const weights = words.map(w => w.length + 1);
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  let elapsed = spoken * total;
+  let count = 0;
+  for (const weight of weights) {
+    if (elapsed <= 0) break;
+    elapsed -= weight;
+    count++;
+  }
+  return count;
+};
+
+// Greedy word wrap. Returns word indexes per line, so colouring can follow the words.
+export const wrapCaption = (words: string[], maxWidth: number, measure: (text: string) => number): number[][] => {
+  const lines: number[][] = [];
+  let current: number[] = [];
+  words.forEach((word, i) => {
+    const candidate = [...current.map(j => words[j]), word].join(' ');
+    if (current.length > 0 && measure(candidate) > maxWidth) {
+      lines.push(current);
+      current = [];
+    }
+    current.push(i);
+  });
+  if (current.length > 0) lines.push(current);
+  return lines;
+};
+
+// Hex colour plus opacity as an rgba() string
+const withOpacity = (hex: string, opacity: number): string => {
+  const value = parseInt(hex.replace('#', '').padEnd(6, '0').slice(0, 6), 16);
+  return `rgba(${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255}, ${opacity})`;
+};
+
+export const drawCaption = (
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  width: number,
+  height: number,
+  caption: CaptionFrame | null,
+  style: CaptionStyle
+) => {
+  if (!caption || !caption.text.trim()) return;
+
+  const fontSize = Math.max(8, (style.fontSize / 100) * height);
+  const marginX = (style.margin / 100) * width;
+  const marginY = (style.margin / 100) * height;
+  const padding = BOX_PADDING * fontSize;
+  const lineHeight = LINE_HEIGHT * fontSize;
+
+  ctx.save();
+  ctx.font = `${style.bold ? 'bold ' : ''}${fontSize}px ${style.fontFamily}`;
+  ctx.textBaseline = 'middle';
+  ctx.textAlign = 'left';
+
+  const words = caption.text.trim().split(/\s+/);
+  const space = ctx.measureText(' ').width;
+  const lines = wrapCaption(words, width - 2 * marginX - 2 * padding, text => ctx.measureText(text).width);
+  const highlighted = style.karaoke ? spokenWordCount(words, caption.spoken) : 0;
+
+  const blockHeight = lines.length * lineHeight;
+  const top = style.position === 'top'
+    ? marginY + padding
+    : style.position === 'middle'
+      ? (height - blockHeight) / 2
+      : height - marginY - padding - blockHeight;
+
+  lines.forEach((line, row) => {
+    const text = line.map(i => words[i]).join(' ');
+    const lineWidth = ctx.measureText(text).width;
+    const x = (width - lineWidth) / 2;
+    const y = top + row * lineHeight;
+
+    if (style.boxOpacity > 0) {
+      ctx.fillStyle = withOpacity(style.boxColor, style.boxOpacity);
+      ctx.fillRect(x - padding, y - (row === 0 ? padding : 0), lineWidth + 2 * padding,
+        lineHeight + (row === 0 ? padding : 0) + (row === lines.length - 1 ? padding : 0));
+    }
+
+    let wordX = x;
+    line.forEach(i => {
+      ctx.fillStyle = i < highlighted ? style.highlightColor : style.textColor;
+      ctx.fillText(words[i], wordX, y + lineHeight / 2);
+      wordX += ctx.measureText(words[i]).width + space;
+    });
+  });
+
+  ctx.restore();
+};
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { characterNameFromId, normalizeCharacterId, selectVoice, syncCast } from './cast';
+import { createScriptLine } from './script';
+import { VoiceInstruction } from '../types';
+
+const blueCat: VoiceInstruction = { characterId: 'blue_cat', character: 'Blue cat', voiceName: 'Leda', voiceDescription: 'soft little girl voice' };
+
+describe('selectVoice', () => {
+  it('returns the cast assignment for the character', () => {
+    expect(selectVoice('blue_cat', [blueCat])).toBe(blueCat);
+  });
+
+  it('falls back to the default voice for unknown characters', () => {
+    expect(selectVoice('yellow_dog', [blueCat])).toEqual({
+      characterId: 'yellow_dog', character: 'Yellow dog', voiceName: 'Puck', voiceDescription: ''
+    });
+  });
+});
+
+describe('syncCast', () => {
+  it('adds new characters with distinct voices and keeps existing ones', () => {
+    const lines = [
+      createScriptLine({ characterId: 'blue_cat', text: 'Meow' }),
+      createScriptLine({ characterId: 'narrator', text: 'Once upon a time' }),
+      createScriptLine({ characterId: 'yellow_dog', text: 'Woof' })
+    ];
+
+    const cast = syncCast([blueCat], lines);
+
+    expect(cast[0]).toBe(blueCat);
+    expect(cast.map(c => c.characterId)).toEqual(['blue_cat', 'narrator', 'yellow_dog']);
+    expect(new Set(cast.map(c => c.voiceName)).size).toBe(3);
+  });
+
+  it('casts voices that match the character\'s name and notes', () => {
+    const lines = [
+      createScriptLine({ characterId: 'old_pirate', text: 'Arr', characterNote: 'gruff' }),
+      createScriptLine({ characterId: 'little_girl', text: 'Hello!' }),
+      createScriptLine({ characterId: 'old_pirate', text: 'Ahoy', characterNote: 'shouting' })
+    ];
+
+    const cast = syncCast([], lines);
+
+    expect(cast.map(c => c.voiceName)).toEqual(['Algenib', 'Leda']);
+  });
+
+  it('does not hand the same voice to two characters that fit it', () => {
+    const lines = [
+      createScriptLine({ characterId: 'narrator' }),
+      createScriptLine({ characterId: 'second_narrator' })
+    ];
+    const [first, second] = syncCast([], lines);
+    expect(first.voiceName).not.toBe(second.voiceName);
+  });
+
+  it('returns the same array when nothing is missing', () => {
+    const cast = [blueCat];
+    expect(syncCast(cast, [createScriptLine({ characterId: 'blue_cat' })])).toBe(cast);
+  });
+});
+
+describe('character ids', () => {
+  it('normalises free text into snake_case', () => {
+    expect(normalizeCharacterId(' Blue Cat! ')).toBe('blue_cat');
+    expect(normalizeCharacterId('')).toBe('narrator');
+  });
+
+  it('derives a display name', () => {
+    expect(characterNameFromId('blue_cat')).toBe('Blue cat');
+  });
+});
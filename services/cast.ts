@@ -0,0 +1,75 @@
+import { ScriptLine, VoiceInstruction } from "../types";
+import { DEFAULT_VOICE, GEMINI_VOICES, searchVoices, VOICE_LIBRARY } from "./voices";
+import { readVoiceEffects } from "./voiceEffects";
+
+const CAST_STORAGE_KEY = 'dubai_cast';
+
+// Voices handed out, in order, to new characters that match no voice by description
+const VOICE_ROTATION = ['Puck', 'Kore', 'Charon', 'Fenrir', 'Aoede', 'Orus', 'Leda', 'Zephyr'];
+
+// "blue_cat" -> "Blue cat"
+export const characterNameFromId = (characterId: string): string => {
+  const words = characterId.replace(/[_-]+/g, ' ').trim();
+  return words ? words.charAt(0).toUpperCase() + words.slice(1) : 'Unknown';
+};
+
+// Normalises whatever the model or the user typed into a stable id
+export const normalizeCharacterId = (value: string): string =>
+  value.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'narrator';
+
+// The best unused voice for a description, else the next unused one in the rotation
+const nextFreeVoice = (cast: VoiceInstruction[], description: string): string => {
+  const used = new Set(cast.map(c => c.voiceName));
+  const [match] = searchVoices(description, VOICE_LIBRARY.filter(v => !used.has(v.name)));
+  if (match) return match.name;
+  return VOICE_ROTATION.find(v => !used.has(v)) || VOICE_ROTATION[cast.length % VOICE_ROTATION.length];
+};
+
+// Adds a cast entry for every character in the script that has none yet, with a voice
+// chosen from the character's name and the notes on their lines ("old_pirate", "gruff").
+// Existing assignments are never touched.
+export const syncCast = (cast: VoiceInstruction[], lines: ScriptLine[]): VoiceInstruction[] => {
+  const next = [...cast];
+  for (const line of lines) {
+    if (!line.characterId || next.some(c => c.characterId === line.characterId)) continue;
+    const character = characterNameFromId(line.characterId);
+    const notes = lines.filter(l => l.characterId === line.characterId).map(l => l.characterNote);
+    next.push({
+      characterId: line.characterId,
+      character,
+      voiceName: nextFreeVoice(next, [character, ...notes].join(' ')),
+      voiceDescription: ""
+    });
+  }
+  return next.length === cast.length ? cast : next;
+};
+
+export const selectVoice = (characterId: string, cast: VoiceInstruction[]): VoiceInstruction => {
+  return cast.find(c => c.characterId === characterId) || {
+    characterId,
+    character: characterNameFromId(characterId),
+    voiceName: DEFAULT_VOICE,
+    voiceDescription: ""
+  };
+};
+
+export const loadCast = (): VoiceInstruction[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(CAST_STORAGE_KEY) || '[]');
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter((c: any) => c && typeof c.characterId === 'string').map((c: any) => ({
+      characterId: c.characterId,
+      character: c.character || characterNameFromId(c.characterId),
+      voiceName: GEMINI_VOICES.includes(c.voiceName) ? c.voiceName : DEFAULT_VOICE,
+      voiceDescription: c.voiceDescription || "",
+      effects: readVoiceEffects(c.effects)
+    }));
+  } catch (e) {
+    console.error("Failed to read saved cast", e);
+    return [];
+  }
+};
+
+export const saveCast = (cast: VoiceInstruction[]) => {
+  localStorage.setItem(CAST_STORAGE_KEY, JSON.stringify(cast));
+};
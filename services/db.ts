@@ -0,0 +1,63 @@
+// Thin promise wrapper around the app's IndexedDB database
+
+const DB_NAME = 'dubai';
+const DB_VERSION = 2;
+
+export const PROJECTS_STORE = 'projects';
+export const CACHE_STORE = 'cache'; // since version 2
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+          db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(CACHE_STORE)) {
+          db.createObjectStore(CACHE_STORE, { keyPath: 'key' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const dbGet = async <T>(store: string, key: IDBValidKey): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return promisify(db.transaction(store, 'readonly').objectStore(store).get(key));
+};
+
+export const dbGetAll = async <T>(store: string): Promise<T[]> => {
+  const db = await openDatabase();
+  return promisify(db.transaction(store, 'readonly').objectStore(store).getAll());
+};
+
+export const dbPut = async <T>(store: string, value: T): Promise<void> => {
+  const db = await openDatabase();
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).put(value));
+};
+
+export const dbDelete = async (store: string, key: IDBValidKey): Promise<void> => {
+  const db = await openDatabase();
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).delete(key));
+};
+
+export const dbClear = async (store: string): Promise<void> => {
+  const db = await openDatabase();
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).clear());
+};
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { createScriptLine } from './script';
+import { groupDialogue, placeDialogue, splitDialogue } from './dialogue';
+import { SynthesizedSpeech } from './providers';
+
+const SAMPLE_RATE = 24000;
+
+const line = (characterId: string, startTime: number, text = 'Hello there') =>
+  createScriptLine({ characterId, startTime, text });
+
+// A take built from [seconds of tone, seconds of silence, ...], starting with a tone
+const take = (...parts: number[]): SynthesizedSpeech => {
+  const samples = new Int16Array(Math.round(parts.reduce((a, b) => a + b, 0) * SAMPLE_RATE));
+  let offset = 0;
+  parts.forEach((seconds, i) => {
+    const length = Math.round(seconds * SAMPLE_RATE);
+    if (i % 2 === 0) {
+      for (let j = 0; j < length; j++) samples[offset + j] = Math.round(Math.sin(j / 5) * 8000);
+    }
+    offset += length;
+  });
+  return { pcm: new Uint8Array(samples.buffer), sampleRate: SAMPLE_RATE };
+};
+
+const seconds = (speech: SynthesizedSpeech) => speech.pcm.length / 2 / speech.sampleRate;
+
+describe('groupDialogue', () => {
+  it('groups a quick exchange between two characters', () => {
+    const lines = [line('cat', 0), line('dog', 2), line('cat', 4), line('narrator', 20)];
+    expect(groupDialogue(lines).map(g => g.map(l => l.characterId))).toEqual([['cat', 'dog', 'cat'], ['narrator']]);
+  });
+
+  it('breaks the exchange when a third character speaks or the gap is long', () => {
+    const lines = [line('cat', 0), line('dog', 2), line('owl', 4), line('dog', 5), line('owl', 30)];
+    expect(groupDialogue(lines).map(g => g.map(l => l.characterId))).toEqual([['cat', 'dog'], ['owl', 'dog'], ['owl']]);
+  });
+
+  it('leaves a monologue as single lines', () => {
+    const lines = [line('narrator', 0), line('narrator', 2)];
+    expect(groupDialogue(lines)).toEqual([[lines[0]], [lines[1]]]);
+  });
+
+  it('caps how many turns go in one take', () => {
+    const lines = Array.from({ length: 10 }, (_, i) => line(i % 2 ? 'cat' : 'dog', i));
+    expect(groupDialogue(lines).map(g => g.length)).toEqual([8, 2]);
+  });
+});
+
+describe('splitDialogue', () => {
+  it('cuts the take at the pauses between turns', () => {
+    const pieces = splitDialogue(take(0.2, 0.5, 1, 0.5, 0.6, 0.3), ['Hi', 'How are you today?', 'Fine'])!;
+
+    expect(pieces.map(p => p.offset)).toEqual([0, 0.67, 2.17].map(n => expect.closeTo(n, 2)));
+    expect(pieces.map(p => seconds(p.speech))).toEqual([0.23, 1.06, 0.66].map(n => expect.closeTo(n, 2)));
+  });
+
+  it('keeps a pause inside a turn, going by the length of the text', () => {
+    // The second turn has a shorter breath in its middle
+    const pieces = splitDialogue(take(0.4, 0.4, 0.8, 0.2, 0.8, 0.4, 0.4), [
+      'One two three',
+      'Four five six seven eight, nine ten eleven twelve thirteen',
+      'Fourteen'
+    ])!;
+
+    expect(pieces.map(p => p.offset)).toEqual([0, 0.77, 2.97].map(n => expect.closeTo(n, 2)));
+  });
+
+  it('gives up when there are fewer pauses than turns', () => {
+    expect(splitDialogue(take(1, 0.3, 1), ['A', 'B', 'C'])).toBeNull();
+    expect(splitDialogue(take(0, 1), ['A', 'B'])).toBeNull();
+  });
+});
+
+describe('placeDialogue', () => {
+  it('keeps the scripted start of each line', () => {
+    const run = [line('cat', 0), line('dog', 2), line('cat', 4)];
+    const placed = placeDialogue(run, take(0.5, 0.3, 0.5, 0.3, 0.5))!;
+
+    expect(placed.map(p => p.line.startTime)).toEqual([0, 2, 4]);
+    expect(placed.map(p => p.line.id)).toEqual(run.map(l => l.id));
+  });
+
+  it('holds a line back until the turn before it has been heard', () => {
+    // The first turn runs long, pushing the second past the time it had to end by
+    const run = [line('cat', 3), { ...line('dog', 3.5), endTime: 4 }, { ...line('cat', 6), endTime: 9 }];
+    const placed = placeDialogue(run, take(1, 0.5, 0.5, 0.5, 0.5))!;
+
+    expect(placed.map(p => p.line.startTime)).toEqual([3, 4.03, 6]);
+    expect(placed[1].line).not.toHaveProperty('endTime');
+    expect(placed[2].line.endTime).toBe(9);
+  });
+});
@@ -0,0 +1,168 @@
+import { ScriptLine } from "../types";
+import { pcmSamples, speechDuration } from "./pcmMix";
+import type { SynthesizedSpeech } from "./providers";
+
+// Back-and-forth exchanges between two characters are voiced as one multi-speaker take,
+// so they sound like a conversation instead of lines recorded apart, for one request
+// instead of several. The take is then cut back into lines at the pauses between turns.
+
+// Lines closer than this, start to start, belong to the same exchange
+const MAX_TURN_GAP_SECONDS = 5;
+// The more turns in a take, the more pauses there are to confuse with turn changes
+const MAX_DIALOGUE_TURNS = 8;
+
+const FRAME_SECONDS = 0.01;
+const SILENCE_DB = -35; // below the loudest frame
+const MIN_PAUSE_SECONDS = 0.12;
+const EDGE_PAD_SECONDS = 0.03; // kept either side of a cut, for soft onsets and tails
+
+// Splits lines, in script order, into exchanges to voice together (two or more lines
+// between exactly two characters, each following the last closely) and single lines
+export const groupDialogue = (lines: ScriptLine[]): ScriptLine[][] => {
+  const groups: ScriptLine[][] = [];
+  let run: ScriptLine[] = [];
+
+  const close = () => {
+    if (run.length >= 2 && new Set(run.map(l => l.characterId)).size === 2) {
+      groups.push(run);
+    } else {
+      run.forEach(line => groups.push([line]));
+    }
+    run = [];
+  };
+
+  lines.forEach(line => {
+    const last = run[run.length - 1];
+    const speakers = new Set([...run.map(l => l.characterId), line.characterId]);
+    if (last && (
+      speakers.size > 2 ||
+      line.startTime - last.startTime > MAX_TURN_GAP_SECONDS ||
+      run.length >= MAX_DIALOGUE_TURNS
+    )) {
+      close();
+    }
+    run.push(line);
+  });
+  close();
+
+  return groups;
+};
+
+export interface DialoguePiece {
+  offset: number; // seconds from the start of the take
+  speech: SynthesizedSpeech;
+}
+
+// Cuts a take of `texts.length` turns into one piece per turn, or returns null when it
+// does not have enough pauses to tell the turns apart. Of all the pauses, the ones
+// chosen are long and close to where each turn should end going by its share of the text.
+export const splitDialogue = (speech: SynthesizedSpeech, texts: string[]): DialoguePiece[] | null => {
+  const samples = pcmSamples(speech.pcm);
+  const frame = Math.max(1, Math.round(speech.sampleRate * FRAME_SECONDS));
+  const frames = Math.floor(samples.length / frame);
+
+  const levels = new Float32Array(frames);
+  for (let f = 0; f < frames; f++) {
+    let sum = 0;
+    for (let i = f * frame; i < (f + 1) * frame; i++) sum += samples[i] * samples[i];
+    levels[f] = Math.sqrt(sum / frame);
+  }
+  const threshold = levels.reduce((max, level) => Math.max(max, level), 0) * Math.pow(10, SILENCE_DB / 20);
+  const silent = (f: number) => levels[f] <= threshold;
+
+  // The speech itself, without leading and trailing silence
+  let first = 0;
+  while (first < frames && silent(first)) first++;
+  let last = frames - 1;
+  while (last >= first && silent(last)) last--;
+  if (first > last) return null;
+
+  // Pauses inside the speech, as [first silent frame, first frame after it)
+  const minPause = Math.round(MIN_PAUSE_SECONDS / FRAME_SECONDS);
+  const pauses: [number, number][] = [];
+  for (let f = first; f <= last; f++) {
+    if (!silent(f)) continue;
+    const start = f;
+    while (f <= last && silent(f)) f++;
+    if (f - start >= minPause) pauses.push([start, f]);
+  }
+
+  const cuts = texts.length - 1;
+  if (pauses.length < cuts) return null;
+
+  // Where each turn should end, going by its share of the text
+  const span = last + 1 - first;
+  const totalChars = texts.reduce((sum, text) => sum + Math.max(1, text.length), 0);
+  let chars = 0;
+  const expected = texts.slice(0, cuts).map(text => {
+    chars += Math.max(1, text.length);
+    return first + (span * chars) / totalChars;
+  });
+  const turnFrames = span / texts.length;
+  const score = ([start, end]: [number, number], cut: number) =>
+    (end - start) / (1 + Math.abs((start + end) / 2 - expected[cut]) / turnFrames);
+
+  // Best pauses for the cuts in order: best[c][p] is the best total with cut c at pause p
+  const best: number[][] = [];
+  const from: number[][] = [];
+  for (let c = 0; c < cuts; c++) {
+    best.push([]);
+    from.push([]);
+    for (let p = 0; p < pauses.length; p++) {
+      best[c][p] = -Infinity;
+      if (p < c || pauses.length - p < cuts - c) continue;
+      if (c === 0) {
+        best[c][p] = score(pauses[p], c);
+        continue;
+      }
+      for (let q = c - 1; q < p; q++) {
+        const total = best[c - 1][q] + score(pauses[p], c);
+        if (total > best[c][p]) {
+          best[c][p] = total;
+          from[c][p] = q;
+        }
+      }
+    }
+  }
+  const chosen: [number, number][] = [];
+  if (cuts > 0) {
+    let p = best[cuts - 1].indexOf(Math.max(...best[cuts - 1]));
+    for (let c = cuts - 1; c >= 0; c--) {
+      chosen.unshift(pauses[p]);
+      p = from[c][p];
+    }
+  }
+
+  const pad = Math.round(EDGE_PAD_SECONDS * speech.sampleRate);
+  return texts.map((_, i) => {
+    const startFrame = i === 0 ? first : chosen[i - 1][1];
+    const endFrame = i === cuts ? last + 1 : chosen[i][0];
+    const start = Math.max(0, startFrame * frame - pad);
+    const end = Math.min(samples.length, endFrame * frame + pad);
+    return {
+      offset: start / speech.sampleRate,
+      speech: { pcm: speech.pcm.slice(start * 2, end * 2), sampleRate: speech.sampleRate }
+    };
+  });
+};
+
+// The lines of an exchange with their share of the take. Each keeps its scripted start
+// unless the turn before it is still being heard then, in which case it follows that turn.
+export const placeDialogue = (
+  run: ScriptLine[],
+  speech: SynthesizedSpeech
+): { line: ScriptLine; speech: SynthesizedSpeech }[] | null => {
+  const pieces = splitDialogue(speech, run.map(line => line.text));
+  if (!pieces) return null;
+
+  let previousEnd = -Infinity;
+  return run.map((line, i) => {
+    const startTime = Math.round(Math.max(line.startTime, previousEnd) * 1000) / 1000;
+    previousEnd = startTime + speechDuration(pieces[i].speech);
+    const { endTime, ...rest } = line;
+    return {
+      line: endTime !== undefined && endTime > startTime ? { ...rest, startTime, endTime } : { ...rest, startTime },
+      speech: pieces[i].speech
+    };
+  });
+};
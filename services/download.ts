@@ -0,0 +1,16 @@
+// Triggers a browser download for an in-memory file
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// "My Clip.final.mp4" -> "My Clip.final"
+export const baseFileName = (fileName: string): string =>
+  fileName.replace(/\.[^.]+$/, '') || 'dubbed_video';
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { createScriptLine } from './script';
+import { dubbedVideoFiles, DubbedVideoRecord } from './dubFiles';
+import { measureLoudness } from './loudness';
+import { pcmSamples } from './pcmMix';
+
+const tone = (seconds: number) => ({ pcm: new Uint8Array(Math.round(seconds * 24000) * 2), sampleRate: 24000 });
+
+// A 440 Hz sine at the given peak level
+const sine = (seconds: number, level: number) => {
+  const samples = new Int16Array(Math.round(seconds * 24000));
+  for (let i = 0; i < samples.length; i++) samples[i] = Math.round(Math.sin(2 * Math.PI * 440 * i / 24000) * level * 0x7fff);
+  return { pcm: new Uint8Array(samples.buffer), sampleRate: 24000 };
+};
+
+// A WAV file's samples, past the 44-byte header
+const wavSamples = (data: Uint8Array) => pcmSamples(data.slice(44));
+const loudness = (samples: Float32Array) => measureLoudness([samples], 24000);
+
+describe('dubbedVideoFiles', () => {
+  const lines = [
+    createScriptLine({ startTime: 1, text: 'Hello there', characterId: 'narrator' }),
+    createScriptLine({ startTime: 4, text: 'Meow', characterId: 'blue_cat' }),
+    createScriptLine({ startTime: 6, text: 'Never voiced', characterId: 'narrator' })
+  ];
+  const cast = [
+    { characterId: 'narrator', character: 'Narrator', voiceName: 'Puck', voiceDescription: '' },
+    { characterId: 'dog', character: 'Dog', voiceName: 'Kore', voiceDescription: '' }
+  ];
+
+  const build = () => dubbedVideoFiles({
+    video: 'clip.mp4',
+    instructions: 'Narrate',
+    cast,
+    lines,
+    failures: [{ lineId: lines[2].id, text: 'Never voiced', error: 'quota' }],
+    voiced: [{ line: lines[0], speech: tone(2) }, { line: lines[1], speech: tone(0.5) }],
+    videoDuration: 10
+  });
+
+  it('writes the script, a stem per voiced line, the dub and captions', async () => {
+    const files = await build();
+    expect(files.map(f => f.name)).toEqual([
+      'script.json',
+      'stems/001_narrator_hello-there.wav',
+      'stems/002_blue_cat_meow.wav',
+      'dub.wav',
+      'captions.srt'
+    ]);
+    // 44-byte header, then 10 s of 24 kHz mono
+    expect(files[3].data.length).toBe(44 + 10 * 24000 * 2);
+  });
+
+  it('points each segment at its stem', async () => {
+    const files = await build();
+    const record: DubbedVideoRecord = JSON.parse(new TextDecoder().decode(files[0].data));
+
+    expect(record.segments.map(s => [s.audioUrl, s.startTime, s.duration])).toEqual([
+      ['stems/001_narrator_hello-there.wav', 1, 2],
+      ['stems/002_blue_cat_meow.wav', 4, 0.5]
+    ]);
+    expect(record.lines).toHaveLength(3);
+    expect(record.failures).toHaveLength(1);
+    expect(record.cast.map(c => c.characterId)).toEqual(['narrator']);
+  });
+
+  it('times captions to the voiced audio', async () => {
+    const srt = new TextDecoder().decode((await build())[4].data);
+    expect(srt).toContain('00:00:01,000 --> 00:00:03,000\nHello there');
+    expect(srt).toContain('00:00:04,000 --> 00:00:04,500\nMeow');
+  });
+
+  it('brings every line to the same loudness in the stems and the dub', async () => {
+    const files = await dubbedVideoFiles({
+      video: 'clip.mp4',
+      instructions: '',
+      cast,
+      lines: lines.slice(0, 2),
+      failures: [],
+      voiced: [{ line: lines[0], speech: sine(2, 0.02) }, { line: lines[1], speech: sine(1, 0.5) }],
+      loudnessTarget: -20
+    });
+
+    expect(loudness(wavSamples(files[1].data))).toBeCloseTo(-20, 0);
+    expect(loudness(wavSamples(files[2].data))).toBeCloseTo(-20, 0);
+    // The lines are heard at 1-3 s and 4-5 s in the dub
+    const dub = wavSamples(files[3].data);
+    expect(loudness(dub.subarray(1 * 24000, 3 * 24000))).toBeCloseTo(-20, 0);
+    expect(loudness(dub.subarray(4 * 24000, 5 * 24000))).toBeCloseTo(-20, 0);
+  });
+
+  it('leaves levels alone without a loudness target', async () => {
+    const quiet = sine(1, 0.02);
+    const files = await dubbedVideoFiles({
+      video: 'clip.mp4',
+      instructions: '',
+      cast,
+      lines: lines.slice(0, 1),
+      failures: [],
+      voiced: [{ line: lines[0], speech: quiet }],
+      loudnessTarget: null
+    });
+
+    expect(files[1].data.slice(44)).toEqual(quiet.pcm);
+  });
+});
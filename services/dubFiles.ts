@@ -0,0 +1,67 @@
+import { DubbingSegment, ScriptLine, SegmentFailure, VoiceInstruction } from "../types";
+import { toDubbingSegment, VoicedLine } from "./dubbingPipeline";
+import { stemFileName } from "./editPackage";
+import { DEFAULT_LOUDNESS_TARGET } from "./loudness";
+import { mixSpeech, normalizeSpeech, speechDuration } from "./pcmMix";
+import { segmentsToCues, toSrt } from "./subtitles";
+import { pcmToWav } from "./wav";
+import type { ZipEntry } from "./zip";
+
+// The files a finished dub is saved as when it is made outside the app:
+//
+//   script.json        the script, the cast and every voiced segment
+//   stems/001_...wav   one file per voiced line
+//   dub.wav            all lines mixed on the video's timeline
+//   captions.srt
+
+export interface DubbedVideoRecord {
+  video: string; // file name of the source
+  instructions: string;
+  targetLanguage?: string;
+  cast: VoiceInstruction[];
+  lines: ScriptLine[];
+  segments: DubbingSegment[]; // audioUrl is the stem's path, relative to script.json
+  failures: SegmentFailure[];
+}
+
+export interface DubbedVideoInput extends Omit<DubbedVideoRecord, 'segments'> {
+  voiced: VoicedLine[];
+  videoDuration?: number; // the dub runs at least this long
+  loudnessTarget?: number | null; // LUFS every line is brought to; null keeps each line's level
+}
+
+const wavBytes = async (speech: VoicedLine['speech']): Promise<Uint8Array> =>
+  new Uint8Array(await pcmToWav(speech.pcm, speech.sampleRate).arrayBuffer());
+
+export const dubbedVideoFiles = async (input: DubbedVideoInput): Promise<ZipEntry[]> => {
+  const { voiced: raw, videoDuration, loudnessTarget = DEFAULT_LOUDNESS_TARGET, ...record } = input;
+  const text = (value: string) => new TextEncoder().encode(value);
+  // Stems and the dub get the same levels the app plays and exports them at
+  const voiced = loudnessTarget === null
+    ? raw
+    : raw.map(({ line, speech }) => ({ line, speech: normalizeSpeech(speech, loudnessTarget) }));
+
+  const stems: ZipEntry[] = [];
+  const segments: DubbingSegment[] = [];
+  for (const [i, { line, speech }] of voiced.entries()) {
+    const segment = toDubbingSegment(line, { audioUrl: '', duration: speechDuration(speech) });
+    const name = `stems/${stemFileName(i + 1, segment)}`;
+    segments.push({ ...segment, audioUrl: name });
+    stems.push({ name, data: await wavBytes(speech) });
+  }
+
+  const dub = mixSpeech(voiced.map(({ line, speech }) => ({ startTime: line.startTime, speech })), videoDuration);
+  const used = new Set(record.lines.map(l => l.characterId));
+  const manifest: DubbedVideoRecord = {
+    ...record,
+    cast: record.cast.filter(c => used.has(c.characterId)),
+    segments
+  };
+
+  return [
+    { name: 'script.json', data: text(JSON.stringify(manifest, null, 2)) },
+    ...stems,
+    { name: 'dub.wav', data: await wavBytes(dub) },
+    { name: 'captions.srt', data: text(toSrt(segmentsToCues(segments))) }
+  ];
+};
@@ -0,0 +1,292 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { draftScript, PipelineProgress, revoiceSegment, rewriteSegmentText, voiceScript } from './dubbingPipeline';
+import { createRequestScheduler } from './ttsQueue';
+import { createMockProviders } from './mockProvider';
+import { createScriptLine } from './script';
+import { DubbingProviders, SpeechRequest } from './providers';
+import { blobForUrl } from '../test/objectUrls';
+
+const video = new File([new Uint8Array(4)], 'clip.mp4', { type: 'video/mp4' });
+
+// Runs a pipeline call to completion while its rate-limit delays are faked
+const settle = async <T>(promise: Promise<T>): Promise<T> => {
+  const result = promise.then(value => ({ value }), error => ({ error }));
+  await vi.runAllTimersAsync();
+  const outcome = await result as { value?: T; error?: unknown };
+  if ('error' in outcome) throw outcome.error;
+  return outcome.value as T;
+};
+
+describe('dubbing pipeline', () => {
+  let providers: DubbingProviders;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    providers = createMockProviders({ latencyMs: 0 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('drafts lines with ids and drops empty ones', async () => {
+    providers.script.generateScript = async () => [
+      { startTime: 1, text: 'Hello', characterId: 'narrator', characterNote: '' },
+      { startTime: 2, text: '   ', characterId: 'narrator', characterNote: '' }
+    ];
+
+    const lines = await draftScript(providers, video, 'Narrate');
+
+    expect(lines).toHaveLength(1);
+    expect(lines[0]).toMatchObject({ startTime: 1, text: 'Hello' });
+    expect(lines[0].id).toEqual(expect.any(String));
+  });
+
+  it('keeps the original speech next to the translation', async () => {
+    const lines = await settle(draftScript(providers, video, '', [], { translation: { targetLanguage: 'German' } }));
+    const { segments } = await settle(voiceScript(providers, lines.slice(0, 1)));
+
+    expect(lines[0].sourceText).toBe('Welcome to this offline preview of DubAI.');
+    expect(segments[0]).toMatchObject({
+      text: '(German) Welcome to this offline preview of DubAI.',
+      sourceText: 'Welcome to this offline preview of DubAI.'
+    });
+  });
+
+  it('fails when the script has no lines', async () => {
+    providers.script.generateScript = async () => [];
+    await expect(draftScript(providers, video, '')).rejects.toThrow('No dialogue or narration lines');
+  });
+
+  it('voices each line into a WAV segment with its real length', async () => {
+    const lines = [createScriptLine({ startTime: 1.5, text: 'One two three', characterId: 'blue_cat' })];
+
+    const { segments, failures } = await settle(voiceScript(providers, lines));
+
+    expect(failures).toEqual([]);
+    expect(segments).toHaveLength(1);
+    expect(segments[0]).toMatchObject({ id: lines[0].id, characterId: 'blue_cat', startTime: 1.5, text: 'One two three' });
+    expect(segments[0].duration).toBeCloseTo(0.3 + 3 * 0.32, 3);
+    expect(blobForUrl(segments[0].audioUrl)?.type).toBe('audio/wav');
+  });
+
+  it('keeps going when some lines fail to voice and reports them', async () => {
+    const synthesize = providers.speech.synthesize;
+    providers.speech.synthesize = async (request) => {
+      if (request.text === 'Broken') throw new Error('TTS failed');
+      return synthesize(request);
+    };
+    const lines = [
+      createScriptLine({ startTime: 0, text: 'Fine' }),
+      createScriptLine({ startTime: 2, text: 'Broken' }),
+      createScriptLine({ startTime: 4, text: 'Also fine' })
+    ];
+
+    const { segments, failures } = await settle(voiceScript(providers, lines));
+
+    expect(segments.map(s => s.text)).toEqual(['Fine', 'Also fine']);
+    expect(failures).toEqual([{ lineId: lines[1].id, text: 'Broken', error: 'TTS failed' }]);
+  });
+
+  it('keeps line order when voicing in parallel', async () => {
+    const synthesize = providers.speech.synthesize;
+    // Later lines finish first
+    providers.speech.synthesize = async (request) => {
+      await new Promise(resolve => setTimeout(resolve, 1000 - request.text.length * 100));
+      return synthesize(request);
+    };
+    const lines = ['a', 'bb', 'ccc'].map((text, i) => createScriptLine({ startTime: i, text }));
+
+    const { segments } = await settle(voiceScript(providers, lines));
+
+    expect(segments.map(s => s.text)).toEqual(['a', 'bb', 'ccc']);
+  });
+
+  it('retries lines that hit a rate limit', async () => {
+    const synthesize = providers.speech.synthesize;
+    let calls = 0;
+    providers.speech.synthesize = async (request) => {
+      if (++calls === 1) throw Object.assign(new Error('Quota exceeded'), { status: 429 });
+      return synthesize(request);
+    };
+
+    const { segments, failures } = await settle(voiceScript(providers, [createScriptLine({ text: 'Hi' })]));
+
+    expect(calls).toBe(2);
+    expect(segments).toHaveLength(1);
+    expect(failures).toEqual([]);
+  });
+
+  it('fails when every line fails to voice', async () => {
+    providers.speech.synthesize = async () => { throw new Error('TTS failed'); };
+
+    await expect(settle(voiceScript(providers, [createScriptLine({ text: 'Hi' })])))
+      .rejects.toThrow('Audio generation failed for all segments');
+  });
+
+  describe('with a provider that voices exchanges in one take', () => {
+    const exchange = () => [
+      createScriptLine({ startTime: 1, text: 'Is anyone else hungry?', characterId: 'blue_cat' }),
+      createScriptLine({ startTime: 3, text: 'Always', characterId: 'yellow_dog' }),
+      createScriptLine({ startTime: 20, text: 'Later that day', characterId: 'narrator' })
+    ];
+
+    beforeEach(() => {
+      providers = createMockProviders({ latencyMs: 0, dialogue: true });
+    });
+
+    it('voices a back-and-forth in one request and splits it into lines', async () => {
+      const synthesize = vi.spyOn(providers.speech, 'synthesize');
+      const synthesizeDialogue = vi.spyOn(providers.speech, 'synthesizeDialogue');
+      const lines = exchange();
+
+      const { segments, failures } = await settle(voiceScript(providers, lines));
+
+      expect(failures).toEqual([]);
+      expect(synthesizeDialogue).toHaveBeenCalledTimes(1);
+      expect(synthesizeDialogue.mock.calls[0][0].turns.map(t => t.text)).toEqual(['Is anyone else hungry?', 'Always']);
+      expect(synthesize).toHaveBeenCalledTimes(1);
+      expect(segments.map(s => s.id)).toEqual(lines.map(l => l.id));
+
+      // The mock puts 0.4 s between turns; a cut keeps 0.03 s either side
+      const cat = 0.3 + 4 * 0.32;
+      expect(segments[0].startTime).toBe(1);
+      expect(segments[0].duration).toBeCloseTo(cat + 0.03, 2);
+      expect(segments[1].startTime).toBe(3);
+      expect(segments[1].duration).toBeCloseTo(0.3 + 0.32 + 0.03, 2);
+      expect(segments[2].startTime).toBe(20);
+    });
+
+    it('returns the script with a line moved to follow the turn before it', async () => {
+      const lines = exchange();
+      lines[1] = { ...lines[1], startTime: 1.5 };
+
+      const result = await settle(voiceScript(providers, lines));
+
+      expect(result.segments[1].startTime).toBeGreaterThan(1.5);
+      expect(result.lines.map(l => l.startTime)).toEqual(result.segments.map(s => s.startTime));
+      expect(lines[1].startTime).toBe(1.5);
+    });
+
+    it('voices the lines one by one when the exchange fails', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      providers.speech.synthesizeDialogue = async () => { throw new Error('Unsupported'); };
+      const synthesize = vi.spyOn(providers.speech, 'synthesize');
+      const lines = exchange();
+
+      const { segments } = await settle(voiceScript(providers, lines, [], {
+        scheduler: createRequestScheduler({ maxRetries: 0 })
+      }));
+
+      expect(synthesize).toHaveBeenCalledTimes(3);
+      expect(segments.map(s => s.startTime)).toEqual([1, 3, 20]);
+    });
+
+    it('can be turned off', async () => {
+      const synthesizeDialogue = vi.spyOn(providers.speech, 'synthesizeDialogue');
+      await settle(voiceScript(providers, exchange(), [], { dialogue: false }));
+      expect(synthesizeDialogue).not.toHaveBeenCalled();
+    });
+  });
+
+  it('reports progress for every line', async () => {
+    const lines = ['a', 'bb'].map((text, i) => createScriptLine({ startTime: i, text }));
+    const events: PipelineProgress[] = [];
+
+    await settle(voiceScript(providers, lines, [], { onProgress: p => events.push(p) }));
+
+    expect(events[0]).toEqual({ stage: 'voicing', completed: 0, total: 2 });
+    expect(events.at(-1)).toMatchObject({ stage: 'voicing', completed: 2, total: 2 });
+    expect(events.filter(e => e.text === 'bb').map(e => e.index)).toEqual([1, 1]);
+  });
+
+  it('reports the script stages', async () => {
+    const events: PipelineProgress[] = [];
+
+    await settle(draftScript(providers, video, 'Narrate', [], { onProgress: p => events.push(p) }));
+
+    expect(events).toEqual([{ stage: 'scripting' }]);
+  });
+
+  it('passes the video length on and forwards upload and window progress', async () => {
+    const events: PipelineProgress[] = [];
+    let videoDuration: number | undefined;
+    providers.script.generateScript = async request => {
+      videoDuration = request.videoDuration;
+      request.onStage?.('uploading', { completed: 5, total: 10 });
+      request.onStage?.('scripting', { completed: 0, total: 2 });
+      return [{ startTime: 1, text: 'Hello', characterId: 'narrator', characterNote: '' }];
+    };
+
+    await draftScript(providers, video, 'Narrate', [], { videoDuration: 600, onProgress: p => events.push(p) });
+
+    expect(videoDuration).toBe(600);
+    expect(events).toEqual([
+      { stage: 'uploading', completed: 5, total: 10 },
+      { stage: 'scripting', completed: 0, total: 2 }
+    ]);
+  });
+
+  it('keeps the lines voiced before a cancel', async () => {
+    providers = createMockProviders({ latencyMs: 1000 });
+    const controller = new AbortController();
+    const lines = ['First', 'Second', 'Third', 'Fourth'].map((text, i) => createScriptLine({ startTime: i, text }));
+
+    const run = voiceScript(providers, lines, [], {
+      signal: controller.signal,
+      scheduler: createRequestScheduler({ concurrency: 1 })
+    });
+    await vi.advanceTimersByTimeAsync(1500);
+    controller.abort();
+    const result = await settle(run);
+
+    expect(result.cancelled).toBe(true);
+    expect(result.segments.map(s => s.text)).toEqual(['First']);
+    expect(result.failures).toEqual([]);
+  });
+
+  it('stops drafting when cancelled', async () => {
+    const controller = new AbortController();
+    const run = draftScript(providers, video, '', [], { signal: controller.signal });
+    controller.abort();
+
+    await expect(settle(run)).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('voices a new take of one segment, keeping its id and timing', async () => {
+    const requests: SpeechRequest[] = [];
+    const synthesize = providers.speech.synthesize;
+    providers.speech.synthesize = async (request) => {
+      requests.push(request);
+      return synthesize(request);
+    };
+    const { segments: [original] } = await settle(voiceScript(providers, [createScriptLine({ startTime: 2, text: 'Hi there' })]));
+
+    const take = await settle(revoiceSegment(providers, original, [], { text: 'Hello there, friend', voiceName: 'Kore', note: 'warm' }));
+
+    expect(take).toMatchObject({ id: original.id, startTime: 2, text: 'Hello there, friend' });
+    expect(take.audioUrl).not.toBe(original.audioUrl);
+    expect(take.duration).toBeGreaterThan(original.duration);
+    expect(requests[1]).toMatchObject({ voice: { voiceName: 'Kore' }, note: 'warm' });
+  });
+
+  it('rewrites a segment with its neighbours as context', async () => {
+    const rewriteLine = vi.fn(async () => 'Something new');
+    providers.script.rewriteLine = rewriteLine;
+    const lines = ['a', 'b', 'c', 'd', 'e'].map((text, i) => createScriptLine({ startTime: i, text }));
+    const { segments } = await settle(voiceScript(providers, lines));
+
+    const text = await rewriteSegmentText(providers, segments, 1, 'Be brief', { direction: ' shorter ' });
+
+    expect(text).toBe('Something new');
+    expect(rewriteLine).toHaveBeenCalledWith(expect.objectContaining({
+      line: expect.objectContaining({ text: 'b' }),
+      direction: 'shorter',
+      instructions: 'Be brief'
+    }));
+    const request = (rewriteLine.mock.calls[0] as any[])[0];
+    expect(request.before.map((l: any) => l.text)).toEqual(['a']);
+    expect(request.after.map((l: any) => l.text)).toEqual(['c', 'd', 'e']);
+  });
+});
@@ -0,0 +1,296 @@
+import { DubbingSegment, ScriptLine, SegmentFailure, VoiceInstruction } from "../types";
+import { createScriptLine } from "./script";
+import { selectVoice, syncCast } from "./cast";
+import { pcmToWav } from "./wav";
+import { createRequestScheduler, RequestScheduler } from "./ttsQueue";
+import { isAbortError, throwIfAborted } from "./abort";
+import { speechDuration } from "./pcmMix";
+import { groupDialogue, placeDialogue } from "./dialogue";
+import type { DubbingProviders, SynthesizedSpeech, TranslationRequest } from "./providers";
+
+// Wraps synthesised PCM in a playable WAV URL and measures its length in seconds
+const toSegmentAudio = (speech: SynthesizedSpeech): { audioUrl: string; duration: number } => ({
+  audioUrl: URL.createObjectURL(pcmToWav(speech.pcm, speech.sampleRate)),
+  duration: speechDuration(speech)
+});
+
+// The segment a voiced line becomes, playing `audioUrl`
+export const toDubbingSegment = (line: ScriptLine, audio: { audioUrl: string; duration: number }): DubbingSegment => ({
+  id: line.id,
+  characterId: line.characterId,
+  startTime: line.startTime,
+  ...(line.endTime !== undefined ? { endTime: line.endTime } : {}),
+  text: line.text,
+  ...(line.sourceText ? { sourceText: line.sourceText } : {}),
+  audioUrl: audio.audioUrl,
+  duration: audio.duration
+});
+
+export type PipelineStage = 'uploading' | 'processing' | 'scripting' | 'voicing';
+
+// Reported as the pipeline moves along. While voicing, `index` is the line that just
+// started (0-based) and `completed` counts the lines finished so far, voiced or failed.
+// While uploading `completed` and `total` are bytes; while scripting a long video, windows.
+export interface PipelineProgress {
+  stage: PipelineStage;
+  index?: number;
+  completed?: number;
+  total?: number;
+  text?: string;
+}
+
+export interface PipelineOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: PipelineProgress) => void;
+}
+
+export interface DraftOptions extends PipelineOptions {
+  translation?: TranslationRequest; // dub the speech in the video instead of writing new lines
+  videoDuration?: number; // in seconds, when known
+  fresh?: boolean; // draft a new script even if this one is cached
+  onWarning?: (message: string) => void;
+}
+
+// Used when no instructions are given; it still gets a silent video narrated
+export const DEFAULT_INSTRUCTIONS = "Read visible text. If there is no text, narrate the key actions in an engaging way.";
+
+// Phase 1: Draft an editable script from the video. No TTS quota is spent here.
+export const draftScript = async (
+  providers: DubbingProviders,
+  videoFile: File,
+  instructions: string,
+  cast: VoiceInstruction[] = [],
+  options: DraftOptions = {}
+): Promise<ScriptLine[]> => {
+  const { signal, onProgress, translation, videoDuration, fresh, onWarning } = options;
+  throwIfAborted(signal);
+
+  const drafted = await providers.script.generateScript({
+    video: videoFile,
+    instructions,
+    cast,
+    translation,
+    videoDuration,
+    fresh,
+    signal,
+    onWarning,
+    onStage: (stage, detail) => onProgress?.({ stage, ...detail })
+  });
+  throwIfAborted(signal);
+
+  const lines = drafted
+    .filter(l => l.text.trim().length > 0)
+    .map(l => createScriptLine(l));
+
+  if (lines.length === 0) {
+     throw new Error("No dialogue or narration lines were generated. Try adding more specific instructions like 'Narrate the scene'.");
+  }
+
+  return lines;
+};
+
+export interface VoicingResult {
+  lines: ScriptLine[]; // the script, with voiced lines at the times they were placed
+  segments: DubbingSegment[];
+  failures: SegmentFailure[];
+  cancelled: boolean; // true when the signal fired; segments holds what was voiced before that
+}
+
+// A line with the speech synthesised for it
+export interface VoicedLine {
+  line: ScriptLine;
+  speech: SynthesizedSpeech;
+}
+
+export interface LineVoicingResult extends Omit<VoicingResult, 'segments'> {
+  voiced: VoicedLine[]; // in script order
+}
+
+// What became of one line: voiced, failed, or neither when cancelled before it ran
+interface LineOutcome {
+  voiced?: VoicedLine;
+  failure?: SegmentFailure;
+}
+
+export interface VoicingOptions extends PipelineOptions {
+  scheduler?: RequestScheduler;
+  dialogue?: boolean; // voice two-speaker exchanges in one take where the provider can; default true
+}
+
+// Shared by every voicing run, so parallel work still respects one rate limit
+export const defaultTtsScheduler = createRequestScheduler();
+
+// Phase 2, without the browser: voices a script into raw PCM. Lines are voiced in
+// parallel through the scheduler; any line that still fails after retries is reported,
+// not dropped silently. Quick exchanges between two characters are voiced as one take
+// where the provider supports it, and their lines start where they fall in that take.
+export const voiceLines = async (
+  providers: DubbingProviders,
+  lines: ScriptLine[],
+  cast: VoiceInstruction[] = [],
+  options: VoicingOptions = {}
+): Promise<LineVoicingResult> => {
+  const { signal, onProgress } = options;
+  const scheduler = options.scheduler || defaultTtsScheduler;
+  const validLines = lines.filter(l => l.text.trim().length > 0);
+  const total = validLines.length;
+  let completed = 0;
+
+  const report = (line: ScriptLine) =>
+    onProgress?.({ stage: 'voicing', index: validLines.indexOf(line), completed, total, text: line.text });
+
+  onProgress?.({ stage: 'voicing', completed, total });
+
+  const voiceAlone = async (line: ScriptLine): Promise<LineOutcome> => {
+    try {
+      const speech = await scheduler.schedule(() => {
+        report(line);
+        return providers.speech.synthesize({
+          text: line.text,
+          voice: selectVoice(line.characterId, cast),
+          note: line.characterNote || undefined,
+          signal
+        });
+      }, signal);
+      return { voiced: { line, speech } };
+    } catch (e: any) {
+      // Lines that never ran because of a cancel are not failures
+      if (isAbortError(e)) return {};
+      console.error(`Failed to voice segment: "${line.text}"`, e);
+      const failure: SegmentFailure = { lineId: line.id, text: line.text, error: e?.message || String(e) };
+      return { failure };
+    } finally {
+      completed++;
+      report(line);
+    }
+  };
+
+  // One request for the whole exchange. When it fails, or the take cannot be cut back
+  // into lines, each line is voiced on its own instead.
+  const voiceTogether = async (run: ScriptLine[]): Promise<LineOutcome[]> => {
+    let placed: VoicedLine[] | null = null;
+    try {
+      placed = await scheduler.schedule(async () => {
+        report(run[0]);
+        const speech = await providers.speech.synthesizeDialogue!({
+          turns: run.map(line => ({
+            text: line.text,
+            voice: selectVoice(line.characterId, cast),
+            note: line.characterNote || undefined
+          })),
+          signal
+        });
+        return placeDialogue(run, speech);
+      }, signal);
+    } catch (e: any) {
+      if (isAbortError(e)) return [];
+      console.warn("Could not voice an exchange in one take; voicing its lines one by one", e);
+    }
+    if (!placed) return Promise.all(run.map(voiceAlone));
+
+    completed += run.length;
+    report(run[run.length - 1]);
+    return placed.map(voiced => ({ voiced }));
+  };
+
+  const groups = options.dialogue !== false && providers.speech.synthesizeDialogue
+    ? groupDialogue(validLines)
+    : validLines.map(line => [line]);
+  const outcomes = (await Promise.all(groups.map(group =>
+    group.length > 1 ? voiceTogether(group) : voiceAlone(group[0]).then(outcome => [outcome])
+  ))).flat();
+
+  const voiced = outcomes.flatMap(o => (o.voiced ? [o.voiced] : []));
+  const failures = outcomes.flatMap(o => (o.failure ? [o.failure] : []));
+  const cancelled = !!signal?.aborted;
+  // Lines voiced in one take may have moved to follow the turn before them
+  const placed = new Map(voiced.map(v => [v.line.id, v.line]));
+  const script = lines.map(line => placed.get(line.id) || line);
+
+  if (voiced.length === 0 && !cancelled) {
+      const reason = failures[0]?.error ? ` Last error: ${failures[0].error}` : "";
+      throw new Error(`Audio generation failed for all segments. Please check API quota or model availability.${reason}`);
+  }
+
+  return { lines: script, voiced, failures, cancelled };
+};
+
+// Phase 2: Voice a (possibly edited) script into playable segments
+export const voiceScript = async (
+  providers: DubbingProviders,
+  lines: ScriptLine[],
+  cast: VoiceInstruction[] = [],
+  options: VoicingOptions = {}
+): Promise<VoicingResult> => {
+  const { lines: script, voiced, failures, cancelled } = await voiceLines(providers, lines, cast, options);
+  const segments = voiced.map(({ line, speech }) => toDubbingSegment(line, toSegmentAudio(speech)));
+  return { lines: script, segments, failures, cancelled };
+};
+
+export interface TakeOptions extends VoicingOptions {
+  text?: string;
+  voiceName?: string; // overrides the cast voice for this take only
+  note?: string;
+}
+
+// Voices one segment again as a new take. It keeps its id and start time; only the
+// audio (and the text, if given) changes, so the other segments are left alone.
+export const revoiceSegment = async (
+  providers: DubbingProviders,
+  segment: DubbingSegment,
+  cast: VoiceInstruction[] = [],
+  options: TakeOptions = {}
+): Promise<DubbingSegment> => {
+  const { signal } = options;
+  const scheduler = options.scheduler || defaultTtsScheduler;
+  const text = (options.text ?? segment.text).trim();
+  if (!text) throw new Error("The line is empty.");
+
+  const castVoice = selectVoice(segment.characterId, cast);
+  const voice = options.voiceName ? { ...castVoice, voiceName: options.voiceName } : castVoice;
+
+  const speech = await scheduler.schedule(() => providers.speech.synthesize({
+    text,
+    voice,
+    note: options.note || undefined,
+    fresh: true,
+    signal
+  }), signal);
+
+  return { ...segment, text, ...toSegmentAudio(speech) };
+};
+
+const REWRITE_CONTEXT_LINES = 3;
+
+// Asks the script model for an alternative line, given the lines around it
+export const rewriteSegmentText = async (
+  providers: DubbingProviders,
+  segments: DubbingSegment[],
+  index: number,
+  instructions: string,
+  options: { direction?: string; note?: string; signal?: AbortSignal } = {}
+): Promise<string> => {
+  const toContext = ({ startTime, text, characterId }: DubbingSegment) => ({ startTime, text, characterId });
+  const segment = segments[index];
+
+  return providers.script.rewriteLine({
+    line: { ...toContext(segment), characterNote: options.note, sourceText: segment.sourceText },
+    before: segments.slice(Math.max(0, index - REWRITE_CONTEXT_LINES), index).map(toContext),
+    after: segments.slice(index + 1, index + 1 + REWRITE_CONTEXT_LINES).map(toContext),
+    instructions,
+    direction: options.direction?.trim() || undefined,
+    signal: options.signal
+  });
+};
+
+// Convenience: draft and voice in one go, without a review step
+export const generateDubbingTimeline = async (
+  providers: DubbingProviders,
+  videoFile: File, 
+  instructions: string,
+  cast: VoiceInstruction[] = [],
+  options: VoicingOptions & DraftOptions = {}
+): Promise<VoicingResult> => {
+  const lines = await draftScript(providers, videoFile, instructions, cast, options);
+  return voiceScript(providers, lines, syncCast(cast, lines), options);
+};
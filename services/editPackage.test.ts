@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { DubbingSegment } from '../types';
+import { editClips, stemFileName, toAudacityLabels, toCueCsv, toEdl, toEdlTimecode } from './editPackage';
+
+const segment = (startTime: number, characterId: string, text: string, sourceText?: string): DubbingSegment => ({
+  id: `${characterId}-${startTime}`,
+  characterId,
+  startTime,
+  text,
+  sourceText,
+  audioUrl: '',
+  duration: 1
+});
+
+const segments = [
+  segment(1.5, 'narrator', 'Welcome to the show!'),
+  segment(4, 'blue_cat', 'Is anyone else, "hungry"?', 'Quelqu\'un a faim ?'),
+  segment(9, 'narrator', 'Unvoiced line')
+];
+const cast = [{ characterId: 'blue_cat', character: 'Blue Cat', voiceName: 'Kore', voiceDescription: '' }];
+
+// The third line has no audio, so it is left out
+const clips = editClips(segments, { 0: 2.25, 1: 1.2 }, cast);
+
+describe('edit package', () => {
+  it('numbers and names stems in timeline order', () => {
+    expect(stemFileName(7, segments[1])).toBe('007_blue_cat_is-anyone-else.wav');
+    expect(stemFileName(1, segment(0, 'narrator', '¿Qué?'))).toBe('001_narrator_que.wav');
+    expect(clips.map(c => c.file)).toEqual(['stems/001_narrator_welcome-to-the.wav', 'stems/002_blue_cat_is-anyone-else.wav']);
+    expect(clips.map(c => c.voiceName)).toEqual(['Puck', 'Kore']);
+  });
+
+  it('writes an Audacity label track spanning each stem', () => {
+    expect(toAudacityLabels(clips)).toBe(
+      '1.500000\t3.750000\t1. Narrator: Welcome to the show!\n' +
+      '4.000000\t5.200000\t2. Blue Cat: Is anyone else, "hungry"?\n'
+    );
+  });
+
+  it('quotes CSV fields that need it', () => {
+    const rows = toCueCsv(clips).split('\r\n');
+    expect(rows[0]).toBe('number,file,start,end,duration,character,voice,text,original_text');
+    expect(rows[2]).toBe('2,stems/002_blue_cat_is-anyone-else.wav,4.000,5.200,1.200,Blue Cat,Kore,"Is anyone else, ""hungry""?",Quelqu\'un a faim ?');
+  });
+
+  it('formats non-drop timecode', () => {
+    expect(toEdlTimecode(0, 30)).toBe('00:00:00:00');
+    expect(toEdlTimecode(3661.5, 30)).toBe('01:01:01:15');
+    expect(toEdlTimecode(1.999, 25)).toBe('00:00:02:00');
+  });
+
+  it('places every stem at its start time in the EDL', () => {
+    const edl = toEdl('My dub', clips).split('\n');
+    expect(edl.slice(0, 3)).toEqual(['TITLE: My dub', 'FCM: NON-DROP FRAME', '']);
+    expect(edl[3]).toBe('001  AX       A     C        00:00:00:00 00:00:02:08 00:00:01:15 00:00:03:23');
+    expect(edl[4]).toBe('* FROM CLIP NAME: 001_narrator_welcome-to-the.wav');
+    expect(edl[7]).toBe('002  AX       A     C        00:00:00:00 00:00:01:06 00:00:04:00 00:00:05:06');
+  });
+});
@@ -0,0 +1,144 @@
+import { DubbingSegment, VoiceInstruction } from "../types";
+import { selectVoice } from "./cast";
+import { audioBufferToWav } from "./wav";
+import { createZip, ZipEntry } from "./zip";
+
+// "Export for editing": everything an editor needs to finish the dub in another tool.
+//
+//   stems/001_narrator_welcome-to.wav   one file per line, as it plays (sped up if fitted)
+//   mixdown.wav                         the whole soundtrack, as the player mixes it
+//   dub_only.wav                        just the voices, on the video's timeline
+//   labels.txt                          Audacity label track
+//   cues.csv                            spreadsheet of every clip
+//   timeline.edl                        CMX 3600 EDL placing each stem at its start time
+
+// One stem and where it sits on the timeline
+export interface EditClip {
+  number: number; // 1-based
+  file: string; // path inside the package
+  segment: DubbingSegment;
+  character: string;
+  voiceName: string;
+  duration: number; // of the stem as exported, in seconds
+}
+
+export interface EditPackageInput {
+  name: string;
+  segments: DubbingSegment[];
+  buffers: { [index: number]: AudioBuffer }; // as played; segments without audio are left out
+  cast: VoiceInstruction[];
+  mixdown: AudioBuffer;
+  dubOnly: AudioBuffer;
+  frameRate?: number; // of the EDL timeline
+}
+
+export const DEFAULT_EDL_FRAME_RATE = 30;
+
+const slug = (text: string, maxWords: number): string =>
+  text.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ').trim().split(' ').filter(Boolean).slice(0, maxWords).join('-');
+
+// e.g. "007_blue_cat_is-anyone-else.wav": sorts in timeline order and says what it is
+export const stemFileName = (number: number, segment: DubbingSegment): string => {
+  const words = slug(segment.text, 3);
+  return `${String(number).padStart(3, '0')}_${segment.characterId}${words ? `_${words}` : ''}.wav`;
+};
+
+export const editClips = (
+  segments: DubbingSegment[],
+  durations: { [index: number]: number },
+  cast: VoiceInstruction[]
+): EditClip[] => {
+  const clips: EditClip[] = [];
+  segments.forEach((segment, i) => {
+    if (durations[i] === undefined) return;
+    const number = clips.length + 1;
+    const voice = selectVoice(segment.characterId, cast);
+    clips.push({
+      number,
+      file: `stems/${stemFileName(number, segment)}`,
+      segment,
+      character: voice.character,
+      voiceName: voice.voiceName,
+      duration: durations[i]
+    });
+  });
+  return clips;
+};
+
+// Audacity: File > Import > Labels. Tab-separated start, end and label, in seconds.
+export const toAudacityLabels = (clips: EditClip[]): string =>
+  clips.map(c => {
+    const start = c.segment.startTime;
+    return `${start.toFixed(6)}\t${(start + c.duration).toFixed(6)}\t${c.number}. ${c.character}: ${c.segment.text}`;
+  }).join('\n') + '\n';
+
+const csvField = (value: string | number): string => {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCueCsv = (clips: EditClip[]): string => {
+  const header = ['number', 'file', 'start', 'end', 'duration', 'character', 'voice', 'text', 'original_text'];
+  const rows = clips.map(c => [
+    c.number,
+    c.file,
+    c.segment.startTime.toFixed(3),
+    (c.segment.startTime + c.duration).toFixed(3),
+    c.duration.toFixed(3),
+    c.character,
+    c.voiceName,
+    c.segment.text,
+    c.segment.sourceText || ''
+  ]);
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+};
+
+// HH:MM:SS:FF at a whole-number, non-drop frame rate
+export const toEdlTimecode = (seconds: number, frameRate: number): string => {
+  const totalFrames = Math.round(seconds * frameRate);
+  const frames = totalFrames % frameRate;
+  const totalSeconds = Math.floor(totalFrames / frameRate);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${pad(Math.floor(totalSeconds / 3600))}:${pad(Math.floor(totalSeconds / 60) % 60)}:${pad(totalSeconds % 60)}:${pad(frames)}`;
+};
+
+// CMX 3600, audio only. Every event is an auxiliary-source ("AX") cut naming its stem,
+// which Premiere and Resolve use to link the media; positions snap to whole frames.
+export const toEdl = (title: string, clips: EditClip[], frameRate: number = DEFAULT_EDL_FRAME_RATE): string => {
+  const events = clips.map((c, i) => {
+    const recordIn = toEdlTimecode(c.segment.startTime, frameRate);
+    const recordOut = toEdlTimecode(c.segment.startTime + c.duration, frameRate);
+    const sourceOut = toEdlTimecode(c.duration, frameRate);
+    const number = String(i + 1).padStart(3, '0');
+    return [
+      `${number}  AX       A     C        00:00:00:00 ${sourceOut} ${recordIn} ${recordOut}`,
+      `* FROM CLIP NAME: ${c.file.split('/').pop()}`,
+      `* COMMENT: ${c.character}: ${c.segment.text.replace(/\s+/g, ' ')}`
+    ].join('\n');
+  });
+  return [`TITLE: ${title}\nFCM: NON-DROP FRAME`, ...events].join('\n\n') + '\n';
+};
+
+const blobBytes = async (blob: Blob): Promise<Uint8Array> => new Uint8Array(await blob.arrayBuffer());
+
+export const buildEditPackage = async (input: EditPackageInput): Promise<Blob> => {
+  const { name, segments, buffers, cast, mixdown, dubOnly, frameRate } = input;
+  const durations = Object.fromEntries(Object.entries(buffers).map(([i, b]) => [i, b.duration]));
+  const clips = editClips(segments, durations, cast);
+  const text = (value: string) => new TextEncoder().encode(value);
+
+  const entries: ZipEntry[] = [];
+  for (const clip of clips) {
+    const buffer = buffers[segments.indexOf(clip.segment)];
+    entries.push({ name: clip.file, data: await blobBytes(audioBufferToWav(buffer)) });
+  }
+  entries.push(
+    { name: 'mixdown.wav', data: await blobBytes(audioBufferToWav(mixdown)) },
+    { name: 'dub_only.wav', data: await blobBytes(audioBufferToWav(dubOnly)) },
+    { name: 'labels.txt', data: text(toAudacityLabels(clips)) },
+    { name: 'cues.csv', data: text(toCueCsv(clips)) },
+    { name: 'timeline.edl', data: text(toEdl(name, clips, frameRate)) }
+  );
+  return createZip(entries);
+};
@@ -0,0 +1,100 @@
+import { FileState, GoogleGenAI } from "@google/genai";
+import { delay, throwIfAborted } from "./abort";
+
+// Videos above this go through the Files API. Inlining base64 grows a request by a third,
+// and the whole request has to stay under 20 MB.
+export const INLINE_VIDEO_LIMIT = 15 * 1024 * 1024;
+// The Files API's own per-file limit
+export const MAX_VIDEO_SIZE = 2 * 1024 * 1024 * 1024;
+
+const UPLOAD_URL = "https://generativelanguage.googleapis.com/upload/v1beta/files";
+const UPLOAD_CHUNK_SIZE = 8 * 1024 * 1024; // the protocol wants multiples of 256 KiB
+const POLL_INTERVAL_MS = 3000;
+const PROCESSING_TIMEOUT_MS = 10 * 60 * 1000;
+
+export interface UploadedVideo {
+  name: string; // "files/abc-123"
+  uri: string;
+  mimeType: string;
+}
+
+export interface UploadOptions {
+  signal?: AbortSignal;
+  onProgress?: (sentBytes: number, totalBytes: number) => void;
+}
+
+// Keeps the HTTP status on the error, like the SDK does, so retries can tell what failed
+const httpError = async (response: Response, action: string): Promise<Error> => {
+  const body = await response.text().catch(() => "");
+  return Object.assign(new Error(`${action} (${response.status}). ${body}`.trim()), { status: response.status });
+};
+
+// Resumable upload, one chunk per request, so progress can be reported and a cancel
+// takes effect between chunks
+export const uploadVideoFile = async (
+  apiKey: string,
+  file: File,
+  options: UploadOptions = {}
+): Promise<UploadedVideo> => {
+  const { signal, onProgress } = options;
+  const mimeType = file.type || "video/mp4";
+
+  const start = await fetch(UPLOAD_URL, {
+    method: "POST",
+    headers: {
+      "x-goog-api-key": apiKey,
+      "X-Goog-Upload-Protocol": "resumable",
+      "X-Goog-Upload-Command": "start",
+      "X-Goog-Upload-Header-Content-Length": String(file.size),
+      "X-Goog-Upload-Header-Content-Type": mimeType,
+      "Content-Type": "application/json"
+    },
+    body: JSON.stringify({ file: { displayName: file.name } }),
+    signal
+  });
+  if (!start.ok) throw await httpError(start, "Starting the video upload failed");
+
+  const uploadUrl = start.headers.get("x-goog-upload-url");
+  if (!uploadUrl) throw new Error("The upload service did not return an upload URL.");
+
+  onProgress?.(0, file.size);
+  let offset = 0;
+  for (;;) {
+    const end = Math.min(file.size, offset + UPLOAD_CHUNK_SIZE);
+    const last = end >= file.size;
+    const response = await fetch(uploadUrl, {
+      method: "POST",
+      headers: {
+        "X-Goog-Upload-Command": last ? "upload, finalize" : "upload",
+        "X-Goog-Upload-Offset": String(offset)
+      },
+      body: file.slice(offset, end),
+      signal
+    });
+    if (!response.ok) throw await httpError(response, "Uploading the video failed");
+
+    offset = end;
+    onProgress?.(offset, file.size);
+
+    if (last) {
+      const { file: uploaded } = await response.json();
+      if (!uploaded?.name || !uploaded?.uri) throw new Error("The upload service returned no file.");
+      return { name: uploaded.name, uri: uploaded.uri, mimeType: uploaded.mimeType || mimeType };
+    }
+  }
+};
+
+// Uploaded videos are processed before they can be used in a prompt
+export const waitForFileActive = async (ai: GoogleGenAI, name: string, signal?: AbortSignal): Promise<void> => {
+  const deadline = Date.now() + PROCESSING_TIMEOUT_MS;
+  for (;;) {
+    throwIfAborted(signal);
+    const file = await ai.files.get({ name });
+    if (file.state === FileState.ACTIVE) return;
+    if (file.state === FileState.FAILED) {
+      throw new Error(file.error?.message || "The video could not be processed.");
+    }
+    if (Date.now() > deadline) throw new Error("Processing the uploaded video timed out.");
+    await delay(POLL_INTERVAL_MS, signal);
+  }
+};
@@ -0,0 +1,301 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { audioResponse, deleteFile, generateContent, getFile, textResponse } from '../test/fakeGenAI';
+import { createGeminiProviders } from './geminiService';
+
+vi.mock('@google/genai', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@google/genai')>()),
+  GoogleGenAI: (await import('../test/fakeGenAI')).FakeGoogleGenAI
+}));
+
+const video = new File([new Uint8Array([1, 2, 3])], 'clip.mp4', { type: 'video/mp4' });
+const voice = { characterId: 'narrator', character: 'Narrator', voiceName: 'Kore', voiceDescription: 'calm' };
+
+describe('Gemini script provider', () => {
+  beforeEach(() => {
+    generateContent.mockReset();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('turns the model JSON into draft lines', async () => {
+    generateContent.mockResolvedValueOnce(textResponse(JSON.stringify([
+      { timestamp: '00:02', text: 'Hello!', character_id: 'Blue Cat', character_note: 'excited' }
+    ])));
+
+    const { script } = createGeminiProviders({ apiKey: 'test' });
+    const lines = await script.generateScript({ video, instructions: 'Be fun', cast: [] });
+
+    expect(lines).toEqual([
+      { startTime: 2, text: 'Hello!', characterId: 'blue_cat', characterNote: 'excited' }
+    ]);
+    const request = generateContent.mock.calls[0][0];
+    expect(request.model).toBe('gemini-2.5-flash');
+    expect(request.contents.parts[0].inlineData).toEqual({ data: 'AQID', mimeType: 'video/mp4' });
+  });
+
+  it('reads millisecond and hour timestamps and end times', async () => {
+    generateContent.mockResolvedValueOnce(textResponse(JSON.stringify([
+      { timestamp: '01:02:03.250', end_timestamp: '01:02:04.5', text: 'A', character_id: 'narrator', character_note: '' },
+      { timestamp: '12.75', text: 'B', character_id: 'narrator', character_note: '' }
+    ])));
+    const { script } = createGeminiProviders({ apiKey: 'test' });
+
+    const lines = await script.generateScript({ video, instructions: '', cast: [] });
+
+    expect(lines.map(l => [l.startTime, l.endTime])).toEqual([[3723.25, 3724.5], [12.75, undefined]]);
+  });
+
+  it('reports timestamps it cannot read and keeps those lines in order', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    generateContent.mockResolvedValueOnce(textResponse(JSON.stringify([
+      { timestamp: '00:00:04.000', text: 'A', character_id: 'narrator', character_note: '' },
+      { timestamp: 'around five seconds', text: 'B', character_id: 'narrator', character_note: '' }
+    ])));
+    const { script } = createGeminiProviders({ apiKey: 'test' });
+    const onWarning = vi.fn();
+
+    const lines = await script.generateScript({ video, instructions: '', cast: [], onWarning });
+
+    expect(lines.map(l => l.startTime)).toEqual([4, 4]);
+    expect(onWarning).toHaveBeenCalledWith(expect.stringContaining('"around five seconds"'));
+  });
+
+  it('passes known cast ids to the prompt', async () => {
+    generateContent.mockResolvedValueOnce(textResponse('[]'));
+    const { script } = createGeminiProviders({ apiKey: 'test' });
+
+    await script.generateScript({ video, instructions: '', cast: [{ ...voice, characterId: 'blue_cat', character: 'Blue cat' }] });
+
+    expect(generateContent.mock.calls[0][0].contents.parts[1].text).toContain('- blue_cat (Blue cat)');
+  });
+
+  it('rejects a response that is not JSON', async () => {
+    generateContent.mockResolvedValueOnce(textResponse('Sorry, I cannot help with that.'));
+    const { script } = createGeminiProviders({ apiKey: 'test' });
+
+    await expect(script.generateScript({ video, instructions: '', cast: [] }))
+      .rejects.toThrow('Failed to parse the script generated by the model.');
+  });
+
+  it('rejects JSON that is not a list of lines', async () => {
+    generateContent.mockResolvedValueOnce(textResponse('{"lines": []}'));
+    const { script } = createGeminiProviders({ apiKey: 'test' });
+
+    await expect(script.generateScript({ video, instructions: '', cast: [] }))
+      .rejects.toThrow('Failed to parse the script generated by the model.');
+  });
+
+  it('rejects an empty response', async () => {
+    generateContent.mockResolvedValueOnce(textResponse(undefined));
+    const { script } = createGeminiProviders({ apiKey: 'test' });
+
+    await expect(script.generateScript({ video, instructions: '', cast: [] }))
+      .rejects.toThrow('No script generated.');
+  });
+
+  it('adds a hint to model and quota errors', async () => {
+    generateContent.mockRejectedValueOnce(new Error('[404] model not found'));
+    const { script } = createGeminiProviders({ apiKey: 'test', scriptModel: 'my-model' });
+
+    await expect(script.generateScript({ video, instructions: '', cast: [] }))
+      .rejects.toThrow('Ensure API access to my-model');
+  });
+
+  it('transcribes and translates in translate mode', async () => {
+    generateContent.mockResolvedValueOnce(textResponse(JSON.stringify([
+      { timestamp: '00:04', source_text: 'Welcome back.', text: 'Bienvenidos de nuevo.', character_id: 'host', character_note: 'warm' }
+    ])));
+    const { script } = createGeminiProviders({ apiKey: 'test' });
+
+    const lines = await script.generateScript({ video, instructions: '', cast: [], translation: { targetLanguage: 'Spanish' } });
+
+    expect(lines).toEqual([
+      { startTime: 4, text: 'Bienvenidos de nuevo.', sourceText: 'Welcome back.', characterId: 'host', characterNote: 'warm' }
+    ]);
+    const request = generateContent.mock.calls[0][0];
+    expect(request.contents.parts[1].text).toContain('translate it into Spanish');
+    expect(request.config.responseSchema.items.required).toContain('source_text');
+  });
+
+  it('rewrites a line with the lines around it as context', async () => {
+    generateContent.mockResolvedValueOnce(textResponse(JSON.stringify({ text: '  Fancy meeting you here!  ' })));
+    const { script } = createGeminiProviders({ apiKey: 'test' });
+
+    const text = await script.rewriteLine({
+      line: { startTime: 3, text: 'Hello there.', characterId: 'blue_cat', characterNote: 'sly' },
+      before: [{ startTime: 1, text: 'Who goes there?', characterId: 'yellow_dog' }],
+      after: [],
+      instructions: 'Keep it playful',
+      direction: 'funnier'
+    });
+
+    expect(text).toBe('Fancy meeting you here!');
+    const prompt = generateContent.mock.calls[0][0].contents.parts[0].text;
+    expect(prompt).toContain('[1.0s] yellow_dog: Who goes there?');
+    expect(prompt).toContain('TARGET (blue_cat, sly)');
+    expect(prompt).toContain('REQUESTED CHANGE: funnier');
+    expect(prompt).toContain('(end of video)');
+  });
+
+  it('rejects an empty rewrite', async () => {
+    generateContent.mockResolvedValueOnce(textResponse(JSON.stringify({ text: ' ' })));
+    const { script } = createGeminiProviders({ apiKey: 'test' });
+
+    await expect(script.rewriteLine({
+      line: { startTime: 0, text: 'Hi', characterId: 'narrator' }, before: [], after: [], instructions: ''
+    })).rejects.toThrow('The model returned an empty line.');
+  });
+});
+
+describe('Gemini script provider with long videos', () => {
+  const scriptLine = (timestamp: string, text: string) =>
+    ({ timestamp, text, character_id: 'narrator', character_note: '' });
+
+  beforeEach(() => {
+    generateContent.mockReset();
+    getFile.mockReset();
+    deleteFile.mockReset().mockResolvedValue({});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('uploads large videos through the Files API and deletes them afterwards', async () => {
+    const large = new File([new Uint8Array(16 * 1024 * 1024)], 'long.mp4', { type: 'video/mp4' });
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(new Response(null, { headers: { 'x-goog-upload-url': 'https://upload.test/session' } }))
+      .mockResolvedValueOnce(new Response(null))
+      .mockResolvedValueOnce(Response.json({ file: { name: 'files/abc', uri: 'https://files.test/abc', mimeType: 'video/mp4' } }));
+    vi.stubGlobal('fetch', fetchMock);
+    getFile.mockResolvedValueOnce({ name: 'files/abc', state: 'ACTIVE' });
+    generateContent.mockResolvedValueOnce(textResponse(JSON.stringify([scriptLine('00:00:01.000', 'Hi')])));
+    const onStage = vi.fn();
+    const { script } = createGeminiProviders({ apiKey: 'secret' });
+
+    const lines = await script.generateScript({ video: large, instructions: '', cast: [], onStage });
+
+    expect(lines.map(l => l.text)).toEqual(['Hi']);
+    expect(fetchMock.mock.calls[0][1].headers['X-Goog-Upload-Command']).toBe('start');
+    expect(fetchMock.mock.calls[0][1].headers['x-goog-api-key']).toBe('secret');
+    expect(fetchMock.mock.calls.slice(1).map(([url, init]) => [url, init.headers['X-Goog-Upload-Command'], init.headers['X-Goog-Upload-Offset']]))
+      .toEqual([
+        ['https://upload.test/session', 'upload', '0'],
+        ['https://upload.test/session', 'upload, finalize', String(8 * 1024 * 1024)]
+      ]);
+    expect(generateContent.mock.calls[0][0].contents.parts[0]).toEqual({
+      fileData: { fileUri: 'https://files.test/abc', mimeType: 'video/mp4' }
+    });
+    expect(onStage.mock.calls.map(c => c[0])).toEqual(['uploading', 'uploading', 'uploading', 'uploading', 'processing', 'scripting']);
+    expect(onStage).toHaveBeenCalledWith('uploading', { completed: large.size, total: large.size });
+    expect(deleteFile).toHaveBeenCalledWith({ name: 'files/abc' });
+  });
+
+  it('fails when the uploaded video cannot be processed', async () => {
+    const large = new File([new Uint8Array(16 * 1024 * 1024)], 'long.mp4', { type: 'video/mp4' });
+    vi.stubGlobal('fetch', vi.fn()
+      .mockResolvedValueOnce(new Response(null, { headers: { 'x-goog-upload-url': 'https://upload.test/session' } }))
+      .mockResolvedValueOnce(new Response(null))
+      .mockResolvedValueOnce(Response.json({ file: { name: 'files/abc', uri: 'https://files.test/abc' } })));
+    getFile.mockResolvedValueOnce({ name: 'files/abc', state: 'FAILED', error: { message: 'Unsupported codec' } });
+    const { script } = createGeminiProviders({ apiKey: 'test' });
+
+    await expect(script.generateScript({ video: large, instructions: '', cast: [] })).rejects.toThrow('Unsupported codec');
+    expect(generateContent).not.toHaveBeenCalled();
+    expect(deleteFile).toHaveBeenCalledWith({ name: 'files/abc' });
+  });
+
+  it('reports upload errors with their status', async () => {
+    const large = new File([new Uint8Array(16 * 1024 * 1024)], 'long.mp4', { type: 'video/mp4' });
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValueOnce(new Response('quota', { status: 403 })));
+    const { script } = createGeminiProviders({ apiKey: 'test' });
+
+    await expect(script.generateScript({ video: large, instructions: '', cast: [] }))
+      .rejects.toMatchObject({ status: 403, message: expect.stringContaining('Starting the video upload failed') });
+  });
+
+  it('scripts long videos in overlapping windows and merges them', async () => {
+    generateContent
+      .mockResolvedValueOnce(textResponse(JSON.stringify([
+        scriptLine('00:00:10.000', 'Opening'), scriptLine('00:04:49.500', 'Right at the seam')
+      ])))
+      .mockResolvedValueOnce(textResponse(JSON.stringify([
+        scriptLine('00:04:50.000', 'Right at the seam'), scriptLine('00:07:00.000', 'Closing')
+      ])));
+    const onStage = vi.fn();
+    const { script } = createGeminiProviders({ apiKey: 'test' });
+
+    const lines = await script.generateScript({ video, instructions: '', cast: [], videoDuration: 500, onStage });
+
+    expect(lines.map(l => [l.startTime, l.text])).toEqual([[10, 'Opening'], [289.5, 'Right at the seam'], [420, 'Closing']]);
+    const parts = generateContent.mock.calls.map(c => c[0].contents.parts);
+    expect(parts.map(p => p[0].videoMetadata)).toEqual([
+      { startOffset: '0s', endOffset: '300s' },
+      { startOffset: '280s', endOffset: '500s' }
+    ]);
+    expect(parts[1][1].text).toContain('covers only 00:04:40.000 to 00:08:20.000');
+    expect(onStage).toHaveBeenCalledWith('scripting', { completed: 1, total: 2 });
+  });
+});
+
+describe('Gemini speech provider', () => {
+  beforeEach(() => {
+    generateContent.mockReset();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('requests the cast voice and returns the decoded PCM', async () => {
+    const pcm = new Uint8Array([0, 1, 2, 3]);
+    generateContent.mockResolvedValueOnce(audioResponse(pcm));
+    const { speech } = createGeminiProviders({ apiKey: 'test' });
+
+    const result = await speech.synthesize({ text: 'Hi there', voice, note: 'whispering' });
+
+    expect(result).toEqual({ pcm, sampleRate: 24000 });
+    const request = generateContent.mock.calls[0][0];
+    expect(request.contents.parts[0].text).toBe('Say in a calm, whispering: Hi there');
+    expect(request.config.speechConfig.voiceConfig.prebuiltVoiceConfig.voiceName).toBe('Kore');
+  });
+
+  it('voices an exchange with one voice per speaker', async () => {
+    const pcm = new Uint8Array([4, 5, 6, 7]);
+    generateContent.mockResolvedValueOnce(audioResponse(pcm));
+    const { speech } = createGeminiProviders({ apiKey: 'test' });
+    const cat = { characterId: 'blue_cat', character: 'Blue cat', voiceName: 'Leda', voiceDescription: '' };
+
+    const result = await speech.synthesizeDialogue!({
+      turns: [
+        { text: 'Hungry?', voice: cat, note: 'whiny' },
+        { text: 'Always.', voice }
+      ]
+    });
+
+    expect(result).toEqual({ pcm, sampleRate: 24000 });
+    const request = generateContent.mock.calls[0][0];
+    expect(request.contents.parts[0].text).toBe([
+      'TTS the following conversation between Blue cat and Narrator.',
+      "Narrator's voice: calm.",
+      '',
+      'Blue cat: [whiny] Hungry?',
+      'Narrator: Always.'
+    ].join('\n'));
+    expect(request.config.speechConfig.multiSpeakerVoiceConfig.speakerVoiceConfigs).toEqual([
+      { speaker: 'Blue cat', voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Leda' } } },
+      { speaker: 'Narrator', voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } } }
+    ]);
+  });
+
+  it('fails when the model returns no audio', async () => {
+    generateContent.mockResolvedValueOnce({ candidates: [{ content: { parts: [{ text: 'no' }] } }] });
+    const { speech } = createGeminiProviders({ apiKey: 'test' });
+
+    await expect(speech.synthesize({ text: 'Hi', voice })).rejects.toThrow('No audio data');
+  });
+
+  it('flags rate limiting', async () => {
+    generateContent.mockRejectedValueOnce(new Error('429 RESOURCE_EXHAUSTED'));
+    const { speech } = createGeminiProviders({ apiKey: 'test' });
+
+    await expect(speech.synthesize({ text: 'Hi', voice })).rejects.toThrow('Rate limit exceeded');
+  });
+});
@@ -1,119 +1,82 @@
-import { GoogleGenAI, Modality, Type } from "@google/genai";
-import { DubbingSegment } from "../types";
-
-// Initialize the client
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-// Helper to convert File to Base64
-export const fileToGenerativePart = async (file: File): Promise<{ inlineData: { data: string; mimeType: string } }> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const base64String = reader.result as string;
-      const base64Data = base64String.split(',')[1];
-      resolve({
-        inlineData: {
-          data: base64Data,
-          mimeType: file.type,
-        },
-      });
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(file);
-  });
-};
-
-const pcmToWav = (pcmData: Uint8Array, sampleRate: number = 24000): Blob => {
-  const numChannels = 1;
-  const bitsPerSample = 16;
-  const byteRate = (sampleRate * numChannels * bitsPerSample) / 8;
-  const blockAlign = (numChannels * bitsPerSample) / 8;
-  const dataSize = pcmData.length;
-  const headerSize = 44;
-  const totalSize = headerSize + dataSize;
-
-  const buffer = new ArrayBuffer(totalSize);
-  const view = new DataView(buffer);
-
-  const writeString = (view: DataView, offset: number, string: string) => {
-    for (let i = 0; i < string.length; i++) {
-      view.setUint8(offset + i, string.charCodeAt(i));
-    }
-  };
+import { GenerateContentResponse, GoogleGenAI, Modality, Type } from "@google/genai";
+import { VoiceInstruction } from "../types";
+import { normalizeCharacterId } from "./cast";
+import { isAbortError, throwIfAborted } from "./abort";
+import { formatTimestamp, parseTimestamp } from "./timecode";
+import { INLINE_VIDEO_LIMIT, uploadVideoFile, waitForFileActive } from "./geminiFiles";
+import { alignToWindow, mergeWindowScripts, planScriptWindows, ScriptWindow } from "./scriptWindows";
+import type {
+  ContextLine, DialogueTurn, DraftLine, DubbingProviders, RewriteRequest, ScriptProvider, SpeechProvider, SynthesizedSpeech, TranslationRequest
+} from "./providers";
+
+const TTS_SAMPLE_RATE = 24000;
+
+export const DEFAULT_SCRIPT_MODEL = "gemini-2.5-flash";
+export const DEFAULT_SPEECH_MODEL = "gemini-2.5-flash-preview-tts";
+
+export interface GeminiProviderOptions {
+  apiKey: string;
+  scriptModel?: string;
+  speechModel?: string;
+}
 
-  // RIFF chunk
-  writeString(view, 0, 'RIFF');
-  view.setUint32(4, totalSize - 8, true);
-  writeString(view, 8, 'WAVE');
-
-  // fmt chunk
-  writeString(view, 12, 'fmt ');
-  view.setUint32(16, 16, true);
-  view.setUint16(20, 1, true); // PCM
-  view.setUint16(22, numChannels, true);
-  view.setUint32(24, sampleRate, true);
-  view.setUint32(28, byteRate, true);
-  view.setUint16(32, blockAlign, true);
-  view.setUint16(34, bitsPerSample, true);
-
-  // data chunk
-  writeString(view, 36, 'data');
-  view.setUint32(40, dataSize, true);
-
-  const dataView = new Uint8Array(buffer, headerSize);
-  dataView.set(pcmData);
-
-  return new Blob([buffer], { type: 'audio/wav' });
+// Encodes raw bytes as base64, a chunk at a time so large videos do not overflow the call stack
+export const encodeBase64 = (bytes: Uint8Array): string => {
+  const CHUNK = 0x8000;
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += CHUNK) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK));
+  }
+  return btoa(binary);
 };
 
-export const decodeAudioData = (base64String: string): string => {
+// Decodes base64 into raw bytes
+export const decodeBase64 = (base64String: string): Uint8Array => {
   const byteCharacters = atob(base64String);
   const byteNumbers = new Uint8Array(byteCharacters.length);
   for (let i = 0; i < byteCharacters.length; i++) {
     byteNumbers[i] = byteCharacters.charCodeAt(i);
   }
-  const wavBlob = pcmToWav(byteNumbers);
-  return URL.createObjectURL(wavBlob);
+  return byteNumbers;
 };
 
+// Inline video part for the request. Reads the bytes directly rather than through
+// FileReader, so it also works in Node.
+export const fileToGenerativePart = async (file: Blob): Promise<{ inlineData: { data: string; mimeType: string } }> => ({
+  inlineData: {
+    data: encodeBase64(new Uint8Array(await file.arrayBuffer())),
+    mimeType: file.type,
+  },
+});
+
 // Internal type for the raw JSON response from Gemini
 interface RawScriptSegment {
-  timestamp: string; // "MM:SS"
+  timestamp: string; // "HH:MM:SS.mmm", though models do not always comply
+  end_timestamp?: string;
   text: string;
+  character_id?: string;
   character_note?: string; 
+  source_text?: string; // translate mode only
 }
 
-// Helper to select a prebuilt voice based on description
-const selectVoice = (note?: string): string => {
-  if (!note) return 'Puck'; // Default Male
-  const n = note.toLowerCase();
-
-  // Voice Mapping Logic
-  // Kore: Female, Calm/Standard
-  // Puck: Male, Standard
-  // Charon: Male, Deep
-  // Fenrir: Male, Intense/Rough
-  // Zephyr: Female, Soft (if available, fallback to Kore)
-
-  if (n.match(/\b(girl|woman|female|she|lady|mother|mom|sister|daughter|aunt|grandma|soft|sweet|high|child|queen|princess)\b/)) {
-    return 'Kore'; 
-  }
-  
-  if (n.match(/\b(deep|low|gruff|monster|giant|evil|demon|tough|strong|bass)\b/)) {
-    return 'Fenrir';
-  }
-
-  if (n.match(/\b(old|grandpa|wise|narrator|slow|calm|father|dad)\b/)) {
-    return 'Charon';
-  }
-
-  // Default for boys, men, standard narration
-  return 'Puck';
-};
+// Long videos are sent a window at a time; the model still has to time lines against the whole video
+const clipNote = (clip?: ScriptWindow): string => clip
+  ? `CLIP: This request covers only ${formatTimestamp(clip.start)} to ${formatTimestamp(clip.end)} of the video. Only include lines that start in that range, and give timestamps from the start of the full video, not of the clip.`
+  : "";
 
 // Step 1: Generate Structured Script from Video
-const generateScriptSegments = async (videoPart: any, instructions: string): Promise<RawScriptSegment[]> => {
-  const modelId = "gemini-2.5-flash"; 
+const generateScriptSegments = async (
+  ai: GoogleGenAI,
+  modelId: string,
+  videoPart: any,
+  instructions: string,
+  cast: VoiceInstruction[],
+  clip?: ScriptWindow,
+  signal?: AbortSignal
+): Promise<RawScriptSegment[]> => {
+  const knownCharacters = cast.length > 0
+    ? cast.map(c => `- ${c.characterId} (${c.character})`).join('\n')
+    : "(none yet)";
   
   // Relaxed prompt to allow creativity and narration if no direct text/dialogue exists
   const prompt = `
@@ -121,20 +84,25 @@ const generateScriptSegments = async (videoPart: any, instructions: string): Pro
     Analyze the video and output a list of spoken lines synchronized to when they should appear.
     
     USER INSTRUCTIONS: ${instructions}
+    ${clipNote(clip)}
 
     GUIDELINES:
     1. **TEXT ON SCREEN**: Always read out any visible text clearly.
     2. **DIALOGUE**: If characters are present (people, animals, mascots), invent suitable dialogue for them based on their expressions and the User Instructions. 
        - e.g., if a cat meows, write "I'm so hungry!" if the style permits.
     3. **NARRATION**: If the instructions ask for narration or if there is no dialogue/text, describe the action or story in an engaging way.
-    4. **TIMING**: Ensure the timestamp (MM:SS) matches the visual cue.
+    4. **TIMING**: 'timestamp' (HH:MM:SS.mmm, to the millisecond) is when the line starts and must match the visual cue. For dialogue, also give 'end_timestamp' for when the line should be finished, so quick exchanges stay in place.
     5. **STYLE**: Do NOT act as a technical commentator (e.g., "The camera moves left"). Act as the voice of the characters or a narrator telling a story.
-    6. **CHARACTER NOTES**: Critically important. You MUST specify the GENDER and TONE in the 'character_note' field so the correct voice is selected (e.g., 'soft female voice', 'deep male voice', 'energetic boy').
+    6. **CHARACTER IDS**: Give every line a 'character_id' naming who speaks it, in lowercase snake_case derived from how the character looks (e.g., 'blue_cat', 'yellow_dog'). Use 'narrator' for narration and on-screen text. The same character MUST always get the same id. If a character matches one of the KNOWN CHARACTERS below, reuse its id exactly.
+    7. **CHARACTER NOTES**: Use the 'character_note' field for the delivery of this particular line (e.g., 'whispering', 'excited', 'confused').
+
+    KNOWN CHARACTERS:
+    ${knownCharacters}
 
     Example Output format:
     [
-      { "timestamp": "00:01", "text": "Hello world!", "character_note": "excited young boy" },
-      { "timestamp": "00:05", "text": "I wonder where the red dot went...", "character_note": "confused soft female cat" }
+      { "timestamp": "00:00:01.200", "text": "Hello world!", "character_id": "narrator", "character_note": "excited" },
+      { "timestamp": "00:00:05.750", "end_timestamp": "00:00:08.100", "text": "I wonder where the red dot went...", "character_id": "blue_cat", "character_note": "confused" }
     ]
   `;
 
@@ -147,17 +115,20 @@ const generateScriptSegments = async (videoPart: any, instructions: string): Pro
       ]
     },
     config: {
+      abortSignal: signal,
       responseMimeType: "application/json",
       responseSchema: {
         type: Type.ARRAY,
         items: {
           type: Type.OBJECT,
           properties: {
-            timestamp: { type: Type.STRING },
+            timestamp: { type: Type.STRING, description: "Start time as HH:MM:SS.mmm, e.g. 00:01:04.250." },
+            end_timestamp: { type: Type.STRING, description: "Optional end time as HH:MM:SS.mmm." },
             text: { type: Type.STRING },
-            character_note: { type: Type.STRING, description: "Mandatory voice instruction. Keywords: 'female', 'male', 'girl', 'boy', 'deep', 'soft', 'monster', etc." }
+            character_id: { type: Type.STRING, description: "Stable snake_case id of the speaking character, e.g. 'blue_cat' or 'narrator'." },
+            character_note: { type: Type.STRING, description: "Delivery of this line, e.g. 'whispering', 'excited'." }
           },
-          required: ["timestamp", "text", "character_note"]
+          required: ["timestamp", "text", "character_id", "character_note"]
         }
       }
     }
@@ -176,107 +147,381 @@ const generateScriptSegments = async (videoPart: any, instructions: string): Pro
   }
 };
 
-// Helper to parse MM:SS to seconds
-const parseTimestamp = (timeStr: string): number => {
-  if (!timeStr) return 0;
-  const parts = timeStr.split(':');
-  if (parts.length === 2) {
-    return parseInt(parts[0]) * 60 + parseInt(parts[1]);
+// Step 1 (translate mode): transcribe the speech in the video and translate it
+const generateTranslatedSegments = async (
+  ai: GoogleGenAI,
+  modelId: string,
+  videoPart: any,
+  instructions: string,
+  cast: VoiceInstruction[],
+  translation: TranslationRequest,
+  clip?: ScriptWindow,
+  signal?: AbortSignal
+): Promise<RawScriptSegment[]> => {
+  const knownCharacters = cast.length > 0
+    ? cast.map(c => `- ${c.characterId} (${c.character})`).join('\n')
+    : "(none yet)";
+
+  const prompt = `
+    You are a professional dubbing translator.
+    Transcribe the speech in the video and translate it into ${translation.targetLanguage} for a voice-over dub.
+
+    USER INSTRUCTIONS: ${instructions || "(none)"}
+    ${clipNote(clip)}
+
+    GUIDELINES:
+    1. **TRANSCRIBE**: Put the original words, exactly as spoken and in the original language, in 'source_text'. One entry per sentence or short phrase.
+    2. **TRANSLATE**: Put a natural, spoken ${translation.targetLanguage} translation in 'text'. Keep it about as long as the original so it fits the same time.
+    3. **TIMING**: 'timestamp' is when the speaker starts saying the line and 'end_timestamp' when they finish, both as HH:MM:SS.mmm to the millisecond.
+    4. **SPEAKERS**: Give every line a 'character_id' naming who speaks it, in lowercase snake_case derived from how they look (e.g. 'woman_in_red', 'bearded_man'), or 'narrator' for an off-screen voice. Use the same id for the same person throughout.
+    5. **DELIVERY**: Use 'character_note' for how the original line is delivered (e.g. 'calm', 'laughing', 'emphatic'), so the dub matches it.
+    6. Only include speech that is actually in the video. Do not invent dialogue or narration.
+
+    KNOWN CHARACTERS:
+    ${knownCharacters}
+  `;
+
+  const response = await ai.models.generateContent({
+    model: modelId,
+    contents: {
+      parts: [
+        videoPart,
+        { text: prompt }
+      ]
+    },
+    config: {
+      abortSignal: signal,
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            timestamp: { type: Type.STRING, description: "Start time as HH:MM:SS.mmm, e.g. 00:01:04.250." },
+            end_timestamp: { type: Type.STRING, description: "End time as HH:MM:SS.mmm." },
+            source_text: { type: Type.STRING, description: "The original words as spoken in the video." },
+            text: { type: Type.STRING, description: `The line translated into ${translation.targetLanguage}.` },
+            character_id: { type: Type.STRING, description: "Stable snake_case id of the speaker, e.g. 'woman_in_red'." },
+            character_note: { type: Type.STRING, description: "Delivery of the original line, e.g. 'calm', 'emphatic'." }
+          },
+          required: ["timestamp", "source_text", "text", "character_id", "character_note"]
+        }
+      }
+    }
+  });
+
+  const jsonText = response.text;
+  if (!jsonText) throw new Error("No transcript generated.");
+
+  try {
+    const parsed = JSON.parse(jsonText) as RawScriptSegment[];
+    if (!Array.isArray(parsed)) throw new Error("Invalid transcript format");
+    return parsed;
+  } catch (e) {
+    console.error("Failed to parse transcript JSON", jsonText);
+    throw new Error("Failed to parse the transcript generated by the model.");
   }
-  return 0;
 };
 
-// Helper for delay to prevent rate limits
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+// Asks for one alternative take of a line that still fits the scene around it
+const generateLineRewrite = async (
+  ai: GoogleGenAI,
+  modelId: string,
+  request: RewriteRequest
+): Promise<string> => {
+  const { line, before, after, instructions, direction, signal } = request;
+  const formatLine = (l: ContextLine) => `[${l.startTime.toFixed(1)}s] ${l.characterId}: ${l.text}`;
+  const words = line.text.trim().split(/\s+/).length;
+
+  const prompt = `
+    You are a creative dubbing director revising a single line of a dub script.
+    Write ONE alternative version of the TARGET line, spoken by the same character.
+
+    USER INSTRUCTIONS: ${instructions || "(none)"}
+    ${direction ? `REQUESTED CHANGE: ${direction}` : ""}
+
+    SCRIPT BEFORE:
+    ${before.map(formatLine).join('\n    ') || "(start of video)"}
+
+    TARGET (${line.characterId}${line.characterNote ? `, ${line.characterNote}` : ""}):
+    ${line.text}
+    ${line.sourceText ? `ORIGINAL (the target translates it; stay faithful to its meaning and keep the target's language): ${line.sourceText}` : ""}
+
+    SCRIPT AFTER:
+    ${after.map(formatLine).join('\n    ') || "(end of video)"}
+
+    GUIDELINES:
+    1. Keep it about ${words} words so it still fits its time slot, unless the requested change says otherwise.
+    2. It must follow on naturally from the lines before and lead into the lines after.
+    3. Do not repeat the original wording.
+  `;
+
+  const response = await ai.models.generateContent({
+    model: modelId,
+    contents: { parts: [{ text: prompt }] },
+    config: {
+      abortSignal: signal,
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          text: { type: Type.STRING }
+        },
+        required: ["text"]
+      }
+    }
+  });
+
+  const jsonText = response.text;
+  if (!jsonText) throw new Error("No rewrite generated.");
+
+  let parsed: { text?: string };
+  try {
+    parsed = JSON.parse(jsonText);
+  } catch (e) {
+    console.error("Failed to parse rewrite JSON", jsonText);
+    throw new Error("Failed to parse the line rewritten by the model.");
+  }
+  const text = parsed.text?.trim();
+  if (!text) throw new Error("The model returned an empty line.");
+  return text;
+};
+
+// Converts the model's segments into draft lines. A start time that cannot be read
+// is reported and the line placed with the one before it, so the order survives.
+const toDraftLines = (rawSegments: RawScriptSegment[], onWarning?: (message: string) => void): DraftLine[] => {
+  const unreadable: string[] = [];
+  let previousStart = 0;
+
+  const lines = rawSegments.map(s => {
+    const start = parseTimestamp(s.timestamp);
+    if (start === null) unreadable.push(JSON.stringify(s.timestamp ?? ""));
+    const startTime = start ?? previousStart;
+    previousStart = startTime;
+
+    const end = parseTimestamp(s.end_timestamp);
+    if (end === null && s.end_timestamp) unreadable.push(JSON.stringify(s.end_timestamp));
+
+    return {
+      startTime,
+      ...(end !== null && end > startTime ? { endTime: end } : {}),
+      text: s.text || "",
+      characterId: normalizeCharacterId(s.character_id || ""),
+      characterNote: s.character_note || "",
+      ...(s.source_text ? { sourceText: s.source_text } : {})
+    };
+  });
+
+  if (unreadable.length > 0) {
+    console.warn("Unreadable timestamps in the model's script", unreadable);
+    onWarning?.(`Could not read ${unreadable.length} timestamp(s) from the model (${unreadable.slice(0, 3).join(', ')}). Check the timing of those lines.`);
+  }
+  return lines;
+};
 
 // Step 2: Generate Audio for a single segment
-const generateSegmentAudio = async (text: string, note?: string): Promise<string> => {
-  const modelId = "gemini-2.5-flash-preview-tts";
-  
-  // Select the appropriate voice based on the note
-  const selectedVoice = selectVoice(note);
-  
-  // Example: "Say in a soft little girl voice: Hello world"
-  const prefix = note ? `Say in a ${note}: ` : "Say clearly: ";
+const generateSegmentAudio = async (
+  ai: GoogleGenAI,
+  modelId: string,
+  text: string,
+  voice: VoiceInstruction,
+  note?: string,
+  signal?: AbortSignal
+): Promise<SynthesizedSpeech> => {
+  // The cast's standing style comes first, the per-line note refines it
+  const style = [voice.voiceDescription.trim(), note?.trim()].filter(Boolean).join(', ');
+
+  // Example: "Say in a soft little girl voice, excited: Hello world"
+  const prefix = style ? `Say in a ${style}: ` : "Say clearly: ";
   const prompt = `${prefix}${text}`;
 
-  // console.log(`Generating audio: "${text}" | Voice: ${selectedVoice} | Note: ${note}`);
-
   const response = await ai.models.generateContent({
     model: modelId,
     contents: {
       parts: [{ text: prompt }]
     },
     config: {
+      abortSignal: signal,
       responseModalities: [Modality.AUDIO],
       speechConfig: {
         voiceConfig: {
-          prebuiltVoiceConfig: { voiceName: selectedVoice }
+          prebuiltVoiceConfig: { voiceName: voice.voiceName }
         }
       }
     }
   });
 
+  return readSpeech(response);
+};
+
+const readSpeech = (response: GenerateContentResponse): SynthesizedSpeech => {
   const candidates = response.candidates;
   if (!candidates || candidates.length === 0) throw new Error("TTS failed");
   
   const audioPart = candidates[0].content?.parts?.find(p => p.inlineData);
   if (!audioPart || !audioPart.inlineData) throw new Error("No audio data");
 
-  return decodeAudioData(audioPart.inlineData.data);
+  return {
+    pcm: decodeBase64(audioPart.inlineData.data),
+    sampleRate: TTS_SAMPLE_RATE
+  };
 };
 
-export const generateDubbingTimeline = async (
-  videoFile: File, 
-  instructions: string
-): Promise<DubbingSegment[]> => {
-  try {
-    const videoPart = await fileToGenerativePart(videoFile);
+// Speaker names as they appear in the transcript: the character's name where it is
+// plain enough to be one, otherwise Speaker1 and Speaker2
+const speakerNames = (turns: DialogueTurn[]): Map<string, string> => {
+  const names = new Map<string, string>();
+  turns.forEach(({ voice }) => {
+    if (names.has(voice.characterId)) return;
+    const plain = voice.character.replace(/[^\p{L}\p{N} ]/gu, '').trim();
+    const taken = Array.from(names.values());
+    names.set(voice.characterId, plain && !taken.includes(plain) ? plain : `Speaker${names.size + 1}`);
+  });
+  return names;
+};
 
-    // 1. Get the script with timestamps
-    const rawSegments = await generateScriptSegments(videoPart, instructions);
-    
-    if (!rawSegments || rawSegments.length === 0) {
-       throw new Error("No dialogue or narration lines were generated. Try adding more specific instructions like 'Narrate the scene'.");
-    }
+// Step 2, for a back-and-forth between two characters: the whole exchange in one request
+const generateDialogueAudio = async (
+  ai: GoogleGenAI,
+  modelId: string,
+  turns: DialogueTurn[],
+  signal?: AbortSignal
+): Promise<SynthesizedSpeech> => {
+  const names = speakerNames(turns);
+  if (names.size !== 2) throw new Error("A dialogue take needs exactly two speakers.");
+
+  const voices = Array.from(names.keys()).map(id => turns.find(t => t.voice.characterId === id)!.voice);
+  const styles = voices
+    .filter(v => v.voiceDescription.trim())
+    .map(v => `${names.get(v.characterId)}'s voice: ${v.voiceDescription.trim()}.`);
+  // Example:
+  //   TTS the following conversation between Blue cat and Yellow dog.
+  //   Blue cat: [whiny] Is anyone else hungry?
+  const transcript = turns.map(({ text, voice, note }) =>
+    `${names.get(voice.characterId)}: ${note?.trim() ? `[${note.trim()}] ` : ''}${text}`
+  );
+  const prompt = [
+    `TTS the following conversation between ${Array.from(names.values()).join(' and ')}.`,
+    ...styles,
+    '',
+    ...transcript
+  ].join('\n');
 
-    // 2. Process TTS for each segment SEQUENTIALLY to avoid Rate Limits
-    const validSegments = rawSegments.filter(s => s.text && s.text.trim().length > 0);
-    const processedSegments: DubbingSegment[] = [];
-
-    for (const seg of validSegments) {
-        try {
-            // Add a small delay between requests to be gentle on the API Rate Limiter
-            await delay(500);
-            
-            const audioUrl = await generateSegmentAudio(seg.text, seg.character_note);
-            processedSegments.push({
-                startTime: parseTimestamp(seg.timestamp),
-                text: seg.text,
-                audioUrl: audioUrl
-            });
-        } catch (e) {
-            console.error(`Skipping failed segment: "${seg.text}"`, e);
-            // Continue to next segment so partial results are returned
+  const response = await ai.models.generateContent({
+    model: modelId,
+    contents: {
+      parts: [{ text: prompt }]
+    },
+    config: {
+      abortSignal: signal,
+      responseModalities: [Modality.AUDIO],
+      speechConfig: {
+        multiSpeakerVoiceConfig: {
+          speakerVoiceConfigs: voices.map(voice => ({
+            speaker: names.get(voice.characterId)!,
+            voiceConfig: { prebuiltVoiceConfig: { voiceName: voice.voiceName } }
+          }))
         }
+      }
     }
+  });
 
-    if (processedSegments.length === 0) {
-        throw new Error("Audio generation failed for all segments. Please check API quota or model availability.");
-    }
+  return readSpeech(response);
+};
 
-    return processedSegments;
+// Adds a hint for the most common API failures
+const describeError = (error: any, modelId: string, fallback: string): Error => {
+  // Cancellation is not a failure; pass it through untouched
+  if (isAbortError(error)) return error;
+  console.error("Gemini API Error:", error);
+  let errorMessage = error.message || fallback;
+
+  if (errorMessage.includes("404")) {
+     errorMessage += ` (Model missing. Ensure API access to ${modelId})`;
+  } else if (errorMessage.includes("429")) {
+     errorMessage += " (Rate limit exceeded. Try a shorter video.)";
+  }
 
-  } catch (error: any) {
-    console.error("Gemini API Error:", error);
-    let errorMessage = error.message || "Failed to generate dubbing.";
-    
-    if (errorMessage.includes("404")) {
-       errorMessage += " (Model missing. Ensure API access to gemini-2.5-flash)";
-    } else if (errorMessage.includes("429")) {
-       errorMessage += " (Rate limit exceeded. Try a shorter video.)";
+  // Keep the HTTP status so the TTS scheduler can tell what is worth retrying
+  return Object.assign(new Error(errorMessage), { status: error?.status });
+};
+
+export const createGeminiProviders = (options: GeminiProviderOptions): DubbingProviders => {
+  const ai = new GoogleGenAI({ apiKey: options.apiKey });
+  const scriptModel = options.scriptModel || DEFAULT_SCRIPT_MODEL;
+  const speechModel = options.speechModel || DEFAULT_SPEECH_MODEL;
+
+  const script: ScriptProvider = {
+    name: `Gemini (${scriptModel})`,
+    generateScript: async ({ video, instructions, cast, translation, videoDuration, signal, onStage, onWarning }) => {
+      let uploadedName: string | undefined;
+      try {
+        onStage?.('uploading');
+        let videoPart: any;
+        if (video.size > INLINE_VIDEO_LIMIT) {
+          const uploaded = await uploadVideoFile(options.apiKey, video, {
+            signal,
+            onProgress: (completed, total) => onStage?.('uploading', { completed, total })
+          });
+          uploadedName = uploaded.name;
+          onStage?.('processing');
+          await waitForFileActive(ai, uploaded.name, signal);
+          videoPart = { fileData: { fileUri: uploaded.uri, mimeType: uploaded.mimeType } };
+        } else {
+          videoPart = await fileToGenerativePart(video);
+        }
+        throwIfAborted(signal);
+
+        // One request per window, in turn, so a long video does not get one huge, loosely timed answer
+        const windows = planScriptWindows(videoDuration);
+        const clipped = windows.length > 1;
+        const results: { window: ScriptWindow; lines: DraftLine[] }[] = [];
+        for (const [i, window] of windows.entries()) {
+          onStage?.('scripting', clipped ? { completed: i, total: windows.length } : undefined);
+          const part = clipped
+            ? { ...videoPart, videoMetadata: { startOffset: `${window.start}s`, endOffset: `${window.end}s` } }
+            : videoPart;
+          const clip = clipped ? window : undefined;
+          const rawSegments = translation
+            ? await generateTranslatedSegments(ai, scriptModel, part, instructions, cast, translation, clip, signal)
+            : await generateScriptSegments(ai, scriptModel, part, instructions, cast, clip, signal);
+          results.push({ window, lines: alignToWindow(toDraftLines(rawSegments || [], onWarning), window) });
+        }
+
+        return clipped ? mergeWindowScripts(results) : results[0].lines;
+      } catch (error: any) {
+        throw describeError(error, scriptModel, "Failed to generate the script.");
+      } finally {
+        // The upload was only needed for this request; the API deletes leftovers after two days anyway
+        if (uploadedName) ai.files.delete({ name: uploadedName }).catch(e => console.warn("Could not delete the uploaded video", e));
+      }
+    },
+    rewriteLine: async (request) => {
+      try {
+        return await generateLineRewrite(ai, scriptModel, request);
+      } catch (error: any) {
+        throw describeError(error, scriptModel, "Failed to rewrite the line.");
+      }
     }
-    
-    throw new Error(errorMessage);
-  }
+  };
+
+  const speech: SpeechProvider = {
+    name: `Gemini (${speechModel})`,
+    synthesize: async ({ text, voice, note, signal }) => {
+      try {
+        return await generateSegmentAudio(ai, speechModel, text, voice, note, signal);
+      } catch (error: any) {
+        throw describeError(error, speechModel, "Failed to generate audio.");
+      }
+    },
+    synthesizeDialogue: async ({ turns, signal }) => {
+      try {
+        return await generateDialogueAudio(ai, speechModel, turns, signal);
+      } catch (error: any) {
+        throw describeError(error, speechModel, "Failed to generate dialogue audio.");
+      }
+    }
+  };
+
+  return { script, speech };
 };
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { measureLoudness, measurePeak, normalizationGain } from './loudness';
+
+const SAMPLE_RATE = 48000;
+
+const sine = (frequency: number, amplitude: number, seconds: number, sampleRate = SAMPLE_RATE): Float32Array => {
+  const samples = new Float32Array(Math.round(seconds * sampleRate));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = amplitude * Math.sin((2 * Math.PI * frequency * i) / sampleRate);
+  }
+  return samples;
+};
+
+describe('measureLoudness', () => {
+  it('reads a full-scale 1 kHz tone at -3 LUFS', () => {
+    expect(measureLoudness([sine(1000, 1, 2)], SAMPLE_RATE)).toBeCloseTo(-3.01, 0);
+  });
+
+  it('gives the same reading at the TTS sample rate', () => {
+    expect(measureLoudness([sine(1000, 1, 2, 24000)], 24000)).toBeCloseTo(-3.01, 0);
+  });
+
+  it('drops by 20 dB for a tenth of the amplitude', () => {
+    const loud = measureLoudness([sine(1000, 1, 2)], SAMPLE_RATE);
+    const quiet = measureLoudness([sine(1000, 0.1, 2)], SAMPLE_RATE);
+    expect(loud - quiet).toBeCloseTo(20, 1);
+  });
+
+  it('ignores silence between words', () => {
+    const tone = sine(1000, 0.5, 1);
+    const withGap = new Float32Array(tone.length * 3);
+    withGap.set(tone, 0);
+    withGap.set(tone, tone.length * 2);
+    // Averaged over the gap it would read almost 5 dB lower; only the blocks on the
+    // edges of the tone let some silence in
+    const toneLoudness = measureLoudness([tone], SAMPLE_RATE);
+    expect(measureLoudness([withGap], SAMPLE_RATE)).toBeGreaterThan(toneLoudness - 1);
+  });
+
+  it('measures lines shorter than one block', () => {
+    expect(measureLoudness([sine(1000, 1, 0.2)], SAMPLE_RATE)).toBeCloseTo(-3.01, 0);
+  });
+
+  it('treats silence as having no loudness', () => {
+    expect(measureLoudness([new Float32Array(SAMPLE_RATE)], SAMPLE_RATE)).toBe(-Infinity);
+    expect(measureLoudness([new Float32Array(0)], SAMPLE_RATE)).toBe(-Infinity);
+  });
+});
+
+describe('normalizationGain', () => {
+  it('brings a line to the target', () => {
+    expect(normalizationGain(-26, 0.1, -16)).toBeCloseTo(Math.pow(10, 10 / 20));
+    expect(normalizationGain(-10, 0.9, -16)).toBeCloseTo(Math.pow(10, -6 / 20));
+  });
+
+  it('stops short of clipping the peaks', () => {
+    const samples = sine(1000, 0.5, 1);
+    const gain = normalizationGain(-30, measurePeak([samples]), -16);
+    expect(gain * measurePeak([samples])).toBeCloseTo(Math.pow(10, -1 / 20));
+  });
+
+  it('leaves silence alone', () => {
+    expect(normalizationGain(-Infinity, 0, -16)).toBe(1);
+  });
+});
@@ -0,0 +1,100 @@
+// Integrated loudness after ITU-R BS.1770 / EBU R128: K-weighted mean square over
+// 400 ms blocks, gated at -70 LUFS and then 10 LU below the ungated level. Used to
+// bring every voiced line to the same loudness, whatever level the TTS returned it at.
+
+export const DEFAULT_LOUDNESS_TARGET = -16; // LUFS, the usual level for speech online
+
+// Normalising never pushes a line's peaks past this, in dBFS
+const PEAK_CEILING_DB = -1;
+
+const BLOCK_SECONDS = 0.4;
+const STEP_SECONDS = 0.1; // blocks overlap by 75%
+const ABSOLUTE_GATE = -70;
+const RELATIVE_GATE = -10;
+
+type Biquad = [b0: number, b1: number, b2: number, a1: number, a2: number];
+
+// The two K-weighting stages, a high shelf for the head and a high pass, derived for
+// any sample rate (the standard only tabulates 48 kHz)
+const kWeighting = (sampleRate: number): Biquad[] => {
+  const shelf = (() => {
+    const K = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+    const Q = 0.7071752369554196;
+    const Vh = Math.pow(10, 3.999843853973347 / 20);
+    const Vb = Math.pow(Vh, 0.4996667741545416);
+    const a0 = 1 + K / Q + K * K;
+    return [
+      (Vh + (Vb * K) / Q + K * K) / a0,
+      (2 * (K * K - Vh)) / a0,
+      (Vh - (Vb * K) / Q + K * K) / a0,
+      (2 * (K * K - 1)) / a0,
+      (1 - K / Q + K * K) / a0
+    ] as Biquad;
+  })();
+  const highPass = (() => {
+    const K = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+    const Q = 0.5003270373238773;
+    const a0 = 1 + K / Q + K * K;
+    return [1, -2, 1, (2 * (K * K - 1)) / a0, (1 - K / Q + K * K) / a0] as Biquad;
+  })();
+  return [shelf, highPass];
+};
+
+const filter = (input: Float32Array, [b0, b1, b2, a1, a2]: Biquad): Float32Array => {
+  const output = new Float32Array(input.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i];
+    const y = b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+    output[i] = y;
+    x2 = x1; x1 = x;
+    y2 = y1; y1 = y;
+  }
+  return output;
+};
+
+const blockLoudness = (meanSquare: number) => -0.691 + 10 * Math.log10(meanSquare);
+
+// Integrated loudness in LUFS, or -Infinity for silence. Channels are weighted equally,
+// as left, right and centre are. A line shorter than one block is measured as a whole.
+export const measureLoudness = (channels: Float32Array[], sampleRate: number): number => {
+  const length = channels[0]?.length ?? 0;
+  if (length === 0) return -Infinity;
+
+  const weighted = channels.map(samples => kWeighting(sampleRate).reduce(filter, samples));
+  const block = Math.min(length, Math.round(BLOCK_SECONDS * sampleRate));
+  const step = Math.round(STEP_SECONDS * sampleRate);
+
+  const blocks: number[] = [];
+  for (let start = 0; start + block <= length; start += step) {
+    let sum = 0;
+    weighted.forEach(samples => {
+      for (let i = start; i < start + block; i++) sum += samples[i] * samples[i];
+    });
+    blocks.push(sum / block);
+  }
+
+  const gated = (threshold: number) => blocks.filter(z => blockLoudness(z) > threshold);
+  const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+  const audible = gated(ABSOLUTE_GATE);
+  if (audible.length === 0) return -Infinity;
+  const kept = gated(Math.max(ABSOLUTE_GATE, blockLoudness(mean(audible)) + RELATIVE_GATE));
+  return blockLoudness(mean(kept));
+};
+
+export const measurePeak = (channels: Float32Array[]): number => {
+  let peak = 0;
+  channels.forEach(samples => {
+    for (let i = 0; i < samples.length; i++) peak = Math.max(peak, Math.abs(samples[i]));
+  });
+  return peak;
+};
+
+// The linear gain that brings a line to `target` LUFS, held back where that would
+// clip its peaks. Silence is left as it is.
+export const normalizationGain = (loudness: number, peak: number, target: number): number => {
+  if (!Number.isFinite(loudness) || peak === 0) return 1;
+  const gain = Math.pow(10, (target - loudness) / 20);
+  return Math.min(gain, Math.pow(10, PEAK_CEILING_DB / 20) / peak);
+};
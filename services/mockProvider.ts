@@ -0,0 +1,111 @@
+import type { DraftLine, DubbingProviders, ScriptProvider, SpeechProvider } from "./providers";
+import { delay } from "./abort";
+
+// Offline stand-in for Gemini: same input, same output, no network or API key.
+// Used for UI development, automated tests and demos.
+
+export interface MockProviderOptions {
+  audio?: 'tone' | 'silence';
+  latencyMs?: number; // simulated request time
+  sampleRate?: number;
+  dialogue?: boolean; // also voice two-speaker exchanges in one take, turns a pause apart
+}
+
+const CANNED_SCRIPT: DraftLine[] = [
+  { startTime: 0.5, text: "Welcome to this offline preview of DubAI.", characterId: "narrator", characterNote: "warm" },
+  { startTime: 3.5, text: "Is anyone else hungry, or is it just me?", characterId: "blue_cat", characterNote: "whiny" },
+  { startTime: 6.5, text: "Every line you hear is a synthesised tone.", characterId: "narrator", characterNote: "calm" },
+  { startTime: 9.5, text: "Then we had better make this take count!", characterId: "yellow_dog", characterNote: "excited" },
+  { startTime: 12.5, text: "Add a Gemini API key to dub for real.", characterId: "narrator", characterNote: "friendly" }
+];
+
+const SECONDS_PER_WORD = 0.32;
+const LEAD_IN_SECONDS = 0.3;
+const TURN_PAUSE_SECONDS = 0.4;
+const REWRITE_OPENERS = ["Well,", "Honestly,", "Look,", "Okay,"];
+
+// Stable pseudo-hash, so each voice gets its own pitch
+const hashString = (value: string): number => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+// Roughly how long a person would take to say the line
+export const estimateSpeechSeconds = (text: string): number => {
+  const words = text.trim().split(/\s+/).filter(Boolean).length;
+  return LEAD_IN_SECONDS + words * SECONDS_PER_WORD;
+};
+
+// Alternative takes swap the opening word, so each rewrite visibly changes the line
+export const rewriteText = (text: string): string => {
+  const current = REWRITE_OPENERS.findIndex(o => text.startsWith(`${o} `));
+  const body = current >= 0 ? text.slice(REWRITE_OPENERS[current].length + 1) : text.trim();
+  const opener = REWRITE_OPENERS[(current + 1) % REWRITE_OPENERS.length];
+  // Keep "I" and "I'm" capitalised
+  const keepCase = /^I\b/.test(body);
+  return `${opener} ${keepCase ? body : body.charAt(0).toLowerCase() + body.slice(1)}`;
+};
+
+// 16-bit PCM: a tone pulsing at syllable rate, or silence
+const synthesizeTone = (seconds: number, sampleRate: number, frequency: number, silent: boolean): Uint8Array => {
+  const samples = Math.round(seconds * sampleRate);
+  const pcm = new Int16Array(samples);
+  if (silent) return new Uint8Array(pcm.buffer);
+
+  const fade = Math.min(samples / 2, sampleRate * 0.02);
+  for (let i = 0; i < samples; i++) {
+    const t = i / sampleRate;
+    const syllables = 0.55 + 0.45 * Math.sin(2 * Math.PI * 4 * t);
+    const envelope = Math.min(1, i / fade, (samples - i) / fade);
+    pcm[i] = Math.round(Math.sin(2 * Math.PI * frequency * t) * syllables * envelope * 0.3 * 0x7fff);
+  }
+  return new Uint8Array(pcm.buffer);
+};
+
+export const createMockProviders = (options: MockProviderOptions = {}): DubbingProviders => {
+  const { audio = 'tone', latencyMs = 300, sampleRate = 24000, dialogue = false } = options;
+  const voiceTone = (text: string, voiceName: string) =>
+    synthesizeTone(estimateSpeechSeconds(text), sampleRate, 140 + (hashString(voiceName) % 200), audio === 'silence');
+
+  const script: ScriptProvider = {
+    name: "Offline mock",
+    generateScript: async ({ translation, signal, onStage }) => {
+      onStage?.('scripting');
+      await delay(latencyMs, signal);
+      // Translate mode pretends the canned lines were spoken in the video
+      return CANNED_SCRIPT.map(line => translation
+        ? { ...line, sourceText: line.text, text: `(${translation.targetLanguage}) ${line.text}` }
+        : { ...line });
+    },
+    rewriteLine: async ({ line, signal }) => {
+      await delay(latencyMs, signal);
+      return rewriteText(line.text);
+    }
+  };
+
+  const speech: SpeechProvider = {
+    name: "Offline mock",
+    synthesize: async ({ text, voice, signal }) => {
+      await delay(latencyMs, signal);
+      return { pcm: voiceTone(text, voice.voiceName), sampleRate };
+    },
+    ...(dialogue ? {
+      synthesizeDialogue: async ({ turns, signal }) => {
+        await delay(latencyMs, signal);
+        const pause = new Uint8Array(Math.round(TURN_PAUSE_SECONDS * sampleRate) * 2);
+        const parts = turns.flatMap((turn, i) => [...(i > 0 ? [pause] : []), voiceTone(turn.text, turn.voice.voiceName)]);
+        const pcm = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+        parts.reduce((offset, part) => {
+          pcm.set(part, offset);
+          return offset + part.length;
+        }, 0);
+        return { pcm, sampleRate };
+      }
+    } : {})
+  };
+
+  return { script, speech };
+};
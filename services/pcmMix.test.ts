@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { mixSpeech, speechDuration } from './pcmMix';
+
+const speech = (samples: number[], sampleRate: number = 10) => ({
+  pcm: new Uint8Array(new Int16Array(samples).buffer),
+  sampleRate
+});
+
+const samplesOf = ({ pcm }: { pcm: Uint8Array }) => Array.from(new Int16Array(pcm.buffer, pcm.byteOffset, pcm.length / 2));
+
+describe('mixSpeech', () => {
+  it('places each line at its start time', () => {
+    const mix = mixSpeech([
+      { startTime: 0.2, speech: speech([100, 200]) },
+      { startTime: 0.5, speech: speech([300]) }
+    ], 0.8, 10);
+
+    expect(mix.sampleRate).toBe(10);
+    expect(samplesOf(mix)).toEqual([0, 0, 100, 200, 0, 300, 0, 0]);
+  });
+
+  it('runs on past the video when the last line does', () => {
+    const mix = mixSpeech([{ startTime: 0.3, speech: speech([1, 2, 3]) }], 0.4, 10);
+    expect(speechDuration(mix)).toBeCloseTo(0.6);
+  });
+
+  it('adds overlapping lines and clips the sum', () => {
+    const mix = mixSpeech([
+      { startTime: 0, speech: speech([1000, 30000]) },
+      { startTime: 0, speech: speech([2000, 30000]) }
+    ], 0, 10);
+
+    expect(samplesOf(mix)).toEqual([3000, 32767]);
+  });
+
+  it('resamples lines to the track rate', () => {
+    const mix = mixSpeech([{ startTime: 0, speech: speech([0, 1000], 5) }], 0, 10);
+    expect(samplesOf(mix)).toEqual([0, 500, 1000, 1000]);
+  });
+
+  it('reads PCM that does not start on an even byte', () => {
+    const bytes = new Uint8Array(5);
+    new DataView(bytes.buffer).setInt16(1, 1234, true);
+    const mix = mixSpeech([{ startTime: 0, speech: { pcm: bytes.subarray(1, 3), sampleRate: 10 } }], 0, 10);
+    expect(samplesOf(mix)).toEqual([1234]);
+  });
+});
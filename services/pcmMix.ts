@@ -0,0 +1,78 @@
+import type { SynthesizedSpeech } from "./providers";
+import { measureLoudness, measurePeak, normalizationGain } from "./loudness";
+
+// Lays voiced lines out on one track using plain typed arrays. The app renders with
+// Web Audio (audioRender.ts); this is for where there is none, such as the batch CLI.
+
+// A voiced line and where it starts on the video's timeline
+export interface PlacedSpeech {
+  startTime: number; // in seconds
+  speech: SynthesizedSpeech;
+}
+
+export const speechDuration = (speech: SynthesizedSpeech): number =>
+  speech.pcm.length / 2 / speech.sampleRate;
+
+// 16-bit little-endian PCM to floats in -1..1. Read through a DataView, since the bytes
+// need not start on an even offset.
+export const pcmSamples = (pcm: Uint8Array): Float32Array => {
+  const view = new DataView(pcm.buffer, pcm.byteOffset, pcm.byteLength);
+  const samples = new Float32Array(Math.floor(pcm.byteLength / 2));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = view.getInt16(i * 2, true) / 0x8000;
+  }
+  return samples;
+};
+
+// Floats back to 16-bit little-endian PCM, clipped to full scale
+const toPcm = (samples: Float32Array): Uint8Array => {
+  const pcm = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    pcm[i] = Math.round(sample < 0 ? sample * 0x8000 : sample * 0x7fff);
+  }
+  return new Uint8Array(pcm.buffer);
+};
+
+// A line brought to `target` LUFS, as the player does with a gain node
+export const normalizeSpeech = (speech: SynthesizedSpeech, target: number): SynthesizedSpeech => {
+  const samples = pcmSamples(speech.pcm);
+  const gain = normalizationGain(measureLoudness([samples], speech.sampleRate), measurePeak([samples]), target);
+  if (gain === 1) return speech;
+  for (let i = 0; i < samples.length; i++) samples[i] *= gain;
+  return { pcm: toPcm(samples), sampleRate: speech.sampleRate };
+};
+
+// Linear interpolation is plenty for speech, which only ever comes at 24 kHz anyway
+const resample = (samples: Float32Array, from: number, to: number): Float32Array => {
+  if (from === to) return samples;
+  const out = new Float32Array(Math.round(samples.length * to / from));
+  for (let i = 0; i < out.length; i++) {
+    const position = i * from / to;
+    const index = Math.floor(position);
+    const next = Math.min(index + 1, samples.length - 1);
+    out[i] = samples[index] + (samples[next] - samples[index]) * (position - index);
+  }
+  return out;
+};
+
+// Mixes every line in at its start time, onto a mono track as long as the video or the
+// last line, whichever ends later. Overlapping lines add up and are clipped, as they
+// would be when played.
+export const mixSpeech = (
+  clips: PlacedSpeech[],
+  durationSeconds: number = 0,
+  sampleRate: number = 24000
+): SynthesizedSpeech => {
+  const end = clips.reduce((max, c) => Math.max(max, c.startTime + speechDuration(c.speech)), durationSeconds);
+  const mix = new Float32Array(Math.ceil(end * sampleRate));
+
+  clips.forEach(({ startTime, speech }) => {
+    const samples = resample(pcmSamples(speech.pcm), speech.sampleRate, sampleRate);
+    const offset = Math.round(Math.max(0, startTime) * sampleRate);
+    const length = Math.min(samples.length, mix.length - offset);
+    for (let i = 0; i < length; i++) mix[offset + i] += samples[i];
+  });
+
+  return { pcm: toPcm(mix), sampleRate };
+};
@@ -0,0 +1,95 @@
+import { MixSettings } from "../types";
+import { DEFAULT_LOUDNESS_TARGET } from "./loudness";
+
+// Web Audio graph behind the player:
+//
+//   <video> -> originalGain --+
+//                             +--> masterGain --> speakers
+//   dub lines -> dubGain -----+               \-> recordDestination (export)
+//
+export interface PlaybackGraph {
+  ctx: AudioContext;
+  originalGain: GainNode;
+  dubGain: GainNode;
+  masterGain: GainNode;
+  recordDestination: MediaStreamAudioDestinationNode;
+}
+
+export const DEFAULT_MIX: MixSettings = {
+  masterVolume: 1,
+  originalVolume: 0.8,
+  dubVolume: 1,
+  duckingDb: -12,
+  loudnessTarget: DEFAULT_LOUDNESS_TARGET
+};
+
+// Smoothing for gain changes, so ducking does not click
+const DUCK_ATTACK = 0.05;
+const DUCK_RELEASE = 0.25;
+
+export const dbToGain = (db: number): number => Math.pow(10, db / 20);
+
+// A media element can only ever be attached to one MediaElementAudioSourceNode,
+// so its graph is shared between mounts (React StrictMode mounts effects twice)
+// and only torn down once nobody has used it for a tick.
+const graphs = new WeakMap<HTMLMediaElement, { graph: PlaybackGraph; users: number }>();
+
+export const acquirePlaybackGraph = (media: HTMLMediaElement): PlaybackGraph => {
+  const existing = graphs.get(media);
+  if (existing) {
+    existing.users++;
+    return existing.graph;
+  }
+
+  // Create context but don't resume yet (must be user initiated on iOS)
+  const Ctx = window.AudioContext || (window as any).webkitAudioContext;
+  const ctx: AudioContext = new Ctx();
+
+  const originalGain = ctx.createGain();
+  const dubGain = ctx.createGain();
+  const masterGain = ctx.createGain();
+  const recordDestination = ctx.createMediaStreamDestination();
+
+  ctx.createMediaElementSource(media).connect(originalGain);
+  originalGain.connect(masterGain);
+  dubGain.connect(masterGain);
+  masterGain.connect(ctx.destination);
+  masterGain.connect(recordDestination);
+
+  const graph = { ctx, originalGain, dubGain, masterGain, recordDestination };
+  graphs.set(media, { graph, users: 1 });
+  return graph;
+};
+
+export const releasePlaybackGraph = (media: HTMLMediaElement) => {
+  const entry = graphs.get(media);
+  if (!entry) return;
+  entry.users--;
+
+  setTimeout(() => {
+    if (entry.users > 0 || graphs.get(media) !== entry) return;
+    graphs.delete(media);
+    entry.graph.ctx.close();
+  }, 0);
+};
+
+// Applies the volume sliders; the original track sits lower while a dub line plays
+export const applyMix = (graph: PlaybackGraph, mix: MixSettings, ducked: boolean) => {
+  const now = graph.ctx.currentTime;
+  const original = mix.originalVolume * (ducked ? dbToGain(mix.duckingDb) : 1);
+
+  graph.masterGain.gain.setTargetAtTime(mix.masterVolume, now, DUCK_ATTACK);
+  graph.dubGain.gain.setTargetAtTime(mix.dubVolume, now, DUCK_ATTACK);
+  graph.originalGain.gain.setTargetAtTime(original, now, ducked ? DUCK_ATTACK : DUCK_RELEASE);
+};
+
+// The same ducking, scheduled ahead of time for an offline render. `intervals` are
+// the [start, end] seconds during which a dub line plays, sorted and non-overlapping.
+export const scheduleDucking = (param: AudioParam, mix: MixSettings, intervals: [number, number][]) => {
+  const ducked = mix.originalVolume * dbToGain(mix.duckingDb);
+  param.setValueAtTime(mix.originalVolume, 0);
+  intervals.forEach(([start, end]) => {
+    param.setTargetAtTime(ducked, start, DUCK_ATTACK);
+    param.setTargetAtTime(mix.originalVolume, end, DUCK_RELEASE);
+  });
+};
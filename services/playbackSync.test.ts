@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { findActiveCaption, findSegmentsToTrigger, shouldPauseForDub } from './playbackSync';
+import { DubbingSegment } from '../types';
+
+const segment = (startTime: number, text: string): DubbingSegment => ({
+  id: text, characterId: 'narrator', startTime, text, audioUrl: `blob:${text}`, duration: 1
+});
+
+const segments = [segment(1, 'first'), segment(3, 'second'), segment(8, 'third')];
+
+describe('findSegmentsToTrigger', () => {
+  it('triggers every line whose start the playhead crossed', () => {
+    const close = [segment(1, 'a'), segment(1.05, 'b'), segment(1.4, 'c')];
+    expect(findSegmentsToTrigger(close, 0.9, 0.99, new Set())).toEqual([]);
+    expect(findSegmentsToTrigger(close, 0.99, 1.2, new Set())).toEqual([0, 1]);
+    expect(findSegmentsToTrigger(close, 1.2, 1.45, new Set())).toEqual([2]);
+  });
+
+  it('does not miss a line between two slow updates', () => {
+    expect(findSegmentsToTrigger(segments, 0.6, 1.5, new Set())).toEqual([0]);
+  });
+
+  it('only starts lines just behind the playhead after a seek', () => {
+    expect(findSegmentsToTrigger(segments, null, 1.25, new Set())).toEqual([0]);
+    expect(findSegmentsToTrigger(segments, null, 1.35, new Set())).toEqual([]);
+    expect(findSegmentsToTrigger(segments, 0, 3.1, new Set())).toEqual([1]);
+  });
+
+  it('never triggers a line twice', () => {
+    expect(findSegmentsToTrigger(segments, 0.9, 1.1, new Set([0]))).toEqual([]);
+  });
+});
+
+describe('shouldPauseForDub', () => {
+  it('pauses shortly before the next line while one is still speaking', () => {
+    expect(shouldPauseForDub(segments, 0, 2.5)).toBe(false);
+    expect(shouldPauseForDub(segments, 0, 2.85)).toBe(true);
+    expect(shouldPauseForDub(segments, 0, 3.2)).toBe(true);
+  });
+
+  it('does not pause without an active line, after the last line or long past the next one', () => {
+    expect(shouldPauseForDub(segments, null, 2.9)).toBe(false);
+    expect(shouldPauseForDub(segments, 2, 9)).toBe(false);
+    expect(shouldPauseForDub(segments, 0, 3.6)).toBe(false);
+  });
+});
+
+describe('findActiveCaption', () => {
+  it('shows each line until the next one starts', () => {
+    expect(findActiveCaption(segments, 0.5)).toBeNull();
+    expect(findActiveCaption(segments, 1)?.text).toBe('first');
+    expect(findActiveCaption(segments, 2.99)?.text).toBe('first');
+    expect(findActiveCaption(segments, 3)?.text).toBe('second');
+  });
+
+  it('hides a caption at its explicit end time', () => {
+    const timed = [{ ...segment(1, 'first'), endTime: 2 }, segment(3, 'second')];
+    expect(findActiveCaption(timed, 1.99)?.text).toBe('first');
+    expect(findActiveCaption(timed, 2)).toBeNull();
+  });
+
+  it('shows the last line for five seconds', () => {
+    expect(findActiveCaption(segments, 12.9)?.text).toBe('third');
+    expect(findActiveCaption(segments, 13)).toBeNull();
+  });
+});
@@ -0,0 +1,64 @@
+import { DubbingSegment } from "../types";
+
+// Timing rules the player applies on every timeupdate event
+
+// A line starts when the playhead crosses its start time between two updates.
+// After a jump longer than MAX_CROSSING (a seek or a stall), only lines that began
+// within LATE_START_WINDOW of the playhead still start.
+export const MAX_CROSSING = 1;
+export const LATE_START_WINDOW = 0.3;
+// Pause the picture when the next line is this close while one is still speaking
+const PAUSE_LEAD = 0.2;
+// ...but not if the next line is already this far behind (e.g. after a seek)
+const PAUSE_GRACE = 0.5;
+// Caption length for the last line
+const LAST_CAPTION_LENGTH = 5;
+
+// Indexes of lines whose start the playhead crossed since the previous update
+// (null right after a seek) and that have not been played yet
+export const findSegmentsToTrigger = (
+  segments: DubbingSegment[],
+  previousTime: number | null,
+  time: number,
+  triggered: Set<number>
+): number[] => {
+  const continuous = previousTime !== null && time >= previousTime && time - previousTime <= MAX_CROSSING;
+  const from = continuous ? previousTime : time - LATE_START_WINDOW;
+  const result: number[] = [];
+  segments.forEach((seg, index) => {
+    if (seg.startTime >= from && seg.startTime <= time && !triggered.has(index)) {
+      result.push(index);
+    }
+  });
+  return result;
+};
+
+// "Smart pause": hold the video while a line is still speaking and the next one is due
+export const shouldPauseForDub = (
+  segments: DubbingSegment[],
+  activeIndex: number | null,
+  time: number
+): boolean => {
+  if (activeIndex === null) return false;
+  const nextSeg = segments[activeIndex + 1];
+  if (!nextSeg) return false;
+
+  const timeToNext = nextSeg.startTime - time;
+  return timeToNext <= PAUSE_LEAD && timeToNext > -PAUSE_GRACE;
+};
+
+// The line whose caption is on screen: the latest one started, until the next begins
+// or its own end time passes
+export const findActiveCaption = (segments: DubbingSegment[], time: number): DubbingSegment | null => {
+  return segments.reduce((prev: DubbingSegment | null, current: DubbingSegment, index: number) => {
+    if (time >= current.startTime) {
+       if (!prev || current.startTime > prev.startTime) {
+         const nextOne = segments[index + 1];
+         const untilNext = nextOne ? nextOne.startTime : current.startTime + LAST_CAPTION_LENGTH;
+         const endTime = current.endTime !== undefined ? Math.min(current.endTime, untilNext) : untilNext;
+         if (time < endTime) return current;
+       }
+    }
+    return prev;
+  }, null);
+};
@@ -0,0 +1,155 @@
+import { DubbingMode, DubbingProject, DubbingSegment, ProjectSegment, ScriptLine, VoiceInstruction } from "../types";
+import { dbDelete, dbGet, dbGetAll, dbPut, PROJECTS_STORE } from "./db";
+import { createZip, readZip, ZipEntry } from "./zip";
+
+export const PROJECT_FILE_EXTENSION = '.dubai';
+
+const PROJECT_FORMAT = 'dubai-project';
+const PROJECT_FORMAT_VERSION = 1;
+const MANIFEST_NAME = 'project.json';
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  updatedAt: number;
+  lineCount: number;
+  segmentCount: number;
+  videoName?: string;
+}
+
+// Shape of project.json inside an exported project file
+interface ProjectManifest extends Omit<DubbingProject, 'segments' | 'video'> {
+  format: string;
+  version: number;
+  segments: (Omit<ProjectSegment, 'audio'> & { audio: string })[];
+  video?: { file: string; type: string };
+}
+
+const createProjectId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Snapshots the current session. Segment audio is copied out of its blob: URL.
+export const createProject = async (fields: {
+  id?: string;
+  name: string;
+  createdAt?: number;
+  instructions: string;
+  mode?: DubbingMode;
+  targetLanguage?: string;
+  script: ScriptLine[];
+  cast: VoiceInstruction[];
+  segments: DubbingSegment[];
+  video?: File | null;
+}): Promise<DubbingProject> => {
+  const segments = await Promise.all(fields.segments.map(async ({ audioUrl, ...seg }) => {
+    const response = await fetch(audioUrl);
+    return { ...seg, audio: await response.blob() };
+  }));
+
+  // Only keep the cast entries this project actually uses
+  const characterIds = new Set([...fields.script, ...fields.segments].map(l => l.characterId));
+  const now = Date.now();
+
+  return {
+    id: fields.id || createProjectId(),
+    name: fields.name.trim() || 'Untitled project',
+    createdAt: fields.createdAt || now,
+    updatedAt: now,
+    instructions: fields.instructions,
+    mode: fields.mode,
+    targetLanguage: fields.targetLanguage,
+    script: fields.script,
+    cast: fields.cast.filter(c => characterIds.has(c.characterId)),
+    segments,
+    video: fields.video || undefined,
+    videoName: fields.video?.name
+  };
+};
+
+// Turns stored audio back into playable segments
+export const restoreSegments = (project: DubbingProject): DubbingSegment[] =>
+  project.segments.map(({ audio, ...seg }) => ({ ...seg, audioUrl: URL.createObjectURL(audio) }));
+
+export const restoreVideo = (project: DubbingProject): File | null => {
+  if (!project.video) return null;
+  return new File([project.video], project.videoName || 'video', { type: project.video.type });
+};
+
+// --- IndexedDB ---
+
+export const saveProject = (project: DubbingProject): Promise<void> => dbPut(PROJECTS_STORE, project);
+
+export const loadProject = (id: string): Promise<DubbingProject | undefined> => dbGet(PROJECTS_STORE, id);
+
+export const deleteProject = (id: string): Promise<void> => dbDelete(PROJECTS_STORE, id);
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const projects = await dbGetAll<DubbingProject>(PROJECTS_STORE);
+  return projects
+    .map(p => ({
+      id: p.id,
+      name: p.name,
+      updatedAt: p.updatedAt,
+      lineCount: p.script.length,
+      segmentCount: p.segments.length,
+      videoName: p.videoName
+    }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+// --- Single-file export / import ---
+
+export const exportProjectFile = async (project: DubbingProject): Promise<Blob> => {
+  const entries: ZipEntry[] = [];
+
+  const segments = await Promise.all(project.segments.map(async ({ audio, ...seg }, i) => {
+    const file = `audio/${String(i + 1).padStart(3, '0')}.wav`;
+    entries.push({ name: file, data: new Uint8Array(await audio.arrayBuffer()) });
+    return { ...seg, audio: file };
+  }));
+
+  let video: ProjectManifest['video'];
+  if (project.video) {
+    const file = `video/${project.videoName || 'video'}`;
+    entries.push({ name: file, data: new Uint8Array(await project.video.arrayBuffer()) });
+    video = { file, type: project.video.type };
+  }
+
+  const { video: _video, segments: _segments, ...rest } = project;
+  const manifest: ProjectManifest = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_FORMAT_VERSION,
+    ...rest,
+    segments,
+    video
+  };
+
+  entries.unshift({ name: MANIFEST_NAME, data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) });
+  return createZip(entries);
+};
+
+export const importProjectFile = async (file: Blob): Promise<DubbingProject> => {
+  const files = readZip(await file.arrayBuffer());
+  const manifestData = files.get(MANIFEST_NAME);
+  if (!manifestData) throw new Error("This file is not a DubAI project.");
+
+  const manifest = JSON.parse(new TextDecoder().decode(manifestData)) as ProjectManifest;
+  if (manifest.format !== PROJECT_FORMAT) throw new Error("This file is not a DubAI project.");
+  if (manifest.version > PROJECT_FORMAT_VERSION) {
+    throw new Error("This project was saved by a newer version of DubAI.");
+  }
+
+  const readBlob = (name: string, type: string): Blob => {
+    const data = files.get(name);
+    if (!data) throw new Error(`The project file is missing "${name}".`);
+    return new Blob([data], { type });
+  };
+
+  const { format: _format, version: _version, video, segments, ...rest } = manifest;
+
+  return {
+    ...rest,
+    segments: segments.map(seg => ({ ...seg, audio: readBlob(seg.audio, 'audio/wav') })),
+    video: video ? readBlob(video.file, video.type) : undefined
+  };
+};
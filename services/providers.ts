@@ -0,0 +1,105 @@
+import { ScriptLine, VoiceInstruction } from "../types";
+import { createGeminiProviders } from "./geminiService";
+import { createMockProviders } from "./mockProvider";
+
+// A script line as a provider drafts it, before the pipeline gives it an id
+export type DraftLine = Omit<ScriptLine, 'id'>;
+
+export type ScriptStage = 'uploading' | 'processing' | 'scripting';
+
+// How far a stage has got: bytes while uploading, windows while scripting a long video
+export interface StageDetail {
+  completed: number;
+  total: number;
+}
+
+// Translate mode: transcribe the speech in the video and translate it
+export interface TranslationRequest {
+  targetLanguage: string; // e.g. "Spanish"
+}
+
+export interface ScriptRequest {
+  video: File;
+  instructions: string;
+  cast: VoiceInstruction[];
+  translation?: TranslationRequest; // absent: write new dialogue and narration
+  videoDuration?: number; // in seconds; long videos are scripted a window at a time
+  fresh?: boolean; // ask the model again even if this script is cached
+  signal?: AbortSignal;
+  onStage?: (stage: ScriptStage, detail?: StageDetail) => void;
+  onWarning?: (message: string) => void; // problems worth showing that did not stop the script
+}
+
+// A neighbouring line, given to the model as context
+export type ContextLine = Pick<ScriptLine, 'startTime' | 'text' | 'characterId'>;
+
+export interface RewriteRequest {
+  line: ContextLine & { characterNote?: string; sourceText?: string };
+  before: ContextLine[]; // in order, nearest last
+  after: ContextLine[];
+  instructions: string;
+  direction?: string; // e.g. "shorter", "funnier"
+  signal?: AbortSignal;
+}
+
+// Writes a timed script for a video, and alternative takes of single lines
+export interface ScriptProvider {
+  readonly name: string;
+  generateScript(request: ScriptRequest): Promise<DraftLine[]>;
+  rewriteLine(request: RewriteRequest): Promise<string>;
+}
+
+export interface SpeechRequest {
+  text: string;
+  voice: VoiceInstruction;
+  note?: string;
+  fresh?: boolean; // a new take: do not reuse cached audio
+  signal?: AbortSignal;
+}
+
+// 16-bit little-endian mono PCM
+export interface SynthesizedSpeech {
+  pcm: Uint8Array;
+  sampleRate: number;
+}
+
+// One line of a conversation voiced in a single request
+export interface DialogueTurn {
+  text: string;
+  voice: VoiceInstruction;
+  note?: string;
+}
+
+export interface DialogueRequest {
+  turns: DialogueTurn[]; // in order, between exactly two speakers
+  fresh?: boolean;
+  signal?: AbortSignal;
+}
+
+// Voices a single line, and optionally a two-speaker exchange as one take
+export interface SpeechProvider {
+  readonly name: string;
+  synthesize(request: SpeechRequest): Promise<SynthesizedSpeech>;
+  synthesizeDialogue?(request: DialogueRequest): Promise<SynthesizedSpeech>;
+}
+
+export interface DubbingProviders {
+  script: ScriptProvider;
+  speech: SpeechProvider;
+}
+
+export type ProviderKind = 'gemini' | 'mock';
+
+// Gemini when an API key is configured, otherwise the offline mock.
+// DUBAI_PROVIDER=mock forces the mock even with a key.
+export const defaultProviderKind = (): ProviderKind => {
+  if (process.env.DUBAI_PROVIDER === 'mock') return 'mock';
+  if (process.env.DUBAI_PROVIDER === 'gemini') return 'gemini';
+  return process.env.API_KEY ? 'gemini' : 'mock';
+};
+
+export const createProviders = (kind: ProviderKind = defaultProviderKind()): DubbingProviders => {
+  return kind === 'gemini'
+    ? createGeminiProviders({ apiKey: process.env.API_KEY || "" })
+    : createMockProviders();
+};
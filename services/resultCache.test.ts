@@ -0,0 +1,110 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { CacheEntry, hashFile, ResultCache, withResultCache } from './resultCache';
+import { createMockProviders } from './mockProvider';
+import { DubbingProviders } from './providers';
+
+const video = new File([new Uint8Array([1, 2, 3])], 'clip.mp4', { type: 'video/mp4' });
+const voice = { characterId: 'narrator', character: 'Narrator', voiceName: 'Kore', voiceDescription: 'calm' };
+
+// In-memory stand-in for the IndexedDB store
+const createMemoryCache = (): ResultCache & { entries: Map<string, CacheEntry> } => {
+  const entries = new Map<string, CacheEntry>();
+  return {
+    entries,
+    get: async key => entries.get(key) as any,
+    put: async entry => {
+      entries.set(entry.key, entry);
+    }
+  };
+};
+
+describe('result cache', () => {
+  let api: DubbingProviders;
+  let cache: ReturnType<typeof createMemoryCache>;
+  let cached: DubbingProviders;
+
+  beforeEach(() => {
+    api = createMockProviders({ latencyMs: 0 });
+    vi.spyOn(api.script, 'generateScript');
+    vi.spyOn(api.speech, 'synthesize');
+    cache = createMemoryCache();
+    cached = withResultCache(api, cache);
+  });
+
+  it('drafts a script once for the same video, instructions and model', async () => {
+    const first = await cached.script.generateScript({ video, instructions: 'Narrate', cast: [] });
+    const again = await cached.script.generateScript({
+      video: new File([new Uint8Array([1, 2, 3])], 'renamed.mp4'),
+      instructions: 'Narrate',
+      cast: [voice]
+    });
+
+    expect(again).toEqual(first);
+    expect(api.script.generateScript).toHaveBeenCalledTimes(1);
+    expect([...cache.entries.values()].map(e => e.kind)).toEqual(['script']);
+  });
+
+  it('asks again when the video or instructions change', async () => {
+    await cached.script.generateScript({ video, instructions: 'Narrate', cast: [] });
+    await cached.script.generateScript({ video, instructions: 'Be funny', cast: [] });
+    await cached.script.generateScript({ video: new File([new Uint8Array([9])], 'clip.mp4'), instructions: 'Narrate', cast: [] });
+    await cached.script.generateScript({ video, instructions: 'Narrate', cast: [], translation: { targetLanguage: 'French' } });
+
+    expect(api.script.generateScript).toHaveBeenCalledTimes(4);
+  });
+
+  it('only voices lines whose text, note or voice changed', async () => {
+    await cached.speech.synthesize({ text: 'Hello', voice, note: 'warm' });
+    await cached.speech.synthesize({ text: 'Hello', voice, note: 'warm' });
+    await cached.speech.synthesize({ text: 'Hello', voice, note: 'shouting' });
+    await cached.speech.synthesize({ text: 'Hello', voice: { ...voice, voiceName: 'Puck' }, note: 'warm' });
+    await cached.speech.synthesize({ text: 'Hello!', voice, note: 'warm' });
+
+    expect(api.speech.synthesize).toHaveBeenCalledTimes(4);
+  });
+
+  it('replaces the cached result when asked for a fresh one', async () => {
+    await cached.speech.synthesize({ text: 'Hello', voice });
+    const take = await cached.speech.synthesize({ text: 'Hello', voice, fresh: true });
+
+    expect(api.speech.synthesize).toHaveBeenCalledTimes(2);
+    expect([...cache.entries.values()][0].value).toBe(take);
+  });
+
+  it('never caches rewrites', async () => {
+    const request = { line: { startTime: 0, text: 'Hi', characterId: 'narrator' }, before: [], after: [], instructions: '' };
+    await cached.script.rewriteLine(request);
+    await cached.script.rewriteLine(request);
+
+    expect(cache.entries.size).toBe(0);
+  });
+
+  it('still returns the result when it cannot be stored', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    cached = withResultCache(api, { get: async () => undefined, put: () => Promise.reject(new Error('Quota exceeded')) });
+
+    await expect(cached.speech.synthesize({ text: 'Hello', voice })).resolves.toMatchObject({ sampleRate: expect.any(Number) });
+  });
+
+  it('asks the API when the cache cannot be read', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    cached = withResultCache(api, { ...cache, get: () => Promise.reject(new Error('Database blocked')) });
+
+    await expect(cached.script.generateScript({ video, instructions: 'Narrate', cast: [] })).resolves.not.toHaveLength(0);
+    await expect(cached.speech.synthesize({ text: 'Hello', voice })).resolves.toMatchObject({ sampleRate: expect.any(Number) });
+    expect(api.script.generateScript).toHaveBeenCalledTimes(1);
+    expect(api.speech.synthesize).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('hashFile', () => {
+  it('depends only on the bytes', async () => {
+    const a = await hashFile(new Blob([new Uint8Array([1, 2, 3])]));
+    const b = await hashFile(new File([new Uint8Array([1, 2, 3])], 'other.mp4'));
+    const c = await hashFile(new Blob([new Uint8Array([1, 2, 4])]));
+
+    expect(a).toMatch(/^[0-9a-f]{64}$/);
+    expect(b).toBe(a);
+    expect(c).not.toBe(a);
+  });
+});
@@ -0,0 +1,182 @@
+import { CACHE_STORE, dbClear, dbDelete, dbGet, dbGetAll, dbPut } from "./db";
+import type { DraftLine, DubbingProviders, SynthesizedSpeech } from "./providers";
+
+// Content-addressed cache of model results. A script is keyed by the video's bytes, the
+// instructions and the model; a clip of speech by its text, delivery, voice and model.
+// Asking again for the same thing is then free, and a run after a one-line edit only
+// pays for that line.
+
+export type CacheKind = 'script' | 'audio';
+
+export interface CacheEntry<T = unknown> {
+  key: string;
+  kind: CacheKind;
+  label: string; // what the entry is, for the cache panel
+  size: number; // in bytes, roughly
+  createdAt: number;
+  value: T;
+}
+
+export type CacheSummary = Omit<CacheEntry, 'value'>;
+
+export interface ResultCache {
+  get<T>(key: string): Promise<CacheEntry<T> | undefined>;
+  put(entry: CacheEntry): Promise<void>;
+}
+
+export const idbResultCache: ResultCache = {
+  get: key => dbGet(CACHE_STORE, key),
+  put: entry => dbPut(CACHE_STORE, entry)
+};
+
+export const listCacheEntries = async (): Promise<CacheSummary[]> => {
+  const entries = await dbGetAll<CacheEntry>(CACHE_STORE);
+  return entries
+    .map(({ value: _value, ...summary }) => summary)
+    .sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const deleteCacheEntry = (key: string): Promise<void> => dbDelete(CACHE_STORE, key);
+
+export const clearCache = (): Promise<void> => dbClear(CACHE_STORE);
+
+// --- Keys ---
+
+const HASH_CHUNK_SIZE = 16 * 1024 * 1024;
+
+const toHex = (digest: ArrayBuffer): string =>
+  Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+
+const sha256 = async (data: Uint8Array): Promise<string> => toHex(await crypto.subtle.digest('SHA-256', data));
+
+export const hashKey = (parts: Record<string, unknown>): Promise<string> =>
+  sha256(new TextEncoder().encode(JSON.stringify(parts)));
+
+// Hashes the file a chunk at a time (SubtleCrypto cannot stream), so a 2GB video never
+// has to sit in memory whole. The result is a hash of the chunk hashes.
+export const hashFile = async (file: Blob): Promise<string> => {
+  const chunkHashes: string[] = [];
+  for (let offset = 0; offset < file.size || offset === 0; offset += HASH_CHUNK_SIZE) {
+    chunkHashes.push(await sha256(new Uint8Array(await file.slice(offset, offset + HASH_CHUNK_SIZE).arrayBuffer())));
+  }
+  return hashKey({ size: file.size, chunks: chunkHashes });
+};
+
+// The same File object is hashed once per session
+const fileHashes = new WeakMap<Blob, Promise<string>>();
+
+const cachedFileHash = (file: Blob): Promise<string> => {
+  let hash = fileHashes.get(file);
+  if (!hash) {
+    hash = hashFile(file);
+    fileHashes.set(file, hash);
+  }
+  return hash;
+};
+
+// --- Provider wrapper ---
+
+// Cache writes are best-effort: a full disk must not fail a run that already succeeded
+const store = (cache: ResultCache, entry: CacheEntry) =>
+  cache.put(entry).catch(e => console.warn("Could not cache a result", e));
+
+// Reads too: a blocked or broken database is a miss, and the API is asked instead
+const lookup = <T>(cache: ResultCache, key: string): Promise<CacheEntry<T> | undefined> =>
+  cache.get<T>(key).catch(e => {
+    console.warn("Could not read a cached result", e);
+    return undefined;
+  });
+
+const label = (text: string): string => (text.length > 60 ? `${text.slice(0, 57)}...` : text);
+
+// Looks a clip of speech up by its key parts, or synthesizes and stores it
+const cachedSpeech = async (
+  cache: ResultCache,
+  fresh: boolean | undefined,
+  keyParts: Record<string, unknown>,
+  description: string,
+  synthesize: () => Promise<SynthesizedSpeech>
+): Promise<SynthesizedSpeech> => {
+  const key = await hashKey(keyParts);
+  if (!fresh) {
+    const hit = await lookup<SynthesizedSpeech>(cache, key);
+    if (hit) return hit.value;
+  }
+
+  const speech = await synthesize();
+  await store(cache, {
+    key,
+    kind: 'audio',
+    label: label(description),
+    size: speech.pcm.byteLength,
+    createdAt: Date.now(),
+    value: speech
+  });
+  return speech;
+};
+
+// Wraps providers so results are looked up before the API is called and stored after.
+// Rewrites are never cached: asking again is how a user gets a different take.
+export const withResultCache = (providers: DubbingProviders, cache: ResultCache = idbResultCache): DubbingProviders => ({
+  script: {
+    name: providers.script.name,
+    generateScript: async request => {
+      // The cast is left out on purpose: every script adds its characters to the cast,
+      // so keying on it would miss the second time round
+      const key = await hashKey({
+        kind: 'script',
+        provider: providers.script.name,
+        video: await cachedFileHash(request.video),
+        instructions: request.instructions,
+        targetLanguage: request.translation?.targetLanguage ?? null
+      });
+
+      if (!request.fresh) {
+        const hit = await lookup<DraftLine[]>(cache, key);
+        if (hit) return hit.value;
+      }
+
+      const lines = await providers.script.generateScript(request);
+      const json = JSON.stringify(lines);
+      await store(cache, {
+        key,
+        kind: 'script',
+        label: label(`${request.video.name}: ${request.instructions || 'no instructions'}`),
+        size: json.length,
+        createdAt: Date.now(),
+        value: lines
+      });
+      return lines;
+    },
+    rewriteLine: request => providers.script.rewriteLine(request)
+  },
+  speech: {
+    name: providers.speech.name,
+    synthesize: request => {
+      const { text, voice, note } = request;
+      return cachedSpeech(cache, request.fresh, {
+        kind: 'audio',
+        provider: providers.speech.name,
+        text,
+        note: note || '',
+        voiceName: voice.voiceName,
+        voiceDescription: voice.voiceDescription
+      }, `${voice.voiceName}: ${text}`, () => providers.speech.synthesize(request));
+    },
+    // Only offered when the wrapped provider offers it, so callers can still tell
+    ...(providers.speech.synthesizeDialogue ? {
+      synthesizeDialogue: request => cachedSpeech(cache, request.fresh, {
+        kind: 'dialogue',
+        provider: providers.speech.name,
+        turns: request.turns.map(({ text, voice, note }) => ({
+          text,
+          note: note || '',
+          characterId: voice.characterId,
+          character: voice.character,
+          voiceName: voice.voiceName,
+          voiceDescription: voice.voiceDescription
+        }))
+      }, request.turns.map(t => `${t.voice.voiceName}: ${t.text}`).join(' / '), () => providers.speech.synthesizeDialogue!(request))
+    } : {})
+  }
+});
@@ -0,0 +1,28 @@
+import { ScriptLine } from "../types";
+
+const createLineId = (): string => Math.random().toString(36).slice(2, 10);
+
+export const createScriptLine = (fields: Partial<Omit<ScriptLine, 'id'>> = {}): ScriptLine => ({
+  id: createLineId(),
+  startTime: fields.startTime ?? 0,
+  text: fields.text ?? "",
+  characterId: fields.characterId ?? "narrator",
+  characterNote: fields.characterNote ?? "",
+  ...(fields.endTime !== undefined ? { endTime: fields.endTime } : {}),
+  ...(fields.sourceText ? { sourceText: fields.sourceText } : {})
+});
+
+// Moves the content of a line up or down while each slot keeps its timestamp,
+// so the script stays in playback order.
+export const moveScriptLine = (lines: ScriptLine[], index: number, direction: -1 | 1): ScriptLine[] => {
+  const target = index + direction;
+  if (target < 0 || target >= lines.length) return lines;
+
+  const next = [...lines];
+  next[index] = { ...lines[target], startTime: lines[index].startTime };
+  next[target] = { ...lines[index], startTime: lines[target].startTime };
+  return next;
+};
+
+export const sortScriptLines = (lines: ScriptLine[]): ScriptLine[] =>
+  [...lines].sort((a, b) => a.startTime - b.startTime);
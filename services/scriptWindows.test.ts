@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { alignToWindow, mergeWindowScripts, planScriptWindows } from './scriptWindows';
+
+const line = (startTime: number, text: string, characterId = 'narrator') =>
+  ({ startTime, text, characterId, characterNote: '' });
+
+describe('planScriptWindows', () => {
+  it('keeps short or unmeasured videos in one window', () => {
+    expect(planScriptWindows(120)).toEqual([{ start: 0, end: 120 }]);
+    expect(planScriptWindows(undefined)).toEqual([{ start: 0, end: 0 }]);
+  });
+
+  it('covers a long video with overlapping windows', () => {
+    expect(planScriptWindows(700, 300, 20)).toEqual([
+      { start: 0, end: 300 },
+      { start: 280, end: 580 },
+      { start: 560, end: 700 }
+    ]);
+  });
+
+  it('folds a sliver at the end into the window before it', () => {
+    expect(planScriptWindows(590, 300, 20)).toEqual([
+      { start: 0, end: 300 },
+      { start: 280, end: 590 }
+    ]);
+  });
+});
+
+describe('mergeWindowScripts', () => {
+  const first = { start: 0, end: 300 };
+  const second = { start: 280, end: 580 };
+
+  it('cuts each overlap at its midpoint', () => {
+    const merged = mergeWindowScripts([
+      { window: first, lines: [line(10, 'Intro'), line(285, 'Early in the overlap'), line(295, 'Late by window one')] },
+      { window: second, lines: [line(286, 'Early by window two'), line(296, 'Late in the overlap'), line(400, 'Middle')] }
+    ]);
+
+    expect(merged.map(l => l.text)).toEqual(['Intro', 'Early in the overlap', 'Late in the overlap', 'Middle']);
+  });
+
+  it('keeps a line both windows heard at the cut only once', () => {
+    const merged = mergeWindowScripts([
+      { window: first, lines: [line(289.5, 'Over here, quickly!')] },
+      { window: second, lines: [line(290.4, 'Over here quickly'), line(291, 'Coming!', 'blue_cat')] }
+    ]);
+
+    expect(merged.map(l => [l.startTime, l.text])).toEqual([[289.5, 'Over here, quickly!'], [291, 'Coming!']]);
+  });
+
+  it('keeps similar lines from different speakers', () => {
+    const merged = mergeWindowScripts([
+      { window: first, lines: [line(289.5, 'Hello there')] },
+      { window: second, lines: [line(290.5, 'Hello there', 'blue_cat')] }
+    ]);
+
+    expect(merged).toHaveLength(2);
+  });
+});
+
+describe('alignToWindow', () => {
+  it('shifts lines timed from the start of the clip', () => {
+    const window = { start: 280, end: 580 };
+    expect(alignToWindow([{ ...line(5, 'A'), endTime: 7 }, line(30, 'B')], window).map(l => [l.startTime, l.endTime]))
+      .toEqual([[285, 287], [310, undefined]]);
+  });
+
+  it('leaves lines already timed against the full video', () => {
+    const lines = [line(275, 'A'), line(300, 'B')];
+    expect(alignToWindow(lines, { start: 280, end: 580 })).toBe(lines);
+  });
+});
@@ -0,0 +1,91 @@
+import type { DraftLine } from "./providers";
+
+// Long videos are scripted in overlapping windows: one request per window keeps each
+// response small and well-timed, and the overlap stops lines at a boundary being lost.
+
+export interface ScriptWindow {
+  start: number; // in seconds
+  end: number;
+}
+
+export const SCRIPT_WINDOW_SECONDS = 300;
+export const WINDOW_OVERLAP_SECONDS = 20;
+// Lines this close together with similar words are the same line seen from two windows
+const DUPLICATE_SECONDS = 2.5;
+const DUPLICATE_SIMILARITY = 0.6;
+
+// A single window for short videos (or an unknown length)
+export const planScriptWindows = (
+  duration: number | undefined,
+  windowSeconds: number = SCRIPT_WINDOW_SECONDS,
+  overlapSeconds: number = WINDOW_OVERLAP_SECONDS
+): ScriptWindow[] => {
+  if (!duration || duration <= windowSeconds) return [{ start: 0, end: duration || 0 }];
+
+  const step = windowSeconds - overlapSeconds;
+  const windows: ScriptWindow[] = [];
+  for (let start = 0; start < duration; start += step) {
+    const end = Math.min(duration, start + windowSeconds);
+    windows.push({ start, end });
+    if (end >= duration) break;
+  }
+
+  // A sliver at the end is not worth its own request
+  const last = windows[windows.length - 1];
+  if (windows.length > 1 && last.end - last.start < overlapSeconds * 2) {
+    windows.pop();
+    windows[windows.length - 1].end = duration;
+  }
+  return windows;
+};
+
+const words = (text: string): Set<string> =>
+  new Set(text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, " ").split(/\s+/).filter(Boolean));
+
+// Share of words in common, relative to the shorter line
+const similarity = (a: string, b: string): number => {
+  const wa = words(a);
+  const wb = words(b);
+  if (wa.size === 0 || wb.size === 0) return 0;
+  let shared = 0;
+  wa.forEach(w => {
+    if (wb.has(w)) shared++;
+  });
+  return shared / Math.min(wa.size, wb.size);
+};
+
+// Joins the windows' scripts. Each overlap is split at its midpoint, and a line both
+// windows picked up near that point is kept once.
+export const mergeWindowScripts = (results: { window: ScriptWindow; lines: DraftLine[] }[]): DraftLine[] => {
+  const merged: DraftLine[] = [];
+
+  results.forEach(({ window, lines }, i) => {
+    const previous = results[i - 1]?.window;
+    const next = results[i + 1]?.window;
+    const from = previous ? (window.start + previous.end) / 2 : -Infinity;
+    const to = next ? (next.start + window.end) / 2 : Infinity;
+
+    const kept = lines.filter(l => l.startTime >= from && l.startTime < to);
+    kept.forEach(line => {
+      const duplicate = merged.some(m =>
+        Math.abs(m.startTime - line.startTime) <= DUPLICATE_SECONDS
+        && m.characterId === line.characterId
+        && similarity(m.text, line.text) >= DUPLICATE_SIMILARITY
+      );
+      if (!duplicate) merged.push(line);
+    });
+  });
+
+  return merged.sort((a, b) => a.startTime - b.startTime);
+};
+
+// Models sometimes time a clipped request from the start of the clip rather than of
+// the video. If every line falls before the window, shift them into it.
+export const alignToWindow = (lines: DraftLine[], window: ScriptWindow): DraftLine[] => {
+  if (window.start <= 0 || lines.length === 0 || !lines.every(l => l.startTime < window.start)) return lines;
+  return lines.map(l => ({
+    ...l,
+    startTime: l.startTime + window.start,
+    ...(l.endTime !== undefined ? { endTime: l.endTime + window.start } : {})
+  }));
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { cuesToScriptLines, parseSubtitles, segmentsToCues, toSrt, toVtt } from './subtitles';
+import { DubbingSegment } from '../types';
+
+const segment = (startTime: number, duration: number, text: string): DubbingSegment => ({
+  id: text, characterId: 'narrator', startTime, text, audioUrl: '', duration
+});
+
+describe('caption export', () => {
+  const cues = segmentsToCues([segment(1, 2.5, 'Hello there'), segment(65.25, 1.004, 'Bye')]);
+
+  it('ends each cue when its audio ends', () => {
+    expect(cues.map(c => [c.start, c.end])).toEqual([[1, 3.5], [65.25, 66.254]]);
+  });
+
+  it('writes SRT', () => {
+    expect(toSrt(cues)).toBe(
+      '1\n00:00:01,000 --> 00:00:03,500\nHello there\n\n' +
+      '2\n00:01:05,250 --> 00:01:06,254\nBye\n'
+    );
+  });
+
+  it('writes WebVTT', () => {
+    expect(toVtt(cues)).toBe(
+      'WEBVTT\n\n00:00:01.000 --> 00:00:03.500\nHello there\n\n' +
+      '00:01:05.250 --> 00:01:06.254\nBye\n'
+    );
+  });
+
+  it('shows the dub, the original speech or both for translated segments', () => {
+    const translated = [{ ...segment(0, 1, 'Hola'), sourceText: 'Hello' }, segment(2, 1, 'Adiós')];
+
+    expect(segmentsToCues(translated, 'dub').map(c => c.text)).toEqual(['Hola', 'Adiós']);
+    expect(segmentsToCues(translated, 'original').map(c => c.text)).toEqual(['Hello', 'Adiós']);
+    expect(segmentsToCues(translated, 'bilingual').map(c => c.text)).toEqual(['Hola\nHello', 'Adiós']);
+  });
+});
+
+describe('caption import', () => {
+  it('reads SRT with CRLF line endings and multi-line cues', () => {
+    const srt = '1\r\n00:00:01,500 --> 00:00:03,000\r\nFirst line\r\ncontinued\r\n\r\n2\r\n01:00:00,000 --> 01:00:02,000\r\n<i>Second</i>\r\n';
+    expect(parseSubtitles(srt)).toEqual([
+      { start: 1.5, end: 3, text: 'First line continued', speaker: undefined },
+      { start: 3600, end: 3602, text: 'Second', speaker: undefined }
+    ]);
+  });
+
+  it('reads WebVTT with notes, cue ids, settings and voice tags', () => {
+    const vtt = 'WEBVTT\n\nNOTE made by hand\n\nintro\n00:02.5 --> 00:04.000 align:start\n<v Blue cat>Meow!\n';
+    const cues = parseSubtitles(vtt);
+
+    expect(cues).toEqual([{ start: 2.5, end: 4, text: 'Meow!', speaker: 'Blue cat' }]);
+    expect(cuesToScriptLines(cues)[0]).toMatchObject({ startTime: 2.5, text: 'Meow!', characterId: 'blue_cat' });
+  });
+
+  it('rejects files without cues', () => {
+    expect(() => parseSubtitles('just some text')).toThrow('No captions found');
+  });
+});
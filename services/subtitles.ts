@@ -0,0 +1,123 @@
+import { DubbingSegment, ScriptLine } from "../types";
+import { createScriptLine } from "./script";
+import { normalizeCharacterId } from "./cast";
+import { formatTimestamp } from "./timecode";
+
+export interface SubtitleCue {
+  start: number; // in seconds
+  end: number; // in seconds
+  text: string;
+  speaker?: string;
+}
+
+export type SubtitleFormat = 'srt' | 'vtt';
+
+// Which text a caption shows: the dub, the original speech (translate mode), or both
+export type SubtitleTrack = 'dub' | 'original' | 'bilingual';
+
+// Fallback caption length when a segment has no audio length
+const DEFAULT_CUE_LENGTH = 5;
+
+// Accepts "HH:MM:SS,mmm", "HH:MM:SS.mmm" and "MM:SS.mmm"
+const parseCueTime = (value: string): number | null => {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[.,](\d{1,3}))?$/);
+  if (!match) return null;
+  const [, hours, minutes, secs, fraction] = match;
+  return (parseInt(hours || '0') * 3600)
+    + (parseInt(minutes) * 60)
+    + parseInt(secs)
+    + (fraction ? parseInt(fraction.padEnd(3, '0')) / 1000 : 0);
+};
+
+const cueText = (seg: DubbingSegment, track: SubtitleTrack): string => {
+  if (!seg.sourceText || track === 'dub') return seg.text;
+  if (track === 'original') return seg.sourceText;
+  return seg.sourceText === seg.text ? seg.text : `${seg.text}\n${seg.sourceText}`;
+};
+
+// Caption timing for a voiced timeline: each cue lasts as long as its audio,
+// or until the line's explicit end time
+export const segmentsToCues = (segments: DubbingSegment[], track: SubtitleTrack = 'dub'): SubtitleCue[] => {
+  return segments.map((seg, index) => {
+    const next = segments[index + 1];
+    const length = seg.duration > 0
+      ? seg.duration
+      : (next ? next.startTime - seg.startTime : DEFAULT_CUE_LENGTH);
+    return {
+      start: seg.startTime,
+      end: seg.endTime ?? seg.startTime + Math.max(length, 0.1),
+      text: cueText(seg, track)
+    };
+  });
+};
+
+export const toSrt = (cues: SubtitleCue[]): string => {
+  return cues.map((cue, index) => [
+    `${index + 1}`,
+    `${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}`,
+    cue.text
+  ].join('\n')).join('\n\n') + '\n';
+};
+
+export const toVtt = (cues: SubtitleCue[]): string => {
+  const body = cues.map(cue => [
+    `${formatTimestamp(cue.start)} --> ${formatTimestamp(cue.end)}`,
+    cue.speaker ? `<v ${cue.speaker}>${cue.text}` : cue.text
+  ].join('\n')).join('\n\n');
+  return `WEBVTT\n\n${body}\n`;
+};
+
+export const formatSubtitles = (cues: SubtitleCue[], format: SubtitleFormat): string =>
+  format === 'srt' ? toSrt(cues) : toVtt(cues);
+
+// Parses SRT or WebVTT. Cue numbers, NOTE/STYLE blocks and styling tags are dropped;
+// a WebVTT voice tag (<v Blue cat>) is kept as the speaker.
+export const parseSubtitles = (content: string): SubtitleCue[] => {
+  const blocks = content
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .split(/\n{2,}/);
+
+  const cues: SubtitleCue[] = [];
+
+  for (const block of blocks) {
+    const lines = block.split('\n').filter(l => l.trim().length > 0);
+    const timingIndex = lines.findIndex(l => l.includes('-->'));
+    if (timingIndex === -1) continue;
+
+    const [startPart, endPart] = lines[timingIndex].split('-->');
+    const start = parseCueTime(startPart);
+    // WebVTT allows cue settings after the end time
+    const end = parseCueTime((endPart || '').trim().split(/\s+/)[0] || '');
+    if (start === null || end === null) continue;
+
+    let speaker: string | undefined;
+    const text = lines.slice(timingIndex + 1)
+      .map(l => l.replace(/<v(?:\.[^\s>]*)?\s+([^>]+)>/g, (_, name: string) => {
+        speaker = speaker || name.trim();
+        return '';
+      }))
+      .map(l => l.replace(/<[^>]+>/g, '').trim())
+      .filter(Boolean)
+      .join(' ');
+
+    if (!text) continue;
+    cues.push({ start, end: Math.max(end, start), text, speaker });
+  }
+
+  if (cues.length === 0) {
+    throw new Error("No captions found. Please choose a valid .srt or .vtt file.");
+  }
+
+  return cues.sort((a, b) => a.start - b.start);
+};
+
+// Turns imported captions into a draft script, ready for review and voicing
+export const cuesToScriptLines = (cues: SubtitleCue[]): ScriptLine[] => {
+  return cues.map(cue => createScriptLine({
+    startTime: cue.start,
+    endTime: cue.end > cue.start ? cue.end : undefined,
+    text: cue.text,
+    characterId: cue.speaker ? normalizeCharacterId(cue.speaker) : undefined
+  }));
+};
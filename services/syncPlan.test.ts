@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_FIT_RATE, planSegmentFits } from './syncPlan';
+import { DubbingSegment } from '../types';
+
+const segment = (startTime: number, duration: number, extra: Partial<DubbingSegment> = {}): DubbingSegment => ({
+  id: `at-${startTime}`, characterId: 'narrator', startTime, text: '', audioUrl: '', duration, ...extra
+});
+
+describe('planSegmentFits', () => {
+  const segments = [segment(0, 2.6), segment(2.05, 1), segment(4, 3)];
+
+  it('leaves lines alone when pausing or overlapping, and reports the overrun', () => {
+    const fits = planSegmentFits(segments, 'pause');
+    expect(fits.map(f => f.rate)).toEqual([1, 1, 1]);
+    expect(fits[0].available).toBeCloseTo(2);
+    expect(fits[0].overrun).toBeCloseTo(0.6);
+    expect(fits[1].overrun).toBe(0);
+  });
+
+  it('speeds a long line up just enough to end before the next cue', () => {
+    const [first] = planSegmentFits(segments, 'fit');
+    expect(first.rate).toBeCloseTo(1.3);
+    expect(first.overrun).toBeCloseTo(0);
+  });
+
+  it('caps the speed and reports what still does not fit', () => {
+    const [first] = planSegmentFits([segment(0, 4), segment(2.05, 1)], 'fit');
+    expect(first.rate).toBe(MAX_FIT_RATE);
+    expect(first.overrun).toBeCloseTo(4 / MAX_FIT_RATE - 2);
+  });
+
+  it('fits the last line to its end time or the end of the video', () => {
+    expect(planSegmentFits([segment(4, 3)], 'fit')[0]).toMatchObject({ available: null, rate: 1 });
+    expect(planSegmentFits([segment(4, 3)], 'fit', 6)[0].rate).toBeCloseTo(1.5);
+    expect(planSegmentFits([segment(4, 3, { endTime: 6.5 })], 'fit')[0].rate).toBeCloseTo(1.2);
+  });
+});
@@ -0,0 +1,49 @@
+import { DubbingSegment } from "../types";
+
+// How the player deals with a line that is longer than the gap before the next cue:
+// "pause" holds the picture until it finishes, "fit" time-compresses it to end in
+// time, "overlap" lets it run over the next line.
+export type SyncStrategy = 'pause' | 'fit' | 'overlap';
+
+export const SYNC_STRATEGIES: SyncStrategy[] = ['pause', 'fit', 'overlap'];
+export const DEFAULT_SYNC_STRATEGY: SyncStrategy = 'pause';
+
+// Faster than this stops sounding like natural speech; longer lines still overrun
+export const MAX_FIT_RATE = 1.5;
+// Room left before the next line starts, so fitted lines do not run into each other
+const FIT_GAP = 0.05;
+
+export interface SegmentFit {
+  id: string;
+  available: number | null; // seconds before the next cue, end time or end of video; null when unbounded
+  rate: number; // playback speed applied to the line; 1 means untouched
+  overrun: number; // seconds the line still runs past `available` once played at `rate`
+}
+
+// Works out, for each segment in playback order, how fast it has to play and by how much
+// it still overruns. Segments must be sorted by start time.
+export const planSegmentFits = (
+  segments: DubbingSegment[],
+  strategy: SyncStrategy,
+  videoDuration?: number
+): SegmentFit[] => {
+  return segments.map((seg, index) => {
+    const next = segments[index + 1];
+    const limits = [
+      seg.endTime,
+      next ? next.startTime - FIT_GAP : undefined,
+      videoDuration && videoDuration > 0 ? videoDuration : undefined
+    ].filter((t): t is number => t !== undefined);
+
+    if (limits.length === 0 || seg.duration <= 0) {
+      return { id: seg.id, available: null, rate: 1, overrun: 0 };
+    }
+
+    const available = Math.max(0, Math.min(...limits) - seg.startTime);
+    const rate = strategy === 'fit' && seg.duration > available
+      ? Math.min(MAX_FIT_RATE, available > 0 ? seg.duration / available : MAX_FIT_RATE)
+      : 1;
+    const overrun = Math.max(0, seg.duration / rate - available);
+    return { id: seg.id, available, rate, overrun };
+  });
+};
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { pitchShift, timeStretch } from './timeStretch';
+
+const SAMPLE_RATE = 24000;
+
+const sine = (frequency: number, seconds: number): Float32Array => {
+  const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE);
+  }
+  return samples;
+};
+
+// Frequency estimated from upward zero crossings
+const measureFrequency = (samples: Float32Array): number => {
+  let crossings = 0;
+  for (let i = 1; i < samples.length; i++) {
+    if (samples[i - 1] < 0 && samples[i] >= 0) crossings++;
+  }
+  return crossings / (samples.length / SAMPLE_RATE);
+};
+
+describe('timeStretch', () => {
+  it('shortens the audio by the rate', () => {
+    const input = sine(220, 1);
+    expect(timeStretch(input, 1.5, SAMPLE_RATE).length).toBe(16000);
+    expect(timeStretch(input, 1.2, SAMPLE_RATE).length).toBe(20000);
+  });
+
+  it('keeps the pitch', () => {
+    const stretched = timeStretch(sine(220, 1), 1.4, SAMPLE_RATE);
+    // Skip the fade-in of the first window
+    expect(measureFrequency(stretched.subarray(1000))).toBeCloseTo(220, -1);
+  });
+
+  it('returns a copy at normal speed', () => {
+    const input = sine(220, 0.1);
+    const output = timeStretch(input, 1, SAMPLE_RATE);
+    expect(output).toEqual(input);
+    expect(output).not.toBe(input);
+  });
+});
+
+describe('pitchShift', () => {
+  it('keeps the length', () => {
+    expect(pitchShift(sine(220, 1), 5, SAMPLE_RATE).length).toBe(SAMPLE_RATE);
+    expect(pitchShift(sine(220, 1), -7, SAMPLE_RATE).length).toBe(SAMPLE_RATE);
+  });
+
+  it('moves the frequency by the interval', () => {
+    expect(measureFrequency(pitchShift(sine(220, 1), 12, SAMPLE_RATE).subarray(1000, 20000))).toBeCloseTo(440, -1);
+    expect(measureFrequency(pitchShift(sine(220, 1), -12, SAMPLE_RATE).subarray(1000, 20000))).toBeCloseTo(110, -1);
+  });
+});
@@ -0,0 +1,107 @@
+// Pitch-preserving time compression (WSOLA): the signal is cut into overlapping
+// windows that are re-spaced closer together, each nudged to the offset where it
+// lines up best with the previous one, so voices speed up without sounding higher.
+// The same stretch, followed by a resample, shifts the pitch without changing the length.
+
+const FRAME_SECONDS = 0.03;
+const SEARCH_SECONDS = 0.008;
+
+let windowCache: Float32Array | null = null;
+
+// Periodic Hann window; at 50% overlap consecutive windows sum to exactly 1
+const hannWindow = (length: number): Float32Array => {
+  if (windowCache?.length === length) return windowCache;
+  const window = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / length);
+  }
+  windowCache = window;
+  return window;
+};
+
+// Returns the samples played `rate` times faster (rate > 1 shortens them)
+export const timeStretch = (input: Float32Array, rate: number, sampleRate: number): Float32Array => {
+  if (rate === 1 || input.length === 0) return input.slice();
+
+  const frame = Math.max(4, Math.round(sampleRate * FRAME_SECONDS) & ~1);
+  const hop = frame / 2;
+  const tolerance = Math.round(sampleRate * SEARCH_SECONDS);
+  const outputLength = Math.max(1, Math.round(input.length / rate));
+  const output = new Float32Array(outputLength + frame);
+  const window = hannWindow(frame);
+
+  let previous = 0;
+  for (let k = 0; k * hop < outputLength; k++) {
+    const ideal = Math.min(Math.round(k * hop * rate), Math.max(0, input.length - frame));
+    let best = ideal;
+
+    // Find the offset whose start best continues the previous window
+    const natural = previous + hop;
+    if (k > 0 && natural + hop <= input.length) {
+      let bestScore = -Infinity;
+      for (let delta = -tolerance; delta <= tolerance; delta += 2) {
+        const candidate = ideal + delta;
+        if (candidate < 0 || candidate + hop > input.length) continue;
+        let score = 0;
+        for (let i = 0; i < hop; i += 2) {
+          score += input[natural + i] * input[candidate + i];
+        }
+        if (score > bestScore) {
+          bestScore = score;
+          best = candidate;
+        }
+      }
+    }
+
+    const outStart = k * hop;
+    for (let i = 0; i < frame && best + i < input.length; i++) {
+      output[outStart + i] += input[best + i] * window[i];
+    }
+    previous = best;
+  }
+
+  return output.slice(0, outputLength);
+};
+
+// Same as timeStretch for every channel of a decoded buffer
+export const stretchAudioBuffer = (buffer: AudioBuffer, rate: number): AudioBuffer => {
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) =>
+    timeStretch(buffer.getChannelData(c), rate, buffer.sampleRate)
+  );
+  const stretched = new AudioBuffer({
+    length: channels[0].length,
+    numberOfChannels: buffer.numberOfChannels,
+    sampleRate: buffer.sampleRate
+  });
+  channels.forEach((data, c) => stretched.copyToChannel(data, c));
+  return stretched;
+};
+
+// Moves the pitch by `semitones` and keeps the length: stretched to the new length
+// first, then resampled back, which scales every frequency by the same factor
+export const pitchShift = (input: Float32Array, semitones: number, sampleRate: number): Float32Array => {
+  if (semitones === 0 || input.length === 0) return input.slice();
+
+  const factor = Math.pow(2, semitones / 12);
+  const stretched = timeStretch(input, 1 / factor, sampleRate);
+  const output = new Float32Array(input.length);
+  for (let i = 0; i < output.length; i++) {
+    const position = Math.min(i * factor, stretched.length - 1);
+    const index = Math.floor(position);
+    const next = Math.min(index + 1, stretched.length - 1);
+    output[i] = stretched[index] + (stretched[next] - stretched[index]) * (position - index);
+  }
+  return output;
+};
+
+export const pitchShiftAudioBuffer = (buffer: AudioBuffer, semitones: number): AudioBuffer => {
+  const shifted = new AudioBuffer({
+    length: buffer.length,
+    numberOfChannels: buffer.numberOfChannels,
+    sampleRate: buffer.sampleRate
+  });
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    shifted.copyToChannel(pitchShift(buffer.getChannelData(c), semitones, buffer.sampleRate), c);
+  }
+  return shifted;
+};
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { formatTimestamp, parseTimestamp } from './timecode';
+
+describe('parseTimestamp', () => {
+  it('parses MM:SS and HH:MM:SS', () => {
+    expect(parseTimestamp('00:05')).toBe(5);
+    expect(parseTimestamp('02:30')).toBe(150);
+    expect(parseTimestamp('1:02:03')).toBe(3723);
+  });
+
+  it('keeps milliseconds', () => {
+    expect(parseTimestamp('00:01.250')).toBe(1.25);
+    expect(parseTimestamp('00:00:04,5')).toBe(4.5);
+    expect(parseTimestamp('01:00:00.001')).toBe(3600.001);
+  });
+
+  it('reads plain seconds', () => {
+    expect(parseTimestamp('7')).toBe(7);
+    expect(parseTimestamp('12.345s')).toBe(12.345);
+    expect(parseTimestamp(3.5)).toBe(3.5);
+  });
+
+  it('returns null for values it cannot read', () => {
+    expect(parseTimestamp('')).toBeNull();
+    expect(parseTimestamp(undefined)).toBeNull();
+    expect(parseTimestamp('soon')).toBeNull();
+    expect(parseTimestamp('00:75')).toBeNull();
+    expect(parseTimestamp('1:75:00')).toBeNull();
+    expect(parseTimestamp(-1)).toBeNull();
+  });
+});
+
+describe('formatTimestamp', () => {
+  it('writes HH:MM:SS.mmm', () => {
+    expect(formatTimestamp(3723.25)).toBe('01:02:03.250');
+    expect(formatTimestamp(0.0004)).toBe('00:00:00.000');
+  });
+
+  it('writes an SRT comma when asked', () => {
+    expect(formatTimestamp(61.5, ',')).toBe('00:01:01,500');
+  });
+});
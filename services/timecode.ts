@@ -0,0 +1,31 @@
+// Timestamps as models and people write them, with millisecond precision
+
+const roundMs = (seconds: number): number => Math.round(seconds * 1000) / 1000;
+
+// Accepts "HH:MM:SS.mmm", "MM:SS.mmm", "SS.mmm", "12.5s" and plain numbers, with "." or "," as
+// the decimal mark. Returns null for anything else, so callers can report it instead of guessing.
+export const parseTimestamp = (value: string | number | null | undefined): number | null => {
+  if (typeof value === 'number') return isFinite(value) && value >= 0 ? roundMs(value) : null;
+  if (!value) return null;
+  const text = value.trim().replace(',', '.');
+
+  const seconds = text.match(/^(\d+(?:\.\d+)?)\s*s?$/i);
+  if (seconds) return roundMs(parseFloat(seconds[1]));
+
+  const match = text.match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2}(?:\.\d+)?)$/);
+  if (!match) return null;
+  const [, hours, minutes, secs] = match;
+  if (parseFloat(secs) >= 60 || (hours !== undefined && parseInt(minutes) >= 60)) return null;
+  return roundMs(parseInt(hours || '0') * 3600 + parseInt(minutes) * 60 + parseFloat(secs));
+};
+
+const pad = (value: number, length: number = 2) => value.toString().padStart(length, '0');
+
+// Seconds to "HH:MM:SS.mmm", or "HH:MM:SS,mmm" as SRT writes it
+export const formatTimestamp = (seconds: number, fractionSeparator: '.' | ',' = '.'): string => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${fractionSeparator}${pad(totalMs % 1000, 3)}`;
+};
@@ -0,0 +1,162 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRequestScheduler, isRetryableError, retryAfterMs } from './ttsQueue';
+
+const rateLimited = (message = 'Too many requests') => Object.assign(new Error(message), { status: 429 });
+
+describe('retryAfterMs', () => {
+  it('reads the retry delay from a Gemini error body', () => {
+    expect(retryAfterMs(new Error('got status: 429. {"error":{"details":[{"retryDelay":"23s"}]}}'))).toBe(23000);
+    expect(retryAfterMs(new Error('Quota exceeded. Please retry in 4.5s.'))).toBe(4500);
+  });
+
+  it('reads a Retry-After header', () => {
+    expect(retryAfterMs({ headers: { 'retry-after': '7' } })).toBe(7000);
+  });
+
+  it('returns null without a hint', () => {
+    expect(retryAfterMs(new Error('Bad request'))).toBeNull();
+  });
+});
+
+describe('isRetryableError', () => {
+  it('retries rate limits and server errors but not bad requests', () => {
+    expect(isRetryableError(rateLimited())).toBe(true);
+    expect(isRetryableError(Object.assign(new Error('x'), { status: 503 }))).toBe(true);
+    expect(isRetryableError(new Error('RESOURCE_EXHAUSTED'))).toBe(true);
+    expect(isRetryableError(Object.assign(new Error('Invalid voice'), { status: 400 }))).toBe(false);
+  });
+});
+
+describe('request scheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('never runs more than the concurrency limit at once', async () => {
+    const scheduler = createRequestScheduler({ concurrency: 2 });
+    let running = 0;
+    let peak = 0;
+    const task = async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise(resolve => setTimeout(resolve, 100));
+      running--;
+      return 'done';
+    };
+
+    const results = Promise.all(Array.from({ length: 5 }, () => scheduler.schedule(task)));
+    await vi.runAllTimersAsync();
+
+    expect(await results).toEqual(['done', 'done', 'done', 'done', 'done']);
+    expect(peak).toBe(2);
+  });
+
+  it('retries with exponential backoff', async () => {
+    const scheduler = createRequestScheduler({ baseDelayMs: 1000, random: () => 1 });
+    const attempts: number[] = [];
+    const task = vi.fn(async () => {
+      attempts.push(Date.now());
+      if (attempts.length < 3) throw Object.assign(new Error('Service unavailable'), { status: 503 });
+      return 'ok';
+    });
+
+    const result = scheduler.schedule(task);
+    await vi.runAllTimersAsync();
+
+    expect(await result).toBe('ok');
+    expect(attempts[1] - attempts[0]).toBe(1000);
+    expect(attempts[2] - attempts[1]).toBe(2000);
+  });
+
+  it('waits at least as long as the server asks', async () => {
+    const scheduler = createRequestScheduler({ baseDelayMs: 1000, random: () => 1 });
+    const attempts: number[] = [];
+    const task = async () => {
+      attempts.push(Date.now());
+      if (attempts.length === 1) throw rateLimited('Please retry in 10s.');
+      return 'ok';
+    };
+
+    const result = scheduler.schedule(task);
+    await vi.runAllTimersAsync();
+
+    expect(await result).toBe('ok');
+    expect(attempts[1] - attempts[0]).toBe(10000);
+  });
+
+  it('holds back other requests during a rate-limit cool-down', async () => {
+    const scheduler = createRequestScheduler({ concurrency: 2, baseDelayMs: 1000, random: () => 1 });
+    const started: number[] = [];
+    let limited = false;
+    const task = async () => {
+      started.push(Date.now());
+      if (!limited) {
+        limited = true;
+        throw rateLimited('Please retry in 5s.');
+      }
+      return 'ok';
+    };
+
+    scheduler.schedule(task);
+    await vi.advanceTimersByTimeAsync(0);
+    const second = scheduler.schedule(task);
+    await vi.runAllTimersAsync();
+
+    expect(await second).toBe('ok');
+    expect(started.slice(1).every(t => t >= 5000)).toBe(true);
+  });
+
+  it('fails straight away on errors that will not go away', async () => {
+    const scheduler = createRequestScheduler();
+    const task = vi.fn(async () => { throw Object.assign(new Error('Invalid voice'), { status: 400 }); });
+
+    await expect(scheduler.schedule(task)).rejects.toThrow('Invalid voice');
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up after the retry limit', async () => {
+    const scheduler = createRequestScheduler({ maxRetries: 2 });
+    const task = vi.fn(async () => { throw rateLimited(); });
+
+    const result = scheduler.schedule(task).catch(e => e);
+    await vi.runAllTimersAsync();
+
+    expect(await result).toMatchObject({ status: 429 });
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it('stops retrying once cancelled', async () => {
+    const scheduler = createRequestScheduler();
+    const controller = new AbortController();
+    const task = vi.fn(async () => { throw rateLimited(); });
+
+    const result = scheduler.schedule(task, controller.signal).catch(e => e);
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort();
+
+    expect(await result).toMatchObject({ name: 'AbortError' });
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('drops a cancelled request from the queue without waiting for a slot', async () => {
+    const scheduler = createRequestScheduler({ concurrency: 1 });
+    const controller = new AbortController();
+    const slow = scheduler.schedule(() => new Promise(resolve => setTimeout(() => resolve('slow'), 10000)));
+    const task = vi.fn(async () => 'queued');
+
+    const queued = scheduler.schedule(task, controller.signal).catch(e => e);
+    const next = scheduler.schedule(async () => 'next');
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort();
+
+    expect(await queued).toMatchObject({ name: 'AbortError' });
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(await slow).toBe('slow');
+    expect(await next).toBe('next');
+    expect(task).not.toHaveBeenCalled();
+  });
+});
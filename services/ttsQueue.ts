@@ -0,0 +1,154 @@
+// Request scheduler for TTS calls: bounded concurrency, retries with exponential
+// backoff and jitter, and a shared cool-down whenever the API asks us to slow down.
+
+import { abortError, delay, throwIfAborted } from "./abort";
+
+export interface SchedulerOptions {
+  concurrency?: number;
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  random?: () => number; // injectable for tests
+}
+
+export interface RequestScheduler {
+  schedule<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T>;
+  setConcurrency(concurrency: number): void;
+  readonly concurrency: number;
+}
+
+export const DEFAULT_TTS_CONCURRENCY = 3;
+
+const DEFAULTS = {
+  maxRetries: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000
+};
+
+const errorText = (error: any): string => `${error?.message || ''} ${error?.status || ''}`;
+
+export const isRateLimitError = (error: any): boolean =>
+  error?.status === 429 || /\b429\b|RESOURCE_EXHAUSTED|rate limit/i.test(errorText(error));
+
+// 429s, server hiccups and dropped connections are worth another try; bad requests are not
+export const isRetryableError = (error: any): boolean => {
+  if (error?.name === 'AbortError') return false;
+  if (isRateLimitError(error)) return true;
+  if ([500, 502, 503, 504].includes(error?.status)) return true;
+  return /\b(500|502|503|504)\b|UNAVAILABLE|INTERNAL|DEADLINE_EXCEEDED|overloaded|Failed to fetch|fetch failed|network/i
+    .test(errorText(error));
+};
+
+// Reads a server hint for how long to back off, in milliseconds.
+// Gemini puts it in the error body ("retryDelay": "23s" / "Please retry in 23.4s");
+// plain HTTP errors may carry a Retry-After header.
+export const retryAfterMs = (error: any): number | null => {
+  const header = error?.headers?.get?.('retry-after') ?? error?.headers?.['retry-after'];
+  if (header) {
+    const seconds = Number(header);
+    if (!isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(header);
+    if (!isNaN(date)) return Math.max(0, date - Date.now());
+  }
+
+  const text = errorText(error);
+  const match = text.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/) || text.match(/retry in (\d+(?:\.\d+)?)\s*s/i);
+  return match ? parseFloat(match[1]) * 1000 : null;
+};
+
+export const createRequestScheduler = (options: SchedulerOptions = {}): RequestScheduler => {
+  const maxRetries = options.maxRetries ?? DEFAULTS.maxRetries;
+  const baseDelayMs = options.baseDelayMs ?? DEFAULTS.baseDelayMs;
+  const maxDelayMs = options.maxDelayMs ?? DEFAULTS.maxDelayMs;
+  const random = options.random || Math.random;
+
+  let concurrency = Math.max(1, options.concurrency ?? DEFAULT_TTS_CONCURRENCY);
+  let running = 0;
+  let cooldownUntil = 0;
+  const waiting: (() => void)[] = [];
+
+  // Waits for a slot; a request cancelled while waiting leaves the queue straight away
+  const acquire = (signal?: AbortSignal): Promise<void> => {
+    if (signal?.aborted) return Promise.reject(abortError());
+    if (running < concurrency) {
+      running++;
+      return Promise.resolve();
+    }
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        waiting.splice(waiting.indexOf(start), 1);
+        reject(abortError());
+      };
+      const start = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      waiting.push(start);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  };
+
+  // Hands the slot straight to the next waiting request, if there is room for it
+  const release = () => {
+    const next = running <= concurrency ? waiting.shift() : undefined;
+    if (next) {
+      next();
+    } else {
+      running--;
+    }
+  };
+
+  // Everyone waits out a rate-limit cool-down, not just the request that hit it
+  const waitForCooldown = async (signal?: AbortSignal) => {
+    while (Date.now() < cooldownUntil) {
+      await delay(Math.ceil(cooldownUntil - Date.now()), signal);
+    }
+  };
+
+  const backoffMs = (attempt: number, error: any): number => {
+    const exponential = Math.min(maxDelayMs, baseDelayMs * Math.pow(2, attempt));
+    // Jitter over the upper half, so parallel retries spread out
+    const jittered = exponential * (0.5 + random() * 0.5);
+    const hinted = retryAfterMs(error);
+    return hinted !== null ? Math.max(hinted, jittered) : jittered;
+  };
+
+  // A cancelled request gives up its place in the queue and never retries
+  const schedule = async <T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+      await acquire(signal);
+      let failure: unknown;
+      try {
+        throwIfAborted(signal);
+        await waitForCooldown(signal);
+        return await task();
+      } catch (error) {
+        failure = error;
+      } finally {
+        release();
+      }
+
+      if (attempt >= maxRetries || !isRetryableError(failure)) throw failure;
+
+      const delayMs = backoffMs(attempt, failure);
+      if (isRateLimitError(failure)) {
+        cooldownUntil = Math.max(cooldownUntil, Date.now() + delayMs);
+      }
+      await delay(delayMs, signal);
+    }
+  };
+
+  return {
+    schedule,
+    setConcurrency: (value: number) => {
+      concurrency = Math.max(1, Math.floor(value));
+      while (running < concurrency && waiting.length > 0) {
+        running++;
+        waiting.shift()!();
+      }
+    },
+    get concurrency() {
+      return concurrency;
+    }
+  };
+};
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { planMux } from './videoMux';
+
+describe('planMux', () => {
+  it('keeps H.264 and HEVC in MP4, preferring AAC audio', () => {
+    expect(planMux(['avc'], ['aac', 'opus'])).toEqual({ container: 'mp4', videoCodec: 'avc', audioCodec: 'aac' });
+    expect(planMux(['hevc'], ['opus'])).toEqual({ container: 'mp4', videoCodec: 'hevc', audioCodec: 'opus' });
+  });
+
+  it('keeps VP8, VP9 and AV1 in WebM with Opus', () => {
+    expect(planMux(['vp9'], ['aac', 'opus'])).toEqual({ container: 'webm', videoCodec: 'vp9', audioCodec: 'opus' });
+    expect(planMux(['av1'], ['opus'])).toEqual({ container: 'webm', videoCodec: 'av1', audioCodec: 'opus' });
+  });
+
+  it('gives up when the video cannot be copied or no audio codec can be encoded', () => {
+    expect(planMux(['prores'], ['aac', 'opus'])).toBeNull();
+    expect(planMux([], ['aac'])).toBeNull();
+    expect(planMux(['vp8'], ['aac'])).toBeNull();
+  });
+
+  it('re-encodes into the first codec that has a container and audio to match', () => {
+    expect(planMux(['avc', 'vp9'], ['opus'])).toEqual({ container: 'mp4', videoCodec: 'avc', audioCodec: 'opus' });
+    expect(planMux(['avc', 'vp9'], [])).toBeNull();
+  });
+});
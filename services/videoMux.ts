@@ -0,0 +1,237 @@
+import {
+  ALL_FORMATS, AudioBufferSink, AudioBufferSource, AudioCodec, BlobSource, BufferTarget, canEncodeAudio,
+  canEncodeVideo, CanvasSink, CanvasSource, EncodedPacketSink, EncodedVideoPacketSource, Input, InputVideoTrack,
+  Mp4OutputFormat, Output, QUALITY_HIGH, VideoCodec, WebMOutputFormat
+} from "mediabunny";
+import { throwIfAborted } from "./abort";
+
+// Frame-accurate export: the source's encoded video frames are copied as they are and
+// muxed with the rendered dub soundtrack, which is the only thing encoded (WebCodecs).
+// Nothing is played back, so the result has the source's length, frame rate and quality
+// however slow the machine is. Burning in captions means drawing on every frame, so then
+// the frames are decoded and encoded again, still one for one with the source.
+
+export type MuxContainer = 'mp4' | 'webm';
+
+export interface MuxPlan {
+  container: MuxContainer;
+  videoCodec: VideoCodec;
+  audioCodec: AudioCodec;
+}
+
+// Draws over a frame before it is encoded; `time` is the frame's timestamp in seconds
+export type FrameOverlay = (
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  width: number,
+  height: number,
+  time: number
+) => void;
+
+export interface MuxedVideo {
+  blob: Blob;
+  extension: MuxContainer;
+}
+
+export interface MuxOptions {
+  overlay?: FrameOverlay; // re-encodes the video with this drawn on every frame
+  signal?: AbortSignal;
+  onProgress?: (fraction: number) => void;
+}
+
+// Video codecs each container can carry, and the audio to pair with them
+const CONTAINER_CODECS: { container: MuxContainer; video: VideoCodec[]; audio: AudioCodec[] }[] = [
+  { container: 'mp4', video: ['avc', 'hevc'], audio: ['aac', 'opus'] },
+  { container: 'webm', video: ['vp8', 'vp9', 'av1'], audio: ['opus'] }
+];
+
+// Audio is handed to the muxer a second at a time, interleaved with the video
+const AUDIO_CHUNK_SECONDS = 1;
+
+// Codecs to re-encode into, most compatible first
+const REENCODE_VIDEO_CODECS: VideoCodec[] = ['avc', 'vp9', 'vp8'];
+
+// Picks the first of `videoCodecs` a container can carry, with an audio codec this
+// browser can encode for that container. For a straight copy that is just the source's
+// codec. Null means there is no way to mux it here.
+export const planMux = (videoCodecs: VideoCodec[], encodableAudio: AudioCodec[]): MuxPlan | null => {
+  for (const videoCodec of videoCodecs) {
+    for (const { container, video, audio } of CONTAINER_CODECS) {
+      if (!video.includes(videoCodec)) continue;
+      const audioCodec = audio.find(codec => encodableAudio.includes(codec));
+      if (audioCodec) return { container, videoCodec, audioCodec };
+    }
+  }
+  return null;
+};
+
+// WebCodecs is what makes muxing possible; without it only screen recording is left
+export const canMuxVideo = (): boolean =>
+  typeof VideoDecoder !== 'undefined' && typeof VideoEncoder !== 'undefined' && typeof AudioEncoder !== 'undefined'
+  && typeof OffscreenCanvas !== 'undefined';
+
+const encodableAudioCodecs = async (audio: AudioBuffer): Promise<AudioCodec[]> => {
+  const candidates: AudioCodec[] = ['aac', 'opus'];
+  const supported = await Promise.all(candidates.map(codec => canEncodeAudio(codec, {
+    numberOfChannels: audio.numberOfChannels,
+    sampleRate: audio.sampleRate,
+    quality: QUALITY_HIGH
+  })));
+  return candidates.filter((_, i) => supported[i]);
+};
+
+// Copies a stretch of the soundtrack into its own buffer
+const sliceAudioBuffer = (audio: AudioBuffer, start: number, end: number): AudioBuffer => {
+  const slice = new AudioBuffer({
+    length: end - start,
+    numberOfChannels: audio.numberOfChannels,
+    sampleRate: audio.sampleRate
+  });
+  for (let channel = 0; channel < audio.numberOfChannels; channel++) {
+    slice.copyToChannel(audio.getChannelData(channel).subarray(start, end), channel);
+  }
+  return slice;
+};
+
+// Decodes the source's own soundtrack, so the export can mix it under the dub.
+// Null when the video has no audio track; throws if it has one this browser cannot decode.
+export const readSourceAudio = async (video: Blob, signal?: AbortSignal): Promise<AudioBuffer | null> => {
+  const input = new Input({ source: new BlobSource(video), formats: ALL_FORMATS });
+  try {
+    const track = await input.getPrimaryAudioTrack();
+    if (!track) return null;
+    if (!(await track.canDecode())) throw new Error(`This browser cannot decode the video's ${track.codec} audio.`);
+
+    const chunks: AudioBuffer[] = [];
+    for await (const { buffer } of new AudioBufferSink(track).buffers()) {
+      throwIfAborted(signal);
+      chunks.push(buffer);
+    }
+    if (chunks.length === 0) return null;
+
+    const { numberOfChannels, sampleRate } = chunks[0];
+    const joined = new AudioBuffer({
+      length: chunks.reduce((sum, c) => sum + c.length, 0),
+      numberOfChannels,
+      sampleRate
+    });
+    let offset = 0;
+    chunks.forEach(chunk => {
+      for (let channel = 0; channel < numberOfChannels; channel++) {
+        // Mono chunks in a stereo track fill both sides
+        joined.copyToChannel(chunk.getChannelData(Math.min(channel, chunk.numberOfChannels - 1)), channel, offset);
+      }
+      offset += chunk.length;
+    });
+    return joined;
+  } finally {
+    input.dispose();
+  }
+};
+
+const encodableVideoCodecs = async (track: InputVideoTrack): Promise<VideoCodec[]> => {
+  const supported = await Promise.all(REENCODE_VIDEO_CODECS.map(codec => canEncodeVideo(codec, {
+    width: track.displayWidth,
+    height: track.displayHeight,
+    quality: QUALITY_HIGH
+  })));
+  return REENCODE_VIDEO_CODECS.filter((_, i) => supported[i]);
+};
+
+// Muxes the source's video frames with `audio`. Resolves null when this browser or
+// source cannot be muxed, so the caller can fall back to recording playback.
+export const muxDubbedVideo = async (
+  video: Blob,
+  audio: AudioBuffer,
+  options: MuxOptions = {}
+): Promise<MuxedVideo | null> => {
+  const { overlay, signal, onProgress } = options;
+  if (!canMuxVideo()) return null;
+
+  const input = new Input({ source: new BlobSource(video), formats: ALL_FORMATS });
+  try {
+    const videoTrack = await input.getPrimaryVideoTrack();
+    if (!videoTrack) return null;
+
+    const reencode = !!overlay;
+    if (reencode && !(await videoTrack.canDecode())) return null;
+    const videoCodecs = reencode ? await encodableVideoCodecs(videoTrack) : videoTrack.codec ? [videoTrack.codec] : [];
+    const plan = planMux(videoCodecs, await encodableAudioCodecs(audio));
+    const decoderConfig = await videoTrack.getDecoderConfig();
+    if (!plan || !decoderConfig) {
+      console.warn(`Cannot mux ${videoTrack.codec} video here; falling back to recording.`);
+      return null;
+    }
+
+    const output = new Output({
+      format: plan.container === 'mp4' ? new Mp4OutputFormat({ fastStart: 'in-memory' }) : new WebMOutputFormat(),
+      target: new BufferTarget()
+    });
+
+    // Re-encoded frames come out of the sink already rotated upright
+    const width = videoTrack.displayWidth;
+    const height = videoTrack.displayHeight;
+    const canvas = reencode ? new OffscreenCanvas(width, height) : null;
+    const canvasCtx = canvas?.getContext('2d') ?? null;
+    if (reencode && !canvasCtx) return null;
+    const packetSource = reencode ? null : new EncodedVideoPacketSource(plan.videoCodec);
+    const canvasSource = canvas ? new CanvasSource(canvas, { codec: plan.videoCodec, quality: QUALITY_HIGH }) : null;
+    output.addVideoTrack((packetSource || canvasSource)!, reencode ? {} : { rotation: videoTrack.rotation });
+    const audioSource = new AudioBufferSource({ codec: plan.audioCodec, quality: QUALITY_HIGH });
+    output.addAudioTrack(audioSource);
+    await output.start();
+
+    try {
+      const duration = await videoTrack.computeDuration();
+      const chunkLength = Math.round(AUDIO_CHUNK_SECONDS * audio.sampleRate);
+      let audioOffset = 0;
+
+      // Keeps the soundtrack a chunk ahead of the frames, so the muxer can interleave them
+      const addAudioUntil = async (seconds: number) => {
+        const until = Math.min(audio.length, Math.ceil(seconds * audio.sampleRate) + chunkLength);
+        while (audioOffset < until) {
+          const end = Math.min(until, audioOffset + chunkLength);
+          await audioSource.add(sliceAudioBuffer(audio, audioOffset, end));
+          audioOffset = end;
+        }
+      };
+
+      const reportProgress = (end: number) => {
+        if (duration > 0) onProgress?.(Math.min(1, end / duration));
+      };
+
+      if (canvasSource && canvasCtx) {
+        for await (const frame of new CanvasSink(videoTrack, { width, height }).canvases()) {
+          throwIfAborted(signal);
+          canvasCtx.drawImage(frame.canvas, 0, 0, width, height);
+          overlay!(canvasCtx, width, height, frame.timestamp);
+          await canvasSource.add(frame.timestamp, frame.duration);
+          await addAudioUntil(frame.timestamp);
+          reportProgress(frame.timestamp + frame.duration);
+        }
+      } else if (packetSource) {
+        let first = true;
+        for await (const packet of new EncodedPacketSink(videoTrack).packets()) {
+          throwIfAborted(signal);
+          await packetSource.add(packet, first ? { decoderConfig } : undefined);
+          first = false;
+          await addAudioUntil(packet.timestamp);
+          reportProgress(packet.timestamp + packet.duration);
+        }
+      }
+      await addAudioUntil(Infinity);
+      throwIfAborted(signal);
+
+      await output.finalize();
+    } catch (e) {
+      await output.cancel();
+      throw e;
+    }
+
+    return {
+      blob: new Blob([output.target.buffer!], { type: output.format.mimeType }),
+      extension: plan.container
+    };
+  } finally {
+    input.dispose();
+  }
+};
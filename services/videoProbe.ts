@@ -0,0 +1,21 @@
+// Reads a video's length from its metadata, in seconds. Resolves undefined for files the
+// browser cannot read, so callers can carry on without it.
+export const readVideoDuration = (file: File, timeoutMs = 10000): Promise<number | undefined> =>
+  new Promise(resolve => {
+    const video = document.createElement('video');
+    const url = URL.createObjectURL(file);
+    let timer: ReturnType<typeof setTimeout>;
+
+    const finish = (duration?: number) => {
+      clearTimeout(timer);
+      video.removeAttribute('src');
+      URL.revokeObjectURL(url);
+      resolve(duration !== undefined && isFinite(duration) && duration > 0 ? duration : undefined);
+    };
+
+    timer = setTimeout(() => finish(), timeoutMs);
+    video.preload = 'metadata';
+    video.onloadedmetadata = () => finish(video.duration);
+    video.onerror = () => finish();
+    video.src = url;
+  });
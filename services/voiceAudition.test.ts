@@ -0,0 +1,50 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { AUDITION_TEXT, auditionVoice } from './voiceAudition';
+import { createMockProviders } from './mockProvider';
+import { createRequestScheduler } from './ttsQueue';
+import { DubbingProviders } from './providers';
+
+describe('auditionVoice', () => {
+  let providers: DubbingProviders;
+  const scheduler = createRequestScheduler({ maxRetries: 0 });
+
+  beforeEach(() => {
+    // A new provider name per test keeps samples cached by earlier tests out of the way
+    providers = createMockProviders({ latencyMs: 0 });
+    Object.defineProperty(providers.speech, 'name', { value: `mock-${Math.random()}` });
+  });
+
+  it('voices the sample sentence in the chosen voice', async () => {
+    const synthesize = vi.spyOn(providers.speech, 'synthesize');
+    const sample = await auditionVoice(providers, { voiceName: 'Charon', scheduler });
+
+    expect(synthesize).toHaveBeenCalledWith(expect.objectContaining({
+      text: AUDITION_TEXT,
+      voice: expect.objectContaining({ voiceName: 'Charon' })
+    }));
+    expect(sample.audioUrl).toMatch(/^blob:/);
+    expect(sample.duration).toBeGreaterThan(0);
+  });
+
+  it('asks for each voice, text and style only once', async () => {
+    const synthesize = vi.spyOn(providers.speech, 'synthesize');
+    const first = auditionVoice(providers, { voiceName: 'Kore', scheduler });
+    const again = auditionVoice(providers, { voiceName: 'Kore', scheduler });
+    expect(again).toBe(first);
+    await first;
+
+    await auditionVoice(providers, { voiceName: 'Kore', style: 'whispering', scheduler });
+    await auditionVoice(providers, { voiceName: 'Puck', scheduler });
+    expect(synthesize).toHaveBeenCalledTimes(3);
+  });
+
+  it('tries again after a failure', async () => {
+    const synthesize = providers.speech.synthesize;
+    providers.speech.synthesize = vi.fn()
+      .mockRejectedValueOnce(new Error('Quota exceeded'))
+      .mockImplementation(synthesize);
+
+    await expect(auditionVoice(providers, { voiceName: 'Leda', scheduler })).rejects.toThrow('Quota exceeded');
+    await expect(auditionVoice(providers, { voiceName: 'Leda', scheduler })).resolves.toHaveProperty('duration');
+  });
+});
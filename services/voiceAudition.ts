@@ -0,0 +1,51 @@
+import { pcmToWav } from "./wav";
+import { speechDuration } from "./pcmMix";
+import { defaultTtsScheduler } from "./dubbingPipeline";
+import type { RequestScheduler } from "./ttsQueue";
+import type { DubbingProviders } from "./providers";
+
+// Short samples of a voice, for choosing one by ear. Every sample is requested once
+// per session; with the result cache on it is also kept across sessions, so
+// auditioning the library twice costs nothing.
+
+export const AUDITION_TEXT = "Hello! This is how I sound when I read a line of your script.";
+
+export interface AuditionSample {
+  audioUrl: string;
+  duration: number;
+}
+
+export interface AuditionRequest {
+  voiceName: string;
+  text?: string;
+  style?: string; // standing style, as a cast entry's voice description
+  signal?: AbortSignal;
+  scheduler?: RequestScheduler;
+}
+
+const samples = new Map<string, Promise<AuditionSample>>();
+
+export const auditionVoice = (providers: DubbingProviders, request: AuditionRequest): Promise<AuditionSample> => {
+  const text = (request.text ?? AUDITION_TEXT).trim() || AUDITION_TEXT;
+  const style = request.style?.trim() || '';
+  const key = JSON.stringify([providers.speech.name, request.voiceName, text, style]);
+
+  const cached = samples.get(key);
+  if (cached) return cached;
+
+  const scheduler = request.scheduler || defaultTtsScheduler;
+  const sample = scheduler.schedule(() => providers.speech.synthesize({
+    text,
+    voice: { characterId: 'audition', character: request.voiceName, voiceName: request.voiceName, voiceDescription: style },
+    signal: request.signal
+  }), request.signal).then(speech => ({
+    audioUrl: URL.createObjectURL(pcmToWav(speech.pcm, speech.sampleRate)),
+    duration: speechDuration(speech)
+  }));
+  // A failed or cancelled sample is asked for again next time
+  sample.catch(() => {
+    if (samples.get(key) === sample) samples.delete(key);
+  });
+  samples.set(key, sample);
+  return sample;
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { DubbingSegment, VoiceEffects, VoiceInstruction } from '../types';
+import { hasEffects, NO_EFFECTS, planVoiceChains, readVoiceEffects, segmentEffects } from './voiceEffects';
+
+const RADIO: VoiceEffects = { ...NO_EFFECTS, preset: 'radio' };
+const DEEP: VoiceEffects = { ...NO_EFFECTS, pitch: -4, reverb: 0.3 };
+
+const cast: VoiceInstruction[] = [
+  { characterId: 'pilot', character: 'Pilot', voiceName: 'Kore', voiceDescription: '', effects: RADIO },
+  { characterId: 'narrator', character: 'Narrator', voiceName: 'Puck', voiceDescription: '' }
+];
+
+const segment = (characterId: string, effects?: VoiceEffects): DubbingSegment => ({
+  id: `${characterId}-1`, characterId, startTime: 0, text: 'Hello', audioUrl: 'blob:a', duration: 1, effects
+});
+
+// Just enough of an AudioBuffer to be measured: a mono tone at `amplitude`
+const toneBuffer = (amplitude: number): AudioBuffer => {
+  const sampleRate = 24000;
+  const samples = new Float32Array(sampleRate);
+  for (let i = 0; i < samples.length; i++) samples[i] = amplitude * Math.sin((2 * Math.PI * 1000 * i) / sampleRate);
+  return { numberOfChannels: 1, sampleRate, getChannelData: () => samples } as unknown as AudioBuffer;
+};
+
+describe('voice effects', () => {
+  it('uses a line\'s own effects over its character\'s', () => {
+    expect(segmentEffects(segment('pilot'), cast)).toBe(RADIO);
+    expect(segmentEffects(segment('pilot', DEEP), cast)).toBe(DEEP);
+    expect(segmentEffects(segment('narrator'), cast)).toBe(NO_EFFECTS);
+    expect(segmentEffects(segment('stranger'), cast)).toBe(NO_EFFECTS);
+  });
+
+  it('tells neutral settings apart from real ones', () => {
+    expect(hasEffects(undefined)).toBe(false);
+    expect(hasEffects({ ...NO_EFFECTS })).toBe(false);
+    expect(hasEffects(RADIO)).toBe(true);
+    expect(hasEffects({ ...NO_EFFECTS, gainDb: -3 })).toBe(true);
+  });
+
+  it('reads stored effects, clamping what is out of range', () => {
+    expect(readVoiceEffects(undefined)).toBeUndefined();
+    expect(readVoiceEffects({ preset: 'robot', pitch: 40, reverb: '0.5' })).toEqual({
+      ...NO_EFFECTS, preset: 'robot', pitch: 12, reverb: 0.5
+    });
+    expect(readVoiceEffects({ preset: 'underwater', gainDb: 'loud' })).toEqual(NO_EFFECTS);
+  });
+
+  it('brings lines voiced at different levels to the same loudness', () => {
+    const segments = [segment('pilot'), segment('narrator'), segment('narrator')];
+    const buffers = { 0: toneBuffer(0.05), 1: toneBuffer(0.2) };
+    const chains = planVoiceChains(segments, cast, buffers, -20);
+
+    expect(Object.keys(chains)).toEqual(['0', '1']);
+    expect(chains[0].effects).toBe(RADIO);
+    expect(0.05 * chains[0].gain).toBeCloseTo(0.2 * chains[1].gain);
+  });
+
+  it('leaves levels alone without a loudness target', () => {
+    const chains = planVoiceChains([segment('narrator')], cast, { 0: toneBuffer(0.05) }, null);
+    expect(chains[0].gain).toBe(1);
+  });
+});
@@ -0,0 +1,253 @@
+import { DubbingSegment, VoiceEffectPreset, VoiceEffects, VoiceInstruction } from "../types";
+import { dbToGain } from "./playbackGraph";
+import { measureLoudness, measurePeak, normalizationGain } from "./loudness";
+
+// Per-character and per-line processing of the voiced lines. The same node chain runs
+// live in the player and in an OfflineAudioContext for exports, so a line sounds the
+// same in both:
+//
+//   line -> gain -> EQ (low, presence, high) -> preset (band limit, drive, ring) -+-> dry --> out
+//                                                                               \-> reverb -> wet --> out
+//
+// Pitch is the one effect that is not a node: it is shifted on the buffer beforehand,
+// together with the "fit" time stretch (see audioRender.ts).
+
+export const NO_EFFECTS: VoiceEffects = {
+  preset: 'none',
+  gainDb: 0,
+  lowDb: 0,
+  midDb: 0,
+  highDb: 0,
+  pitch: 0,
+  reverb: 0
+};
+
+export const VOICE_EFFECT_PRESETS: { value: VoiceEffectPreset; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'radio', label: 'Radio' },
+  { value: 'telephone', label: 'Telephone' },
+  { value: 'megaphone', label: 'Megaphone' },
+  { value: 'robot', label: 'Robot' }
+];
+
+// What each preset adds after the EQ
+interface PresetChain {
+  highPass?: number; // Hz
+  lowPass?: number;
+  peak?: [frequency: number, gainDb: number];
+  drive?: number; // waveshaper saturation, 0 for none
+  ringHz?: number; // ring modulator carrier
+  makeupDb: number; // brings the preset back near the loudness it started at
+}
+
+const PRESET_CHAINS: Record<VoiceEffectPreset, PresetChain> = {
+  none: { makeupDb: 0 },
+  radio: { highPass: 400, lowPass: 4500, peak: [1800, 4], drive: 2, makeupDb: 1 },
+  telephone: { highPass: 300, lowPass: 3400, drive: 1.5, makeupDb: 3 },
+  megaphone: { highPass: 600, lowPass: 3500, peak: [2000, 8], drive: 8, makeupDb: -2 },
+  robot: { ringHz: 55, peak: [1200, 3], makeupDb: 3 }
+};
+
+const LOW_SHELF_HZ = 200;
+const PRESENCE_HZ = 2500;
+const HIGH_SHELF_HZ = 6000;
+
+// How long the reverb rings on after a line ends
+export const REVERB_SECONDS = 1.6;
+
+const EFFECT_RANGES: { [K in Exclude<keyof VoiceEffects, 'preset'>]: [number, number] } = {
+  gainDb: [-24, 12],
+  lowDb: [-12, 12],
+  midDb: [-12, 12],
+  highDb: [-12, 12],
+  pitch: [-12, 12],
+  reverb: [0, 1]
+};
+
+// Effects as stored, clamped to the ranges the controls offer; undefined when missing
+export const readVoiceEffects = (value: any): VoiceEffects | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  const effects: VoiceEffects = {
+    ...NO_EFFECTS,
+    preset: VOICE_EFFECT_PRESETS.some(p => p.value === value.preset) ? value.preset : 'none'
+  };
+  (Object.keys(EFFECT_RANGES) as (keyof typeof EFFECT_RANGES)[]).forEach(key => {
+    const [min, max] = EFFECT_RANGES[key];
+    const number = Number(value[key]);
+    effects[key] = Number.isFinite(number) ? Math.min(max, Math.max(min, number)) : 0;
+  });
+  return effects;
+};
+
+export const hasEffects = (effects: VoiceEffects | undefined): boolean =>
+  !!effects && (Object.keys(NO_EFFECTS) as (keyof VoiceEffects)[]).some(key => effects[key] !== NO_EFFECTS[key]);
+
+// A line's own effects, or else its character's
+export const segmentEffects = (segment: DubbingSegment, cast: VoiceInstruction[]): VoiceEffects =>
+  segment.effects || cast.find(c => c.characterId === segment.characterId)?.effects || NO_EFFECTS;
+
+// How one line is processed: its effects plus the gain that normalises its loudness
+export interface VoiceChain {
+  effects: VoiceEffects;
+  gain: number; // linear
+}
+
+const loudnessCache = new WeakMap<AudioBuffer, { loudness: number; peak: number }>();
+
+const bufferLoudness = (buffer: AudioBuffer) => {
+  let measured = loudnessCache.get(buffer);
+  if (!measured) {
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+    measured = { loudness: measureLoudness(channels, buffer.sampleRate), peak: measurePeak(channels) };
+    loudnessCache.set(buffer, measured);
+  }
+  return measured;
+};
+
+// The chain for every segment with audio. Loudness is measured on the buffers as they
+// are played, after any stretch and pitch shift; null leaves every line at its own level.
+export const planVoiceChains = (
+  segments: DubbingSegment[],
+  cast: VoiceInstruction[],
+  buffers: { [index: number]: AudioBuffer },
+  loudnessTarget: number | null
+): { [index: number]: VoiceChain } => {
+  const chains: { [index: number]: VoiceChain } = {};
+  segments.forEach((seg, i) => {
+    const buffer = buffers[i];
+    if (!buffer) return;
+    const { loudness, peak } = loudnessTarget === null ? { loudness: -Infinity, peak: 0 } : bufferLoudness(buffer);
+    chains[i] = {
+      effects: segmentEffects(seg, cast),
+      gain: loudnessTarget === null ? 1 : normalizationGain(loudness, peak, loudnessTarget)
+    };
+  });
+  return chains;
+};
+
+// Soft clipping, normalised so full scale stays at full scale
+const driveCurve = (drive: number): Float32Array => {
+  const curve = new Float32Array(1024);
+  for (let i = 0; i < curve.length; i++) {
+    const x = (i / (curve.length - 1)) * 2 - 1;
+    curve[i] = Math.tanh(drive * x) / Math.tanh(drive);
+  }
+  return curve;
+};
+
+// Decaying noise for the reverb, from a fixed seed so every render of it is identical
+const impulses = new WeakMap<BaseAudioContext, AudioBuffer>();
+
+const reverbImpulse = (ctx: BaseAudioContext): AudioBuffer => {
+  let impulse = impulses.get(ctx);
+  if (impulse) return impulse;
+  impulse = ctx.createBuffer(2, Math.round(REVERB_SECONDS * ctx.sampleRate), ctx.sampleRate);
+  let seed = 0x2f6b1d;
+  for (let c = 0; c < impulse.numberOfChannels; c++) {
+    const data = impulse.getChannelData(c);
+    for (let i = 0; i < data.length; i++) {
+      seed = (seed * 1664525 + 1013904223) >>> 0;
+      const noise = seed / 0x80000000 - 1;
+      data[i] = noise * Math.pow(1 - i / data.length, 3);
+    }
+  }
+  impulses.set(ctx, impulse);
+  return impulse;
+};
+
+const biquad = (ctx: BaseAudioContext, type: BiquadFilterType, frequency: number, gainDb = 0, Q?: number) => {
+  const node = ctx.createBiquadFilter();
+  node.type = type;
+  node.frequency.value = frequency;
+  node.gain.value = gainDb;
+  if (Q !== undefined) node.Q.value = Q;
+  return node;
+};
+
+// Wires `source` to `destination` through a line's chain. Returns a function that stops
+// the chain's own oscillator, for live playback once the line and its tail are over.
+export const connectVoiceChain = (
+  ctx: BaseAudioContext,
+  source: AudioNode,
+  destination: AudioNode,
+  { effects, gain }: VoiceChain,
+  startTime = 0
+): ((when: number) => void) => {
+  const preset = PRESET_CHAINS[effects.preset] || PRESET_CHAINS.none;
+
+  const input = ctx.createGain();
+  input.gain.value = gain * dbToGain(effects.gainDb + preset.makeupDb);
+  source.connect(input);
+
+  const nodes: AudioNode[] = [];
+  if (effects.lowDb !== 0) nodes.push(biquad(ctx, 'lowshelf', LOW_SHELF_HZ, effects.lowDb));
+  if (effects.midDb !== 0) nodes.push(biquad(ctx, 'peaking', PRESENCE_HZ, effects.midDb, 1));
+  if (effects.highDb !== 0) nodes.push(biquad(ctx, 'highshelf', HIGH_SHELF_HZ, effects.highDb));
+  if (preset.highPass) nodes.push(biquad(ctx, 'highpass', preset.highPass, 0, 0.9));
+  if (preset.lowPass) nodes.push(biquad(ctx, 'lowpass', preset.lowPass, 0, 0.9));
+  if (preset.peak) nodes.push(biquad(ctx, 'peaking', preset.peak[0], preset.peak[1], 1.2));
+  if (preset.drive) {
+    const shaper = ctx.createWaveShaper();
+    shaper.curve = driveCurve(preset.drive);
+    shaper.oversample = '2x';
+    nodes.push(shaper);
+  }
+
+  let carrier: OscillatorNode | null = null;
+  if (preset.ringHz) {
+    // The line times a sine: a gain of 0 whose gain the oscillator drives
+    const ring = ctx.createGain();
+    ring.gain.value = 0;
+    carrier = ctx.createOscillator();
+    carrier.frequency.value = preset.ringHz;
+    carrier.connect(ring.gain);
+    carrier.start(startTime);
+    nodes.push(ring);
+  }
+
+  const output = nodes.reduce<AudioNode>((previous, node) => previous.connect(node), input);
+
+  if (effects.reverb > 0) {
+    const dry = ctx.createGain();
+    dry.gain.value = 1 - effects.reverb / 2;
+    const wet = ctx.createGain();
+    wet.gain.value = effects.reverb;
+    const convolver = ctx.createConvolver();
+    convolver.buffer = reverbImpulse(ctx);
+    output.connect(dry).connect(destination);
+    output.connect(convolver).connect(wet).connect(destination);
+  } else {
+    output.connect(destination);
+  }
+
+  return (when: number) => {
+    try { carrier?.stop(when); } catch (e) { /* already stopped */ }
+  };
+};
+
+// The lines with their chains rendered in, for the export paths that mix buffers
+// directly. A line with reverb grows by the length of its tail.
+export const renderVoiceChains = async (
+  buffers: { [index: number]: AudioBuffer },
+  chains: { [index: number]: VoiceChain }
+): Promise<{ [index: number]: AudioBuffer }> => {
+  const rendered: { [index: number]: AudioBuffer } = { ...buffers };
+  await Promise.all(Object.keys(buffers).map(Number).map(async i => {
+    const buffer = buffers[i];
+    const chain = chains[i];
+    if (!chain || (chain.gain === 1 && !hasEffects(chain.effects))) return;
+
+    const tail = chain.effects.reverb > 0 ? REVERB_SECONDS : 0;
+    const ctx = new OfflineAudioContext(
+      Math.max(buffer.numberOfChannels, chain.effects.reverb > 0 ? 2 : 1),
+      buffer.length + Math.round(tail * buffer.sampleRate),
+      buffer.sampleRate
+    );
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    connectVoiceChain(ctx, source, ctx.destination, chain);
+    source.start(0);
+    rendered[i] = await ctx.startRendering();
+  }));
+  return rendered;
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { GEMINI_VOICES, searchVoices, VOICE_LIBRARY, voiceLabel } from './voices';
+
+const names = (description: string) => searchVoices(description).map(v => v.name);
+
+describe('voice library', () => {
+  it('describes every prebuilt voice once', () => {
+    expect(GEMINI_VOICES).toHaveLength(30);
+    expect(new Set(GEMINI_VOICES).size).toBe(30);
+    VOICE_LIBRARY.forEach(voice => expect(voice.tags.length).toBeGreaterThan(0));
+  });
+
+  it('labels a voice with its style', () => {
+    expect(voiceLabel('Kore')).toBe('Kore · Firm, female');
+    expect(voiceLabel('Unknown')).toBe('Unknown');
+  });
+});
+
+describe('searchVoices', () => {
+  it('ranks voices by how well their tags fit', () => {
+    expect(names('gruff old pirate')[0]).toBe('Algenib');
+    expect(names('calm documentary narrator')[0]).toBe('Charon');
+  });
+
+  it('leaves out voices of the other gender', () => {
+    const found = searchVoices('a wise old woman');
+    expect(found[0].name).toBe('Gacrux');
+    expect(found.every(v => v.gender === 'female')).toBe(true);
+  });
+
+  it('uses pitch words', () => {
+    expect(searchVoices('deep voice').every(v => v.pitch === 'low')).toBe(true);
+  });
+
+  it('matches style words and voice names', () => {
+    expect(names('breathy')).toEqual(['Enceladus']);
+    expect(names('Kore')).toEqual(['Kore']);
+  });
+
+  it('returns everything for an empty query and nothing for a stranger', () => {
+    expect(searchVoices('  ')).toHaveLength(30);
+    expect(searchVoices('xylophone')).toEqual([]);
+  });
+});
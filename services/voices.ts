@@ -0,0 +1,99 @@
+// Prebuilt voices offered by the Gemini TTS models. `style` is the one-word character
+// Google gives each voice; gender presentation, pitch and tags describe how it sounds
+// on the flash TTS model, for searching and for casting new characters automatically.
+
+export type VoiceGender = 'female' | 'male';
+export type VoicePitch = 'low' | 'medium' | 'high';
+
+export interface VoiceProfile {
+  name: string;
+  style: string;
+  gender: VoiceGender;
+  pitch: VoicePitch;
+  tags: string[];
+}
+
+export const VOICE_LIBRARY: VoiceProfile[] = [
+  { name: 'Zephyr', style: 'Bright', gender: 'female', pitch: 'high', tags: ['cheerful', 'energetic', 'young', 'presenter'] },
+  { name: 'Puck', style: 'Upbeat', gender: 'male', pitch: 'medium', tags: ['playful', 'cheeky', 'young', 'comic'] },
+  { name: 'Charon', style: 'Informative', gender: 'male', pitch: 'low', tags: ['narrator', 'documentary', 'calm', 'deep', 'authoritative'] },
+  { name: 'Kore', style: 'Firm', gender: 'female', pitch: 'medium', tags: ['confident', 'professional', 'serious', 'leader'] },
+  { name: 'Fenrir', style: 'Excitable', gender: 'male', pitch: 'medium', tags: ['energetic', 'loud', 'hero', 'enthusiastic', 'excited'] },
+  { name: 'Leda', style: 'Youthful', gender: 'female', pitch: 'high', tags: ['girl', 'child', 'young', 'sweet', 'innocent'] },
+  { name: 'Orus', style: 'Firm', gender: 'male', pitch: 'low', tags: ['commanding', 'stern', 'villain', 'authoritative'] },
+  { name: 'Aoede', style: 'Breezy', gender: 'female', pitch: 'medium', tags: ['relaxed', 'friendly', 'light', 'casual'] },
+  { name: 'Callirrhoe', style: 'Easy-going', gender: 'female', pitch: 'medium', tags: ['relaxed', 'casual', 'conversational'] },
+  { name: 'Autonoe', style: 'Bright', gender: 'female', pitch: 'medium', tags: ['optimistic', 'cheerful', 'clear'] },
+  { name: 'Enceladus', style: 'Breathy', gender: 'male', pitch: 'low', tags: ['whisper', 'soft', 'tired', 'intimate', 'mysterious'] },
+  { name: 'Iapetus', style: 'Clear', gender: 'male', pitch: 'medium', tags: ['narrator', 'neutral', 'articulate'] },
+  { name: 'Umbriel', style: 'Easy-going', gender: 'male', pitch: 'medium', tags: ['laid-back', 'calm', 'casual', 'friendly'] },
+  { name: 'Algieba', style: 'Smooth', gender: 'male', pitch: 'low', tags: ['suave', 'romantic', 'charming', 'smooth'] },
+  { name: 'Despina', style: 'Smooth', gender: 'female', pitch: 'medium', tags: ['elegant', 'warm', 'sophisticated'] },
+  { name: 'Erinome', style: 'Clear', gender: 'female', pitch: 'medium', tags: ['precise', 'articulate', 'narrator', 'neutral'] },
+  { name: 'Algenib', style: 'Gravelly', gender: 'male', pitch: 'low', tags: ['rough', 'gruff', 'old', 'villain', 'monster', 'pirate'] },
+  { name: 'Rasalgethi', style: 'Informative', gender: 'male', pitch: 'medium', tags: ['narrator', 'documentary', 'presenter'] },
+  { name: 'Laomedeia', style: 'Upbeat', gender: 'female', pitch: 'high', tags: ['cheerful', 'curious', 'lively', 'young'] },
+  { name: 'Achernar', style: 'Soft', gender: 'female', pitch: 'high', tags: ['gentle', 'shy', 'quiet', 'child', 'whisper'] },
+  { name: 'Alnilam', style: 'Firm', gender: 'male', pitch: 'low', tags: ['strong', 'soldier', 'serious', 'commanding'] },
+  { name: 'Schedar', style: 'Even', gender: 'male', pitch: 'medium', tags: ['steady', 'neutral', 'calm', 'narrator'] },
+  { name: 'Gacrux', style: 'Mature', gender: 'female', pitch: 'medium', tags: ['older', 'old', 'wise', 'grandmother', 'grandma'] },
+  { name: 'Pulcherrima', style: 'Forward', gender: 'female', pitch: 'medium', tags: ['bold', 'assertive', 'confident', 'sassy'] },
+  { name: 'Achird', style: 'Friendly', gender: 'male', pitch: 'medium', tags: ['approachable', 'warm', 'kind', 'young'] },
+  { name: 'Zubenelgenubi', style: 'Casual', gender: 'male', pitch: 'medium', tags: ['conversational', 'relaxed', 'everyday'] },
+  { name: 'Vindemiatrix', style: 'Gentle', gender: 'female', pitch: 'medium', tags: ['calm', 'kind', 'soothing', 'soft'] },
+  { name: 'Sadachbia', style: 'Lively', gender: 'male', pitch: 'low', tags: ['animated', 'energetic', 'deep', 'comic'] },
+  { name: 'Sadaltager', style: 'Knowledgeable', gender: 'male', pitch: 'medium', tags: ['teacher', 'professor', 'wise', 'expert', 'old'] },
+  { name: 'Sulafat', style: 'Warm', gender: 'female', pitch: 'medium', tags: ['caring', 'mother', 'kind', 'comforting'] }
+];
+
+export const GEMINI_VOICES: string[] = VOICE_LIBRARY.map(v => v.name);
+
+export const DEFAULT_VOICE = 'Puck';
+
+export const voiceProfile = (name: string): VoiceProfile | undefined => VOICE_LIBRARY.find(v => v.name === name);
+
+// "Kore · Firm, female"
+export const voiceLabel = (name: string): string => {
+  const profile = voiceProfile(name);
+  return profile ? `${profile.name} · ${profile.style}, ${profile.gender}` : name;
+};
+
+// Words in a description that say something a voice's tags do not spell out
+const GENDER_WORDS: Record<VoiceGender, string[]> = {
+  female: ['she', 'her', 'woman', 'women', 'girl', 'female', 'lady', 'mother', 'mom', 'mum', 'grandma', 'grandmother', 'queen', 'princess', 'sister', 'aunt', 'witch'],
+  male: ['he', 'him', 'his', 'man', 'men', 'boy', 'male', 'guy', 'father', 'dad', 'grandpa', 'grandfather', 'king', 'prince', 'brother', 'uncle', 'wizard']
+};
+
+const PITCH_WORDS: Record<VoicePitch, string[]> = {
+  low: ['deep', 'low', 'bass', 'booming', 'gruff', 'giant', 'big'],
+  medium: [],
+  high: ['high', 'squeaky', 'little', 'small', 'tiny', 'child', 'kid', 'baby']
+};
+
+const words = (text: string): string[] => text.toLowerCase().split(/[^a-z]+/).filter(Boolean);
+
+// How well a voice fits a description: tags and style count most, a matching gender
+// or pitch word helps, and a contradicting gender rules the voice out
+const scoreVoice = (voice: VoiceProfile, query: string[]): number => {
+  const tags = new Set([...voice.tags, ...words(voice.style), voice.name.toLowerCase()]);
+  let score = 0;
+  query.forEach(word => {
+    if (tags.has(word)) score += 2;
+    if (PITCH_WORDS[voice.pitch].includes(word)) score += 1;
+    if (GENDER_WORDS[voice.gender].includes(word)) score += 3;
+    else if (Object.values(GENDER_WORDS).some(list => list.includes(word))) score -= 10;
+  });
+  return score;
+};
+
+// Voices that match a free-text description such as "gruff old pirate", best first.
+// Voices matching nothing are left out; an empty query returns the whole library.
+export const searchVoices = (description: string, voices: VoiceProfile[] = VOICE_LIBRARY): VoiceProfile[] => {
+  const query = words(description);
+  if (query.length === 0) return voices;
+  return voices
+    .map(voice => ({ voice, score: scoreVoice(voice, query) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .map(({ voice }) => voice);
+};
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { pcmToWav } from './wav';
+
+const readHeader = async (blob: Blob) => {
+  const view = new DataView(await blob.arrayBuffer());
+  const text = (offset: number) => String.fromCharCode(...new Uint8Array(view.buffer, offset, 4));
+  return { view, text };
+};
+
+describe('pcmToWav', () => {
+  it('writes a canonical 44-byte PCM header', async () => {
+    const pcm = new Uint8Array([1, 0, 2, 0, 3, 0]);
+    const blob = pcmToWav(pcm, 24000);
+    const { view, text } = await readHeader(blob);
+
+    expect(blob.type).toBe('audio/wav');
+    expect(blob.size).toBe(44 + pcm.length);
+    expect(text(0)).toBe('RIFF');
+    expect(view.getUint32(4, true)).toBe(36 + pcm.length);
+    expect(text(8)).toBe('WAVE');
+    expect(text(12)).toBe('fmt ');
+    expect(view.getUint32(16, true)).toBe(16);
+    expect(view.getUint16(20, true)).toBe(1); // PCM
+    expect(view.getUint16(22, true)).toBe(1); // mono
+    expect(view.getUint32(24, true)).toBe(24000);
+    expect(view.getUint32(28, true)).toBe(48000); // byte rate
+    expect(view.getUint16(32, true)).toBe(2); // block align
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(text(36)).toBe('data');
+    expect(view.getUint32(40, true)).toBe(pcm.length);
+  });
+
+  it('copies the samples after the header', async () => {
+    const pcm = new Uint8Array([9, 8, 7, 6]);
+    const { view } = await readHeader(pcmToWav(pcm));
+    expect(Array.from(new Uint8Array(view.buffer, 44))).toEqual([9, 8, 7, 6]);
+  });
+
+  it('derives rates from the channel count', async () => {
+    const { view } = await readHeader(pcmToWav(new Uint8Array(8), 48000, 2));
+    expect(view.getUint16(22, true)).toBe(2);
+    expect(view.getUint32(28, true)).toBe(192000);
+    expect(view.getUint16(32, true)).toBe(4);
+  });
+});
@@ -0,0 +1,58 @@
+// Wraps 16-bit little-endian PCM (interleaved when multichannel) in a WAV container
+export const pcmToWav = (pcmData: Uint8Array, sampleRate: number = 24000, numChannels: number = 1): Blob => {
+  const bitsPerSample = 16;
+  const byteRate = (sampleRate * numChannels * bitsPerSample) / 8;
+  const blockAlign = (numChannels * bitsPerSample) / 8;
+  const dataSize = pcmData.length;
+  const headerSize = 44;
+  const totalSize = headerSize + dataSize;
+
+  const buffer = new ArrayBuffer(totalSize);
+  const view = new DataView(buffer);
+
+  const writeString = (view: DataView, offset: number, string: string) => {
+    for (let i = 0; i < string.length; i++) {
+      view.setUint8(offset + i, string.charCodeAt(i));
+    }
+  };
+
+  // RIFF chunk
+  writeString(view, 0, 'RIFF');
+  view.setUint32(4, totalSize - 8, true);
+  writeString(view, 8, 'WAVE');
+
+  // fmt chunk
+  writeString(view, 12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, byteRate, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitsPerSample, true);
+
+  // data chunk
+  writeString(view, 36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  const dataView = new Uint8Array(buffer, headerSize);
+  dataView.set(pcmData);
+
+  return new Blob([buffer], { type: 'audio/wav' });
+};
+
+// Converts rendered float samples to 16-bit PCM and encodes them as WAV
+export const audioBufferToWav = (buffer: AudioBuffer): Blob => {
+  const numChannels = buffer.numberOfChannels;
+  const channels = Array.from({ length: numChannels }, (_, c) => buffer.getChannelData(c));
+  const pcm = new Int16Array(buffer.length * numChannels);
+
+  for (let i = 0; i < buffer.length; i++) {
+    for (let c = 0; c < numChannels; c++) {
+      const sample = Math.max(-1, Math.min(1, channels[c][i]));
+      pcm[i * numChannels + c] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+    }
+  }
+
+  return pcmToWav(new Uint8Array(pcm.buffer), buffer.sampleRate, numChannels);
+};
@@ -0,0 +1,24 @@
+import { vi } from 'vitest';
+
+// Stands in for GoogleGenAI: every client shares one generateContent mock,
+// so tests can queue responses with mockResolvedValueOnce.
+export const generateContent = vi.fn();
+// Files API, for videos too large to send inline
+export const getFile = vi.fn();
+export const deleteFile = vi.fn();
+
+export class FakeGoogleGenAI {
+  models = { generateContent };
+  files = { get: getFile, delete: deleteFile };
+  constructor(public options: { apiKey: string }) {}
+}
+
+export const textResponse = (text: string | undefined) => ({ text });
+
+export const audioResponse = (pcm: Uint8Array) => ({
+  candidates: [{
+    content: {
+      parts: [{ inlineData: { data: Buffer.from(pcm).toString('base64'), mimeType: 'audio/L16;rate=24000' } }]
+    }
+  }]
+});
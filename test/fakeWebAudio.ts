@@ -0,0 +1,98 @@
+import { vi } from 'vitest';
+
+// Just enough of the Web Audio API to drive DubbedPlayer in jsdom.
+// Decoded buffers remember the URL they were fetched from, so tests can tell
+// which segment a started source is playing.
+
+class FakeAudioParam {
+  value = 1;
+  setTargetAtTime(value: number) {
+    this.value = value;
+  }
+}
+
+class FakeNode {
+  connect() {}
+  disconnect() {}
+}
+
+export class FakeAudioBuffer {
+  numberOfChannels = 1;
+  sampleRate = 24000;
+  constructor(public duration: number, public label: string = '') {}
+  get length() {
+    return Math.round(this.duration * this.sampleRate);
+  }
+  getChannelData() {
+    return new Float32Array(this.length);
+  }
+}
+
+export class FakeBufferSource extends FakeNode {
+  buffer: FakeAudioBuffer | null = null;
+  onended: (() => void) | null = null;
+  playbackRate = new FakeAudioParam();
+  started = false;
+  constructor(private ctx: FakeAudioContext) {
+    super();
+  }
+  start() {
+    this.started = true;
+    this.ctx.startedSources.push(this);
+  }
+  stop() {
+    this.onended?.();
+  }
+}
+
+export class FakeAudioContext {
+  static instances: FakeAudioContext[] = [];
+  state = 'running';
+  currentTime = 0;
+  sampleRate = 48000;
+  destination = new FakeNode();
+  startedSources: FakeBufferSource[] = [];
+
+  constructor() {
+    FakeAudioContext.instances.push(this);
+  }
+
+  createGain() {
+    return Object.assign(new FakeNode(), { gain: new FakeAudioParam() });
+  }
+  createMediaElementSource() {
+    return new FakeNode();
+  }
+  createMediaStreamDestination() {
+    return Object.assign(new FakeNode(), { stream: { getAudioTracks: () => [] } });
+  }
+  createBufferSource() {
+    return new FakeBufferSource(this);
+  }
+  createBuffer(_channels: number, length: number, sampleRate: number) {
+    return new FakeAudioBuffer(length / sampleRate);
+  }
+  async decodeAudioData(data: ArrayBuffer) {
+    return new FakeAudioBuffer(1, new TextDecoder().decode(data));
+  }
+  async resume() {
+    this.state = 'running';
+  }
+  async close() {
+    this.state = 'closed';
+  }
+
+  // Sources started for dub lines, i.e. not the silent iOS unlock buffer
+  get playedLabels(): string[] {
+    return this.startedSources.filter(s => s.buffer?.label).map(s => s.buffer!.label);
+  }
+}
+
+// fetch() answers with the URL itself as the body, which decodeAudioData then labels
+export const installFakeWebAudio = () => {
+  FakeAudioContext.instances = [];
+  vi.stubGlobal('AudioContext', FakeAudioContext);
+  vi.stubGlobal('fetch', vi.fn(async (url: string) => ({
+    arrayBuffer: async () => new TextEncoder().encode(url).buffer
+  })));
+};
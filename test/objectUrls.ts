@@ -0,0 +1,17 @@
+// jsdom has no blob: URLs. This keeps the blobs in a map so tests can read them back.
+
+const blobs = new Map<string, Blob>();
+let nextId = 0;
+
+export const installObjectUrls = () => {
+  URL.createObjectURL = (blob: Blob | MediaSource) => {
+    const url = `blob:test/${nextId++}`;
+    blobs.set(url, blob as Blob);
+    return url;
+  };
+  URL.revokeObjectURL = (url: string) => {
+    blobs.delete(url);
+  };
+};
+
+export const blobForUrl = (url: string): Blob | undefined => blobs.get(url);
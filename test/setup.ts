@@ -0,0 +1,35 @@
+import { afterEach } from 'vitest';
+import { cleanup } from '@testing-library/react';
+import { installObjectUrls } from './objectUrls';
+
+installObjectUrls();
+
+// jsdom's Blob predates arrayBuffer() and text()
+const readBlob = <T>(blob: Blob, read: (reader: FileReader) => void): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as T);
+    reader.onerror = () => reject(reader.error);
+    read(reader);
+  });
+
+if (!Blob.prototype.arrayBuffer) {
+  Blob.prototype.arrayBuffer = function (this: Blob) {
+    return readBlob<ArrayBuffer>(this, reader => reader.readAsArrayBuffer(this));
+  };
+}
+if (!Blob.prototype.text) {
+  Blob.prototype.text = function (this: Blob) {
+    return readBlob<string>(this, reader => reader.readAsText(this));
+  };
+}
+
+// No canvas in jsdom; components treat a missing 2D context as "nothing to draw"
+HTMLCanvasElement.prototype.getContext = (() => null) as any;
+
+// Nor media playback; players pause their video as they mount, before a test can stub it
+HTMLMediaElement.prototype.pause = () => {};
+
+afterEach(() => {
+  cleanup();
+});
@@ -1,22 +1,116 @@
 export enum AppState {
   IDLE = 'IDLE',
+  SCRIPTING = 'SCRIPTING',
+  REVIEW = 'REVIEW',
   PROCESSING = 'PROCESSING',
   COMPLETED = 'COMPLETED',
   ERROR = 'ERROR'
 }
 
+// A line of the draft script, editable before any audio is generated
+export interface ScriptLine {
+  id: string;
+  startTime: number; // in seconds, millisecond precision
+  endTime?: number; // optional: when the line must be finished, for tightly timed exchanges
+  text: string;
+  characterId: string; // stable id such as "blue_cat", shared across regenerations
+  characterNote: string;
+  sourceText?: string; // in translate mode, the original speech this line translates
+}
+
+// "create" writes new dialogue and narration; "translate" dubs the speech already in the video
+export type DubbingMode = 'create' | 'translate';
+
 export interface DubbingSegment {
+  id: string; // id of the script line it was voiced from
+  characterId: string;
   startTime: number; // in seconds
+  endTime?: number;
   text: string;
+  sourceText?: string;
   audioUrl: string;
+  duration: number; // length of the voiced audio, in seconds
+  effects?: VoiceEffects; // this line only, instead of its character's
+}
+
+export type VoiceEffectPreset = 'none' | 'radio' | 'telephone' | 'megaphone' | 'robot';
+
+// Processing applied to a voice after it is synthesized, in playback and in every export
+export interface VoiceEffects {
+  preset: VoiceEffectPreset;
+  gainDb: number;
+  lowDb: number; // low shelf
+  midDb: number; // presence
+  highDb: number; // high shelf
+  pitch: number; // semitones, without changing the length
+  reverb: number; // wet share, 0-1
 }
 
+// A cast entry: the voice every line of one character is spoken with
 export interface VoiceInstruction {
-  character: string;
-  voiceDescription: string;
+  characterId: string;
+  character: string; // display name
+  voiceName: string; // prebuilt Gemini voice
+  voiceDescription: string; // standing style, applied to every line
+  effects?: VoiceEffects;
+}
+
+// A script line that could not be voiced, even after retries
+export interface SegmentFailure {
+  lineId: string;
+  text: string;
+  error: string;
+}
+
+// A voiced segment as stored in a project: the audio itself instead of a blob: URL
+export interface ProjectSegment extends Omit<DubbingSegment, 'audioUrl'> {
+  audio: Blob; // WAV
+}
+
+// Everything needed to reopen a dub in a later session or on another machine
+export interface DubbingProject {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  instructions: string;
+  mode?: DubbingMode; // missing in projects saved before translate mode, meaning "create"
+  targetLanguage?: string;
+  script: ScriptLine[];
+  cast: VoiceInstruction[];
+  segments: ProjectSegment[];
+  video?: Blob;
+  videoName?: string;
+}
+
+// Player mix: volumes are linear gains (0-1), ducking is in dB
+export interface MixSettings {
+  masterVolume: number;
+  originalVolume: number;
+  dubVolume: number;
+  duckingDb: number; // how far the original soundtrack drops under a dub line
+  loudnessTarget: number | null; // LUFS every dub line is brought to; null keeps the TTS levels
+}
+
+export type CaptionPosition = 'top' | 'middle' | 'bottom';
+
+// Look of the captions in the preview and burned into exports. Sizes are relative to
+// the video frame, so a caption covers the same share of any resolution.
+export interface CaptionStyle {
+  burnIn: boolean; // draw the captions into exported videos
+  fontFamily: string;
+  fontSize: number; // % of the frame height
+  bold: boolean;
+  textColor: string;
+  highlightColor: string; // words already spoken, in karaoke mode
+  boxColor: string;
+  boxOpacity: number; // 0 hides the box
+  position: CaptionPosition;
+  margin: number; // safe margin, % of the frame on every side
+  karaoke: boolean;
 }
 
 export type ProcessingError = {
   message: string;
   details?: string;
-}
\ No newline at end of file
+}